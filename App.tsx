@@ -1,25 +1,116 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { FileUp, AlertCircle } from 'lucide-react';
-import { loadPDF, renderPageToCanvas, extractTextFromPage, getCanvasAsBase64 } from './services/pdfService';
-import { generateSpeech, performOCR } from './services/geminiService';
-import { PDFDocumentProxy, PDFPageProxy, ReaderMode } from './types';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { FileUp, AlertCircle, Download, ScanText, History, ChevronUp, ChevronDown, X } from 'lucide-react';
+import { loadPDF, loadOutline, flattenOutline, findOutlineEntryAtPage, getChapterRange, renderPageForDisplay, getPageSize, extractTextFromPage, detectRunningLines, loadPageText } from './services/pdfService';
+import { getTTSProvider, getTTSProviders, DEFAULT_TTS_PROVIDER_ID } from './services/ttsRegistry';
+import { getCachedAudio, putCachedAudio, AudioCacheKey } from './services/audioCacheService';
+import { hashFile, hashText } from './services/hashService';
+import { chunkTextForSpeech, clipChunks } from './services/textChunker';
+import { findSentenceStart, findParagraphRange, findAdjacentSentenceStart, findAdjacentParagraphStart } from './services/sentenceSegmenter';
+import { findOffsetAtPoint, findWordRange } from './services/textHighlight';
+import { DEFAULT_ZOOM, resolveZoomScale, stepZoom } from './services/zoom';
+import { setMediaMetadata, setMediaPlaybackState, setMediaPositionState, setMediaActionHandlers, createMediaKeepAlive } from './services/mediaSession';
+import { assemblePageAudio } from './services/audioUtils';
+import { PlaybackAnchor, createPlaybackAnchor, getPlaybackPosition, reanchorPlayback, charIndexAtTime, timeAtCharIndex, estimateSpeechSeconds, estimateSpeechChars } from './services/speechTiming';
+import { loadVoicePreferences, saveVoicePreferences, resolveVoice, VoicePreferences } from './services/voicePreferences';
+import { detectLanguage } from './services/languageDetect';
+import { exportAudiobook, downloadBlob, AudiobookProgress } from './services/audiobookExport';
+import { loadDocumentState, updateDocumentState } from './services/documentStore';
+import { createSearchIndex, indexDocument } from './services/searchIndex';
+import { getOcrPages, putOcrPage, StoredOcrPage } from './services/ocrStore';
+import { getOcrPageItems } from './services/ocrLayout';
+import { runBatchOcr, recognizePageImage, renderPageImage, BatchOcrProgress } from './services/batchOcr';
+import { getSummarySections, summarizeDocument, buildSummaryScript, SummaryProgress } from './services/summarizer';
+import { hasGeminiApiKey } from './services/geminiService';
+import { GeminiError } from './services/geminiClient';
+import { createGenerationCounter } from './services/generation';
+import { askDocument } from './services/documentQA';
+import { translatePage, toTranslationOffset, toSourceOffset } from './services/translation';
+import { createSpeechNormalizer, toOriginalOffset, SpeechNormalizer } from './services/speechNormalizer';
+import { loadNormalizationSettings, saveNormalizationSettings } from './services/normalizationSettings';
+import { PDFDocumentProxy, PDFPageProxy, PDFPageText, OutlineItem, ReaderMode, PageAudio, TextChunk, TTSProvider, TTSVoice, LiveTTSProvider, AudioTTSProvider, SynthesisOptions, Bookmark, DocumentState, SearchHit, OcrPageLayout, PositionedText, ZoomLevel, ViewMode, DocumentSummary, ChatMessage, Citation, PageTranslation, PronunciationRule, SpeechNormalizationSettings, SpokenText } from './types';
 import ControlBar from './components/ControlBar';
 import { Spinner } from './components/Spinner';
 import { HighlightableText } from './components/HighlightableText';
 import { WaitingOverlay } from './components/WaitingOverlay';
+import { AudioCacheControl } from './components/AudioCacheControl';
+import { ExportAudioDialog, ExportAudioSettings } from './components/ExportAudioDialog';
+import { BookmarksPanel } from './components/BookmarksPanel';
+import { OutlinePanel } from './components/OutlinePanel';
+import { SearchPanel } from './components/SearchPanel';
+import { BatchOcrDialog } from './components/BatchOcrDialog';
+import { OcrTextLayer } from './components/OcrTextLayer';
+import { PageHighlightOverlay } from './components/PageHighlightOverlay';
+import { ShortcutsDialog } from './components/ShortcutsDialog';
+import { ZoomControls } from './components/ZoomControls';
+import { ViewModeControls } from './components/ViewModeControls';
+import { ContinuousPageView } from './components/ContinuousPageView';
+import { ThumbnailStrip } from './components/ThumbnailStrip';
+import { SummaryPanel, SummaryTrack } from './components/SummaryPanel';
+import { ChatPanel } from './components/ChatPanel';
+import { TranslateSelect } from './components/TranslateSelect';
+import { BilingualText } from './components/BilingualText';
+import { SpeechRulesDialog } from './components/SpeechRulesDialog';
+import { ReadingContextMenu, getTextOffset, getSelectionOffsets } from './components/ReadingContextMenu';
+
+// Padding around the page in the viewer (p-8) and room kept for a vertical scrollbar
+const VIEWER_PADDING = 32;
+const SCROLLBAR_ALLOWANCE = 16;
+
+type SidebarTab = 'contents' | 'text' | 'summary' | 'ask' | 'search' | 'bookmarks';
 
 const App: React.FC = () => {
   // Data State
   const [pdfDoc, setPdfDoc] = useState<PDFDocumentProxy | null>(null);
+  const [docName, setDocName] = useState('');
+  const [outline, setOutline] = useState<OutlineItem[]>([]);
   const [currentPageNum, setCurrentPageNum] = useState(1);
+  const [pageProxy, setPageProxy] = useState<PDFPageProxy | null>(null); // Current page, rendered by the effect below in single-page view
+  const [zoom, setZoom] = useState<ZoomLevel>(DEFAULT_ZOOM);
+  const [viewerSize, setViewerSize] = useState({ width: 0, height: 0 });
+  const [viewMode, setViewMode] = useState<ViewMode>('single');
+  const [showThumbnails, setShowThumbnails] = useState(false);
   const [textContent, setTextContent] = useState<string>('');
   const [isTextScanned, setIsTextScanned] = useState(false);
+  const [ocrLayout, setOcrLayout] = useState<OcrPageLayout | null>(null); // Positions of OCR text on the current page
+  const [pageItems, setPageItems] = useState<PositionedText[]>([]); // Boxes of the current page text, for the on-page highlight
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  // Saved state of the reopened document, offered as "Resume from page N" until accepted or dismissed
+  const [resumeOffer, setResumeOffer] = useState<DocumentState | null>(null);
   
   // UI State
   const [isLoading, setIsLoading] = useState(false); // Generic loading (PDF render, etc)
   const [isGeneratingAI, setIsGeneratingAI] = useState(false); // Specific heavy lifting state for Overlay
   const [error, setError] = useState<string | null>(null);
+  const [audioCacheVersion, setAudioCacheVersion] = useState(0); // Bumped when persistent cache changes
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isBatchOcrOpen, setIsBatchOcrOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isSpeechRulesOpen, setIsSpeechRulesOpen] = useState(false);
+  const [ocrPageCount, setOcrPageCount] = useState(0);
   const [readerMode, setReaderMode] = useState<ReaderMode>(ReaderMode.IDLE);
+  const [voicePrefs, setVoicePrefs] = useState<VoicePreferences>(loadVoicePreferences);
+  const [ttsProviderId, setTtsProviderId] = useState(() => {
+    const saved = voicePrefs.providerId;
+    return saved && getTTSProvider(saved) ? saved : DEFAULT_TTS_PROVIDER_ID;
+  });
+  const [providerVoices, setProviderVoices] = useState<Record<string, TTSVoice[]>>({});
+  const [pageLanguage, setPageLanguage] = useState<string | null>(null);
+  const [sidebarTab, setSidebarTab] = useState<SidebarTab>('text');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchHits, setSearchHits] = useState<SearchHit[]>([]);
+  const [activeHitIndex, setActiveHitIndex] = useState<number | null>(null);
+  const [indexedPages, setIndexedPages] = useState(0);
+  const [readingMenu, setReadingMenu] = useState<{ x: number; y: number; offset: number; selection: [number, number] | null } | null>(null);
+  const [searchIndexVersion, setSearchIndexVersion] = useState(0); // Bumped when OCR adds page text
+  const [summary, setSummary] = useState<DocumentSummary | null>(null);
+  const [summaryProgress, setSummaryProgress] = useState<SummaryProgress | null>(null);
+  const [summaryTrack, setSummaryTrack] = useState<SummaryTrack | null>(null); // Summary audio being played
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [translateTo, setTranslateTo] = useState<string | null>(null); // Target language of translate-and-read
+  const [translation, setTranslation] = useState<PageTranslation | null>(null); // Current page, when translating
+  const [normalizationSettings, setNormalizationSettings] = useState<SpeechNormalizationSettings>(loadNormalizationSettings);
+  const [documentPronunciations, setDocumentPronunciations] = useState<PronunciationRule[]>([]);
   
   // Audio State
   const [isPlaying, setIsPlaying] = useState(false);
@@ -28,53 +119,159 @@ const App: React.FC = () => {
 
   // Logic Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const autoPlayRef = useRef<boolean>(false); 
   const playbackRateRef = useRef(1.0);
+  const ttsProviderIdRef = useRef(ttsProviderId);
+  const voicePrefsRef = useRef(voicePrefs);
+  const providerVoicesRef = useRef<Record<string, TTSVoice[]>>({});
+  // Turns the text being read into what the voice is given; rebuilt when the rules change
+  const normalizationSettingsRef = useRef(normalizationSettings);
+  const speechNormalizerRef = useRef<SpeechNormalizer>(createSpeechNormalizer(normalizationSettings));
   
   // Persistence & Caching Refs
   const previousModeRef = useRef<ReaderMode>(ReaderMode.IDLE); 
   // Changed from single object to a Map to store multiple pages
-  const audioCacheRef = useRef<Map<number, AudioBuffer>>(new Map());
+  const audioCacheRef = useRef<Map<number, PageAudio>>(new Map());
   // Track which pages are currently being fetched to avoid duplicate requests
   const activeFetchSetRef = useRef<Set<number>>(new Set());
   const preloadTimeoutRef = useRef<any>(null);
+  // Content hash of the open PDF, used as the persistent audio cache namespace
+  const docHashRef = useRef<string | null>(null);
+  // Offset in the next processed page to start reading from (resume / bookmark jumps)
+  const pendingStartOffsetRef = useRef<number | null>(null);
+  // Offset in that page where reading stops (reading a cited passage)
+  const pendingRangeEndRef = useRef<number | null>(null);
+  const translateToRef = useRef<string | null>(null);
+  // Page translations of this session (in flight or done), keyed by `${targetLang}:${pageNumber}`
+  const translationsRef = useRef<Map<string, Promise<PageTranslation>>>(new Map());
+  // Pages wait for the saved state (which holds the translation language) before being read
+  const documentStateLoadedRef = useRef<Promise<void>>(Promise.resolve());
+  // Last page of a "read this chapter" run; playback stops after it instead of at the document end
+  const chapterEndRef = useRef<number | null>(null);
+  // Character offset on the current page where reading a paragraph or selection stops
+  const readRangeEndRef = useRef<number | null>(null);
+  const mediaKeepAliveRef = useRef<HTMLAudioElement | null>(null);
+  const lastMediaPositionUpdateRef = useRef(0);
+  // Full-text index of all pages, filled in the background after opening
+  const searchIndexRef = useRef(createSearchIndex());
+  const indexAbortRef = useRef<AbortController | null>(null);
+  // Stored OCR results of scanned pages; read after ocrLoadedRef resolves
+  const ocrPagesRef = useRef<Map<number, StoredOcrPage>>(new Map());
+  const ocrLoadedRef = useRef<Promise<void>>(Promise.resolve());
+  // Position saving waits until the saved state was read (and any resume offer answered)
+  const canSavePositionRef = useRef(false);
+  const savePositionTimeoutRef = useRef<any>(null);
 
-  // Native Audio Refs
-  const synthRef = useRef<SpeechSynthesis>(window.speechSynthesis);
-  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  // Live Provider Refs (provider currently speaking, e.g. Web Speech)
+  const liveProviderRef = useRef<LiveTTSProvider | null>(null);
   const currentTextOffsetRef = useRef<number>(0); 
   const lastKnownCharIndexRef = useRef<number>(0); 
 
-  // Gemini Audio Context Refs
+  // Audio Provider (Web Audio) Refs
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const audioBufferRef = useRef<AudioBuffer | null>(null); 
+  const pageAudioRef = useRef<PageAudio | null>(null); 
+  // Maps AudioContext time to buffer position, for highlight tracking of provider audio
+  const playbackAnchorRef = useRef<PlaybackAnchor | null>(null);
+
+  // Summary Refs
+  const summaryAbortRef = useRef<AbortController | null>(null);
+  const summarySourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Bumped per summary playback, so callbacks of a stopped one are ignored
+  const summaryPlaybackIdRef = useRef(0);
+
+  // Opening a document aborts the API requests made for the previous one, and stopping audio
+  // aborts speech still being generated for it; results that arrive anyway are dropped
+  const documentGenerations = useRef(createGenerationCounter()).current;
+  const playbackGenerations = useRef(createGenerationCounter()).current;
+  // Clearing the page-audio cache (new document, language, voice or speech rules) aborts
+  // prefetching for it, so audio made for the old settings never lands in the emptied cache
+  const audioCacheGenerations = useRef(createGenerationCounter()).current;
   
   // Refs for closure safety in event handlers
   const currentPageRef = useRef(1);
   const isProcessingPageRef = useRef(false);
+  const isTextScannedRef = useRef(false);
 
   useEffect(() => {
     currentPageRef.current = currentPageNum;
   }, [currentPageNum]);
 
+  useEffect(() => {
+    isTextScannedRef.current = isTextScanned;
+  }, [isTextScanned]);
+
+  const activeHit = activeHitIndex !== null ? searchHits[activeHitIndex] ?? null : null;
+  const flatOutline = useMemo(() => flattenOutline(outline), [outline]);
+  const currentChapter = useMemo(() => findOutlineEntryAtPage(flatOutline, currentPageNum), [flatOutline, currentPageNum]);
+  // Text being read aloud: the translation when translating, otherwise the page text.
+  // Offsets from the page (clicks, bookmarks, citations) are mapped onto it and back.
+  const speechText = translation?.text ?? textContent;
+  const toSpeechOffset = (offset: number) => translation ? toTranslationOffset(translation, offset) : offset;
+  const toPageOffset = (offset: number) => translation ? toSourceOffset(translation, offset) : offset;
+
+  const summarySections = useMemo(
+    () => pdfDoc ? getSummarySections(flatOutline, pdfDoc.numPages) : [],
+    [flatOutline, pdfDoc]
+  );
+
   // Sync playbackRate state to Ref for stable access in callbacks
   useEffect(() => {
     playbackRateRef.current = playbackRate;
   }, [playbackRate]);
 
+  // Provider audio has no boundary events, so derive the highlight from the AudioContext clock
+  useEffect(() => {
+    if (!isPlaying || readerMode !== ReaderMode.AUDIO_TTS) return;
+
+    let frameId: number;
+    const tick = () => {
+      const ctx = audioContextRef.current;
+      const anchor = playbackAnchorRef.current;
+      const pageAudio = pageAudioRef.current;
+      if (ctx && anchor && pageAudio && audioSourceRef.current) {
+        const charIndex = charIndexAtTime(pageAudio, getPlaybackPosition(anchor, ctx.currentTime));
+        if (charIndex !== lastKnownCharIndexRef.current) {
+          lastKnownCharIndexRef.current = charIndex;
+          setHighlightIndex(charIndex);
+        }
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, readerMode]);
+
+  // Voice lists are needed synchronously when speaking, so load them all up front
+  useEffect(() => {
+    getTTSProviders().forEach(provider => {
+      provider.getVoices()
+        .then(voices => {
+          providerVoicesRef.current = { ...providerVoicesRef.current, [provider.id]: voices };
+          setProviderVoices(providerVoicesRef.current);
+        })
+        .catch(err => console.warn(`Failed to load voices for ${provider.label}`, err));
+    });
+  }, []);
+
   // --- Initialization ---
   useEffect(() => {
     return () => {
+      indexAbortRef.current?.abort();
+      summaryAbortRef.current?.abort();
       stopAllAudio();
       if (preloadTimeoutRef.current) clearTimeout(preloadTimeoutRef.current);
     };
   }, []);
 
   const stopAllAudio = () => {
-    if (synthRef.current.speaking) {
-      synthRef.current.cancel();
+    playbackGenerations.next();
+    stopSummaryPlayback();
+    if (liveProviderRef.current) {
+      liveProviderRef.current.cancel();
     }
     if (audioSourceRef.current) {
       audioSourceRef.current.onended = null; 
@@ -83,6 +280,7 @@ const App: React.FC = () => {
       } catch (e) { /* ignore */ }
       audioSourceRef.current = null;
     }
+    playbackAnchorRef.current = null;
     if (preloadTimeoutRef.current) {
       clearTimeout(preloadTimeoutRef.current);
       preloadTimeoutRef.current = null;
@@ -91,6 +289,36 @@ const App: React.FC = () => {
     setIsPlaying(false);
   };
 
+  // Empties the in-memory page-audio cache and ends prefetching into it
+  const clearAudioCache = () => {
+    audioCacheGenerations.next();
+    audioCacheRef.current.clear();
+    activeFetchSetRef.current.clear();
+  };
+
+  // Stops the summary track; a live provider is canceled by stopAllAudio
+  const stopSummaryPlayback = () => {
+    summaryPlaybackIdRef.current++;
+    if (summarySourceRef.current) {
+      summarySourceRef.current.onended = null;
+      try {
+        summarySourceRef.current.stop();
+      } catch (e) { /* ignore */ }
+      summarySourceRef.current = null;
+    }
+    setSummaryTrack(null);
+  };
+
+  const getAudioContext = (): AudioContext => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    if (audioContextRef.current.state === 'suspended') {
+      audioContextRef.current.resume();
+    }
+    return audioContextRef.current;
+  };
+
   // --- PDF Handling ---
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -105,21 +333,87 @@ const App: React.FC = () => {
     setIsGeneratingAI(false);
     setError(null);
     stopAllAudio();
+    documentGenerations.next();
     setReaderMode(ReaderMode.IDLE);
     previousModeRef.current = ReaderMode.IDLE;
     
     // Clear caches
-    audioCacheRef.current.clear();
-    activeFetchSetRef.current.clear();
+    clearAudioCache();
     
     autoPlayRef.current = false;
     currentTextOffsetRef.current = 0;
     lastKnownCharIndexRef.current = 0;
+    pendingStartOffsetRef.current = null;
+    pendingRangeEndRef.current = null;
+    chapterEndRef.current = null;
+    canSavePositionRef.current = false;
+    if (savePositionTimeoutRef.current) {
+      clearTimeout(savePositionTimeoutRef.current);
+      savePositionTimeoutRef.current = null;
+    }
+    docHashRef.current = null;
+    indexAbortRef.current?.abort();
+    searchIndexRef.current.clear();
+    setIndexedPages(0);
+    setSearchHits([]);
+    setActiveHitIndex(null);
+    ocrPagesRef.current = new Map();
+    setOcrPageCount(0);
+    setBookmarks([]);
+    setResumeOffer(null);
+    summaryAbortRef.current?.abort();
+    setSummary(null);
+    setChatMessages([]);
+    translationsRef.current.clear();
 
     try {
+      // Hash before loadPDF, which hands its own copy of the bytes to the worker
+      const docHash = await hashFile(file);
+      docHashRef.current = docHash;
       const doc = await loadPDF(file);
       setPdfDoc(doc);
+      setDocName(file.name.replace(/\.pdf$/i, ''));
       setCurrentPageNum(1);
+
+      documentStateLoadedRef.current = loadDocumentState(docHash)
+        .then(state => {
+          if (docHashRef.current !== docHash) return;
+          if (state) setBookmarks(state.bookmarks);
+          setZoom(state?.zoom ?? DEFAULT_ZOOM);
+          setViewMode(state?.viewMode ?? 'single');
+          translateToRef.current = state?.translateTo ?? null;
+          setTranslateTo(translateToRef.current);
+          setDocumentPronunciations(state?.pronunciations ?? []);
+          speechNormalizerRef.current = createSpeechNormalizer(normalizationSettingsRef.current, state?.pronunciations);
+          if (state && (state.lastPage > 1 || state.charOffset > 0)) setResumeOffer(state);
+          else canSavePositionRef.current = true;
+        })
+        .catch(err => {
+          console.warn('[DocumentStore] Failed to load state', err);
+          // Without a stored position to offer, saving starts from the current one
+          if (docHashRef.current === docHash) canSavePositionRef.current = true;
+        });
+
+      // Page text falls back to stored OCR, so pages wait for this before being processed
+      ocrLoadedRef.current = getOcrPages(docHash)
+        .then(pages => {
+          if (docHashRef.current !== docHash) return;
+          ocrPagesRef.current = pages;
+          setOcrPageCount(pages.size);
+          pages.forEach((page, pageNumber) => searchIndexRef.current.setPageText(pageNumber, page.text));
+          setSearchIndexVersion(v => v + 1);
+        })
+        .catch(err => console.warn('[OCR] Failed to load stored text', err));
+
+      const indexController = new AbortController();
+      indexAbortRef.current = indexController;
+      indexDocument(doc, searchIndexRef.current, setIndexedPages, indexController.signal)
+        .catch(err => console.warn('[Search] Indexing failed', err));
+
+      setOutline([]);
+      loadOutline(doc)
+        .then(setOutline)
+        .catch(err => console.warn('Failed to load outline', err));
     } catch (err: any) {
       console.error(err);
       setError(`Failed to load PDF: ${err.message || 'Unknown error'}`);
@@ -128,62 +422,299 @@ const App: React.FC = () => {
     }
   };
 
-  // --- Audio Logic: Native ---
+  // --- Zoom & Page Rendering ---
+  // Fit modes depend on the viewer size; offsetWidth includes the scrollbar, so its
+  // appearing and disappearing cannot make fit-width oscillate
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+    const observer = new ResizeObserver(() => {
+      setViewerSize({ width: viewer.offsetWidth, height: viewer.offsetHeight });
+    });
+    observer.observe(viewer);
+    return () => observer.disconnect();
+  }, []);
+
+  const renderScale = useMemo(() => {
+    if (!pageProxy || viewerSize.width === 0) return 0;
+    return resolveZoomScale(zoom, getPageSize(pageProxy), {
+      width: viewerSize.width - VIEWER_PADDING * 2 - SCROLLBAR_ALLOWANCE,
+      height: viewerSize.height - VIEWER_PADDING * 2,
+    });
+  }, [pageProxy, zoom, viewerSize]);
+
+  // A new page or scale cancels the render still in flight. The continuous view renders its own pages.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (viewMode !== 'single' || !pageProxy || !canvas || renderScale <= 0) return;
+    const render = renderPageForDisplay(pageProxy, canvas, renderScale);
+    render.promise.catch(err => {
+      if (err?.name === 'RenderingCancelledException') return;
+      console.error(err);
+      setError('Error rendering page.');
+    });
+    return () => render.cancel();
+  }, [pageProxy, renderScale, viewMode]);
+
+  const changeZoom = (next: ZoomLevel) => {
+    setZoom(next);
+    const docHash = docHashRef.current;
+    if (docHash) {
+      updateDocumentState(docHash, { zoom: next })
+        .catch(err => console.warn('[DocumentStore] Failed to save zoom', err));
+    }
+  };
+
+  const zoomBy = (direction: 1 | -1) => {
+    if (renderScale > 0) changeZoom(stepZoom(renderScale, direction));
+  };
+
+  const changeViewMode = (next: ViewMode) => {
+    setViewMode(next);
+    const docHash = docHashRef.current;
+    if (docHash) {
+      updateDocumentState(docHash, { viewMode: next })
+        .catch(err => console.warn('[DocumentStore] Failed to save view mode', err));
+    }
+  };
+
+  // --- TTS Provider Resolution ---
+  const getActiveProvider = (): TTSProvider => {
+    return getTTSProvider(ttsProviderIdRef.current) ?? getTTSProvider(DEFAULT_TTS_PROVIDER_ID)!;
+  };
+
+  // Live playback uses the selected provider if it is live, otherwise the default (fallback) one
+  const resolveLiveProvider = (): LiveTTSProvider => {
+    const provider = getActiveProvider();
+    return provider.kind === 'live' ? provider : getTTSProvider(DEFAULT_TTS_PROVIDER_ID) as LiveTTSProvider;
+  };
+
+  const resolveAudioProvider = (): AudioTTSProvider | null => {
+    const provider = getActiveProvider();
+    return provider.kind === 'audio' ? provider : null;
+  };
+
+  // Applies the saved voice/style choices and the language detected from this text
+  const buildSynthesisOptions = (provider: TTSProvider, text: string): SynthesisOptions => {
+    const prefs = voicePrefsRef.current;
+    const lang = detectLanguage(text);
+    return {
+      voice: resolveVoice(provider, prefs, providerVoicesRef.current[provider.id] ?? [], lang),
+      style: provider.capabilities.styles ? prefs.style : undefined,
+      lang: lang ?? undefined,
+    };
+  };
+
+  // --- Page Text ---
+  // Substitutes stored OCR text for pages without a text layer
+  const applyStoredOcr = async (extracted: PDFPageText): Promise<PDFPageText> => {
+    if (!extracted.isScanned) return extracted;
+    await ocrLoadedRef.current;
+    const stored = ocrPagesRef.current.get(extracted.pageNumber);
+    if (!stored) return extracted;
+    return { ...extracted, text: stored.text, items: stored.layout ? getOcrPageItems(stored.layout) : [], isScanned: false };
+  };
+
+  // Translates a page once per session and target language; concurrent requests share one call
+  const loadTranslation = (pageNum: number, text: string, targetLang: string): Promise<PageTranslation> => {
+    const docHash = docHashRef.current;
+    if (!docHash) return Promise.reject(new Error('No document open'));
+    const key = `${targetLang}:${pageNum}`;
+    let pending = translationsRef.current.get(key);
+    if (!pending) {
+      pending = translatePage(docHash, pageNum, text, targetLang, { signal: documentGenerations.current().signal });
+      translationsRef.current.set(key, pending);
+      // Failures are retried on the next request
+      pending.catch(() => {
+        if (translationsRef.current.get(key) === pending) translationsRef.current.delete(key);
+      });
+    }
+    return pending;
+  };
+
+  // Translates an upcoming page ahead of time, so turning to it does not wait for the API
+  const prefetchTranslation = async (pageNum: number, doc: PDFDocumentProxy, targetLang: string) => {
+    try {
+      const extracted = await applyStoredOcr(await loadPageText(doc, pageNum));
+      if (extracted.text && !extracted.isScanned) await loadTranslation(pageNum, extracted.text, targetLang);
+    } catch (err) {
+      console.warn(`[Translation] Failed to prefetch page ${pageNum}`, err);
+    }
+  };
+
+  // Keeps OCR results for the rest of the session, for search, and across visits
+  const storeOcrPage = (pageNumber: number, result: StoredOcrPage) => {
+    ocrPagesRef.current.set(pageNumber, result);
+    setOcrPageCount(ocrPagesRef.current.size);
+    searchIndexRef.current.setPageText(pageNumber, result.text);
+    setSearchIndexVersion(v => v + 1);
+
+    const docHash = docHashRef.current;
+    if (docHash) {
+      putOcrPage(docHash, pageNumber, result)
+        .catch(err => console.warn(`[OCR] Failed to store page ${pageNumber}`, err));
+    }
+  };
+
+  // --- Audio Logic: Live Provider ---
   // Defined early so it can be used in other callbacks
-  const prepareNativeTTS = useCallback((text: string, autoStart: boolean = false, startOffset: number = 0) => {
+  const prepareLiveTTS = useCallback((text: string, autoStart: boolean = false, startOffset: number = 0) => {
     if (!text) return;
     
-    synthRef.current.cancel();
-
-    const textToSpeak = startOffset > 0 ? text.substring(startOffset) : text;
+    const provider = resolveLiveProvider();
+    liveProviderRef.current?.cancel();
+    liveProviderRef.current = provider;
 
-    const utterance = new SpeechSynthesisUtterance(textToSpeak);
-    utterance.rate = playbackRateRef.current; // Use Ref to avoid dependency chain
+    setReaderMode(ReaderMode.LIVE_TTS);
+    previousModeRef.current = ReaderMode.LIVE_TTS;
     
-    utterance.onboundary = (event) => {
-      if (event.name === 'word' || event.name === 'sentence') {
-        const globalIndex = startOffset + event.charIndex;
+    if (!autoStart) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const options = buildSynthesisOptions(provider, text);
+    // Boundaries come in offsets of the normalized text and are mapped back for highlighting
+    const spoken = speechNormalizerRef.current(text.substring(startOffset, readRangeEndRef.current ?? text.length), options.lang ?? null);
+
+    stopSummaryPlayback();
+    setIsPlaying(true);
+    provider.speak(spoken.text, {
+      ...options,
+      rate: playbackRateRef.current, // Use Ref to avoid dependency chain
+      onBoundary: (charIndex) => {
+        const globalIndex = startOffset + toOriginalOffset(spoken, charIndex);
         setHighlightIndex(globalIndex);
         lastKnownCharIndexRef.current = globalIndex;
-      }
-    };
-
-    utterance.onend = () => {
-       onAudioEndedRef.current();
-    };
+      },
+      onEnd: () => {
+        onAudioEndedRef.current();
+      },
+      onError: (e) => {
+        console.error(`${provider.label} TTS Error`, e);
+        setIsPlaying(false);
+      },
+    });
+  }, []); // Dependencies removed to keep processPage stable
 
-    utterance.onerror = (e) => {
-      console.error("Native TTS Error", e);
+  // Prepares (without playing) the page for whichever provider is selected
+  const prepareReading = useCallback((text: string) => {
+    if (resolveAudioProvider()) {
+      liveProviderRef.current?.cancel();
+      setReaderMode(ReaderMode.AUDIO_TTS);
+      previousModeRef.current = ReaderMode.AUDIO_TTS;
       setIsPlaying(false);
+    } else {
+      prepareLiveTTS(text, false);
+    }
+  }, [prepareLiveTTS]);
+
+  // --- Persistent Audio Cache ---
+  const buildChunkCacheKey = async (
+    provider: AudioTTSProvider,
+    options: SynthesisOptions,
+    pageNum: number,
+    chunkText: string
+  ): Promise<AudioCacheKey | null> => {
+    const docHash = docHashRef.current;
+    if (!docHash || !provider.capabilities.cacheable) return null;
+    return {
+      docHash,
+      pageNumber: pageNum,
+      provider: provider.id,
+      variant: provider.cacheVariant ? await hashText(provider.cacheVariant()) : '',
+      voice: options.voice ?? '',
+      style: options.style ?? '',
+      textHash: await hashText(chunkText),
     };
+  };
 
-    utteranceRef.current = utterance;
-    setReaderMode(ReaderMode.NATIVE_TTS);
-    previousModeRef.current = ReaderMode.NATIVE_TTS;
-    
-    if (autoStart) {
-      setIsPlaying(true);
-      synthRef.current.speak(utterance);
-    } else {
-      setIsPlaying(false);
+  // Resolves one chunk from the persistent cache, calling the API on a miss unless cacheOnly is set.
+  // The text is what the voice says (normalized), so changing the reading rules misses the cache.
+  const loadChunkSpeech = async (
+    provider: AudioTTSProvider,
+    options: SynthesisOptions,
+    pageNum: number,
+    spokenText: string,
+    cacheOnly: boolean
+  ): Promise<AudioBuffer | null> => {
+    // Build the key up front so it still refers to this document if another one is opened meanwhile
+    const cacheKey = await buildChunkCacheKey(provider, options, pageNum, spokenText);
+
+    if (cacheKey) {
+      try {
+        const data = await getCachedAudio(cacheKey);
+        if (data) return await provider.decode(data);
+      } catch (err) {
+        console.warn(`[AudioCache] Lookup failed for page ${pageNum}`, err);
+      }
     }
-  }, []); // Dependencies removed to keep processPage stable
+    if (cacheOnly) return null;
+
+    const data = await provider.synthesize(spokenText, options);
+    if (cacheKey) {
+      putCachedAudio(cacheKey, data)
+        .then(() => setAudioCacheVersion(v => v + 1))
+        .catch(err => console.warn(`[AudioCache] Failed to store page ${pageNum}`, err));
+    }
+    return provider.decode(data);
+  };
+
+  // Splits the page into sentence-bounded chunks and resolves each one in order.
+  // With cacheOnly, returns null as soon as any chunk would need an API call.
+  // A [from, to) range limits synthesis to part of the page (offsets stay page-relative).
+  // `request` carries the signal that cancels synthesis and whether it is a prefetch.
+  const loadPageAudio = useCallback(async (
+    provider: AudioTTSProvider,
+    pageNum: number,
+    text: string,
+    cacheOnly: boolean = false,
+    from: number = 0,
+    to: number = text.length,
+    request: Pick<SynthesisOptions, 'signal' | 'background'> = {}
+  ): Promise<PageAudio | null> => {
+    const chunks = clipChunks(text, chunkTextForSpeech(text, provider.capabilities.maxChunkChars), from, to);
+    if (chunks.length === 0) return null;
+    // Resolved once per page so every chunk uses the same voice
+    const options = { ...buildSynthesisOptions(provider, text), ...request };
+
+    const parts: Array<{ chunk: TextChunk; spoken?: SpokenText; buffer: AudioBuffer }> = [];
+    for (const chunk of chunks) {
+      const spoken = speechNormalizerRef.current(chunk.text, options.lang ?? null);
+      // A chunk that was nothing but citations or links has nothing left to say
+      if (!spoken.text.trim()) continue;
+      const buffer = await loadChunkSpeech(provider, options, pageNum, spoken.text, cacheOnly);
+      if (!buffer) return null;
+      parts.push({ chunk, spoken: spoken.text !== chunk.text ? spoken : undefined, buffer });
+    }
+    if (parts.length === 0) return null;
+
+    if (cacheOnly) console.log(`[AudioCache] Hit for page ${pageNum} (${parts.length} chunks)`);
+    return assemblePageAudio(parts);
+  }, []);
 
   // --- Smart Preloading Logic (Multi-page) ---
   const runSmartCaching = useCallback(async (startFromPage: number, doc: PDFDocumentProxy) => {
     const CACHE_LIMIT = 5; // Cache up to 5 pages ahead
+    const provider = resolveAudioProvider();
+    if (!provider) return;
+    // Prefetching fills the current cache; clearing it (also done for a new document) ends it
+    const generation = audioCacheGenerations.current();
 
     // We loop sequentially to avoid hammering the API with 5 simultaneous requests
     // This ensures a steady stream without network congestion.
     for (let i = 0; i < CACHE_LIMIT; i++) {
       const targetPage = startFromPage + i;
 
-      // Stop if we reach end of doc
-      if (targetPage > doc.numPages) break;
+      // Stop if we reach end of doc (or of the chapter being read)
+      if (targetPage > (chapterEndRef.current ?? doc.numPages)) break;
 
       // Optimization: If user stopped playing, we might want to stop caching to save credits/resources.
       // However, keeping a small buffer is good. Let's check if mode changed.
-      if (previousModeRef.current !== ReaderMode.GEMINI_TTS) break;
+      if (previousModeRef.current !== ReaderMode.AUDIO_TTS) break;
+      // Stop if the user switched to another provider meanwhile
+      if (ttsProviderIdRef.current !== provider.id) break;
+      if (!generation.isCurrent()) break;
 
       // Skip if already cached
       if (audioCacheRef.current.has(targetPage)) {
@@ -199,28 +730,37 @@ const App: React.FC = () => {
         activeFetchSetRef.current.add(targetPage);
         console.log(`[SmartCache] Prefetching page ${targetPage}...`);
 
-        const page = await doc.getPage(targetPage);
-        const extracted = await extractTextFromPage(page, targetPage);
-        const cleanText = extracted.text.replace(/\s+/g, ' ').trim();
+        const extracted = await applyStoredOcr(await loadPageText(doc, targetPage));
+        if (!generation.isCurrent()) break;
 
         // If text is empty or scanned, we can't generate audio, so we skip storing audio
-        if (!cleanText || extracted.isScanned) {
+        if (!extracted.text || extracted.isScanned) {
           console.log(`[SmartCache] Page ${targetPage} empty/scanned. Skipping audio generation.`);
         } else {
-          // Generate Audio
-          const buffer = await generateSpeech(cleanText);
+          // When translating, the translation is what gets read (and fetched ahead)
+          const targetLang = translateToRef.current;
+          const text = targetLang ? (await loadTranslation(targetPage, extracted.text, targetLang)).text : extracted.text;
+          // Chunks already in the persistent cache are reused, only misses are generated
+          const pageAudio = await loadPageAudio(provider, targetPage, text, false, 0, text.length, {
+            signal: generation.signal,
+            background: true,
+          });
+          // Audio for the previous document or settings must not land in the emptied cache
+          if (!generation.isCurrent()) break;
           
           // Store in Map
-          audioCacheRef.current.set(targetPage, buffer);
+          if (pageAudio) audioCacheRef.current.set(targetPage, pageAudio);
           console.log(`[SmartCache] Successfully cached audio for page ${targetPage}`);
         }
-      } catch (err) {
+      } catch (err: any) {
+        if (err?.name === 'AbortError') break;
         console.warn(`[SmartCache] Failed to cache page ${targetPage}`, err);
       } finally {
-        activeFetchSetRef.current.delete(targetPage);
+        // The set was cleared with the cache and may hold a newer fetch of this page
+        if (generation.isCurrent()) activeFetchSetRef.current.delete(targetPage);
       }
     }
-  }, []);
+  }, [loadPageAudio]);
 
   // --- Handle Audio End (Page Turn) ---
   // This ref holds the latest logic to execute when audio finishes
@@ -229,13 +769,23 @@ const App: React.FC = () => {
   useEffect(() => {
     onAudioEndedRef.current = () => {
       const current = currentPageRef.current;
-      if (pdfDoc && current < pdfDoc.numPages) {
+      const lastPage = chapterEndRef.current ?? pdfDoc?.numPages ?? 0;
+      if (readRangeEndRef.current !== null) {
+        // Reading a paragraph or selection stops at its end; play then restarts the whole page
+        console.log("Finished reading selection.");
+        readRangeEndRef.current = null;
+        pageAudioRef.current = null;
+        setIsPlaying(false);
+        currentTextOffsetRef.current = 0;
+        autoPlayRef.current = false;
+      } else if (current < lastPage) {
         console.log(`Audio ended for page ${current}. Moving to ${current + 1}`);
         // CRITICAL: Set autoPlay intent BEFORE state update trigger
         autoPlayRef.current = true;
         setCurrentPageNum(current + 1);
       } else {
-        console.log("Finished reading document.");
+        console.log(chapterEndRef.current !== null ? "Finished reading chapter." : "Finished reading document.");
+        chapterEndRef.current = null;
         setIsPlaying(false);
         setReaderMode(ReaderMode.IDLE);
         setHighlightIndex(0);
@@ -245,19 +795,16 @@ const App: React.FC = () => {
     };
   }, [pdfDoc]);
 
-  // --- Gemini Audio Playback ---
-  const playAudioBuffer = useCallback((buffer: AudioBuffer, pageForAudio: number, doc: PDFDocumentProxy) => {
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-    }
-    if (audioContextRef.current.state === 'suspended') {
-      audioContextRef.current.resume();
-    }
+  // --- Provider Audio Playback ---
+  // Plays a page's chunks as one gapless buffer, so onended (page turn) only fires after the last chunk
+  const playPageAudio = useCallback((pageAudio: PageAudio, pageForAudio: number, doc: PDFDocumentProxy, startOffset: number = 0) => {
+    stopSummaryPlayback();
+    const audioContext = getAudioContext();
     
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = buffer;
+    const source = audioContext.createBufferSource();
+    source.buffer = pageAudio.buffer;
     source.playbackRate.value = playbackRateRef.current; // Use Ref
-    source.connect(audioContextRef.current.destination);
+    source.connect(audioContext.destination);
     
     source.onended = () => {
       audioSourceRef.current = null;
@@ -266,11 +813,18 @@ const App: React.FC = () => {
     };
 
     audioSourceRef.current = source;
-    source.start(0);
+    const startTime = startOffset > 0 ? timeAtCharIndex(pageAudio, startOffset) : 0;
+    const endOffset = readRangeEndRef.current;
+    if (endOffset !== null) {
+      source.start(0, startTime, Math.max(0, timeAtCharIndex(pageAudio, endOffset) - startTime));
+    } else {
+      source.start(0, startTime);
+    }
+    playbackAnchorRef.current = createPlaybackAnchor(audioContext.currentTime, startTime, playbackRateRef.current);
 
     // --- Preload Logic Trigger ---
-    if (pageForAudio < doc.numPages) {
-      const duration = buffer.duration; 
+    if (endOffset === null && pageForAudio < (chapterEndRef.current ?? doc.numPages)) {
+      const duration = pageAudio.buffer.duration; 
       // Trigger preload at 20% progress
       const currentRate = playbackRateRef.current || 1;
       const estimatedDelay = (duration * 1000 * 0.2) / currentRate;
@@ -286,44 +840,60 @@ const App: React.FC = () => {
     }
   }, [runSmartCaching]); // Dependencies removed to keep processPage stable
 
-  const handleGeminiTTS = useCallback(async (textToRead: string, pageNum: number) => {
+  const handleAudioTTS = useCallback(async (textToRead: string, pageNum: number, startOffset: number = 0) => {
     if (!textToRead) {
       setError("No text content to read.");
       return;
     }
+    const provider = resolveAudioProvider();
+    if (!provider) return;
     
-    setReaderMode(ReaderMode.GEMINI_TTS);
-    previousModeRef.current = ReaderMode.GEMINI_TTS;
-    
-    // ACTIVATE OVERLAY
-    setIsGeneratingAI(true);
+    setReaderMode(ReaderMode.AUDIO_TTS);
+    previousModeRef.current = ReaderMode.AUDIO_TTS;
     stopAllAudio(); 
+    // Stopping started a new playback generation; it ends when this audio is stopped or replaced
+    const generation = playbackGenerations.current();
     
     try {
-      const buffer = await generateSpeech(textToRead);
-      console.log(`Gemini TTS Audio Generated successfully for page ${pageNum}.`);
+      let pageAudio = await loadPageAudio(provider, pageNum, textToRead, true);
+      if (!generation.isCurrent()) return;
+      if (!pageAudio) {
+        // ACTIVATE OVERLAY (only when we actually have to wait for the API)
+        setIsGeneratingAI(true);
+        // Only synthesize what will be heard: from the sentence being started to the range end
+        const from = startOffset > 0 ? findSentenceStart(textToRead, startOffset) : 0;
+        pageAudio = await loadPageAudio(provider, pageNum, textToRead, false, from, readRangeEndRef.current ?? textToRead.length, {
+          signal: generation.signal,
+        });
+        if (!generation.isCurrent()) return;
+        if (!pageAudio) throw new Error("No readable text for speech");
+        console.log(`${provider.label} audio generated successfully for page ${pageNum} (${pageAudio.chunks.length} chunks).`);
+      }
       
-      audioBufferRef.current = buffer;
+      pageAudioRef.current = pageAudio;
       if (pdfDoc) {
-        playAudioBuffer(buffer, pageNum, pdfDoc);
+        playPageAudio(pageAudio, pageNum, pdfDoc, startOffset);
       }
       setIsPlaying(true);
 
     } catch (err: any) {
-      setError(`Failed to generate AI speech: ${err.message}`);
-      console.error("Gemini TTS Error:", err);
-      prepareNativeTTS(textToRead, true);
+      // Stopped or superseded while generating: whatever replaced it owns the UI now
+      if (!generation.isCurrent()) return;
+      setError(`Failed to generate ${provider.label} speech: ${err.message}`);
+      console.error(`${provider.label} TTS Error:`, err);
+      // Fall back to the default live provider for this page
+      prepareLiveTTS(textToRead, true, startOffset);
     } finally {
       // DEACTIVATE OVERLAY
       setIsGeneratingAI(false);
       setIsLoading(false);
     }
-  }, [pdfDoc, playAudioBuffer, prepareNativeTTS]);
+  }, [pdfDoc, playPageAudio, prepareLiveTTS, loadPageAudio]);
 
 
   // --- Page Rendering & Text Extraction ---
   const processPage = useCallback(async (pageNum: number, doc: PDFDocumentProxy) => {
-    if (!canvasRef.current || isProcessingPageRef.current) return;
+    if (isProcessingPageRef.current) return;
     isProcessingPageRef.current = true;
 
     setIsLoading(true);
@@ -333,20 +903,48 @@ const App: React.FC = () => {
     setHighlightIndex(0);
     currentTextOffsetRef.current = 0;
     lastKnownCharIndexRef.current = 0;
+    readRangeEndRef.current = null;
     setTextContent('');
     setIsTextScanned(false);
-    audioBufferRef.current = null; 
+    setOcrLayout(null);
+    setPageItems([]);
+    setTranslation(null);
+    pageAudioRef.current = null; 
     
     try {
       const page: PDFPageProxy = await doc.getPage(pageNum);
-      await renderPageToCanvas(page, canvasRef.current);
+      setPageProxy(page);
       
-      const extracted = await extractTextFromPage(page, pageNum);
-      const cleanText = extracted.text.replace(/\s+/g, ' ').trim();
+      // Paragraph breaks are kept; HighlightableText and the chunker both use them
+      const rawText = await extractTextFromPage(page, pageNum, await detectRunningLines(doc));
+      const extracted = await applyStoredOcr(rawText);
+      const cleanText = extracted.text;
+      if (rawText.isScanned) setOcrLayout(ocrPagesRef.current.get(pageNum)?.layout ?? null);
       setTextContent(cleanText);
+      setPageItems(extracted.items);
+      setPageLanguage(detectLanguage(cleanText));
       
       // Check for valid text content
       const hasContent = cleanText.length > 0 && !extracted.isScanned;
+      if (hasContent) searchIndexRef.current.setPageText(pageNum, cleanText);
+
+      // A resume or bookmark jump starts mid-page; saved positions may fall mid-word,
+      // so back up to the start of the sentence. The offset only applies to this page.
+      const pendingOffset = pendingStartOffsetRef.current;
+      pendingStartOffsetRef.current = null;
+      const startOffset = pendingOffset !== null && pendingOffset < cleanText.length
+        ? findSentenceStart(cleanText, pendingOffset)
+        : 0;
+      if (startOffset > 0) {
+        setHighlightIndex(startOffset);
+        currentTextOffsetRef.current = startOffset;
+        lastKnownCharIndexRef.current = startOffset;
+      }
+      const pendingEnd = pendingRangeEndRef.current;
+      pendingRangeEndRef.current = null;
+      if (pendingEnd !== null && pendingEnd > startOffset && pendingEnd <= cleanText.length) {
+        readRangeEndRef.current = pendingEnd;
+      }
 
       if (!hasContent) {
         setIsTextScanned(extracted.isScanned);
@@ -354,7 +952,7 @@ const App: React.FC = () => {
         setIsLoading(false);
 
         // AUTO SKIP Logic: If playing, skip to next page if available
-        if (autoPlayRef.current && pageNum < doc.numPages) {
+        if (autoPlayRef.current && pageNum < (chapterEndRef.current ?? doc.numPages)) {
             console.log(`[AutoPlay] Page ${pageNum} has no readable content. Skipping to next...`);
             setCurrentPageNum(prev => prev + 1);
         }
@@ -363,37 +961,68 @@ const App: React.FC = () => {
       
       // If we have content
       setIsTextScanned(false);
+
+      // Translate-and-read: the translation is read instead, with positions mapped onto it
+      let textToRead = cleanText;
+      let readStart = startOffset;
+      await documentStateLoadedRef.current;
+      const targetLang = translateToRef.current;
+      if (targetLang) {
+        try {
+          const pageTranslation = await loadTranslation(pageNum, cleanText, targetLang);
+          textToRead = pageTranslation.text;
+          readStart = startOffset > 0 ? findSentenceStart(textToRead, toTranslationOffset(pageTranslation, startOffset)) : 0;
+          if (readRangeEndRef.current !== null) {
+            readRangeEndRef.current = toTranslationOffset(pageTranslation, readRangeEndRef.current);
+          }
+          setTranslation(pageTranslation);
+          setPageLanguage(targetLang);
+          setHighlightIndex(readStart);
+          currentTextOffsetRef.current = readStart;
+          lastKnownCharIndexRef.current = readStart;
+          if (pageNum < doc.numPages) prefetchTranslation(pageNum + 1, doc, targetLang);
+        } catch (err: any) {
+          // Canceled because another document was opened
+          if (err?.name === 'AbortError') return;
+          console.error(`[Translation] Failed for page ${pageNum}`, err);
+          setError(err instanceof GeminiError
+            ? `Translation failed (${err.message}); reading the original text.`
+            : 'Translation failed; reading the original text.');
+        }
+      }
         
       // --- Auto Play Logic with Cache Check ---
       if (autoPlayRef.current) {
         console.log(`Auto-play triggered for page ${pageNum}. Mode: ${previousModeRef.current}`);
         
-        if (previousModeRef.current === ReaderMode.GEMINI_TTS) {
-          // Check if we have this page in the multi-page cache
+        if (previousModeRef.current === ReaderMode.AUDIO_TTS && resolveAudioProvider()) {
+          // Check if we have this page in the in-memory prefetch cache (the persistent
+          // cache is consulted by handleAudioTTS on a miss here). Entries always match the
+          // current language, voice and rules: prefetches from before a clear are dropped.
           if (audioCacheRef.current.has(pageNum)) {
               console.log(`[Cache] Hit for Page ${pageNum}! Playing preloaded audio.`);
-              const cachedBuffer = audioCacheRef.current.get(pageNum)!;
+              const cachedAudio = audioCacheRef.current.get(pageNum)!;
               
-              // Remove used page from cache to free memory
+              // Remove used page from memory; it remains in the persistent cache for re-listening
               audioCacheRef.current.delete(pageNum);
               
-              setReaderMode(ReaderMode.GEMINI_TTS);
-              audioBufferRef.current = cachedBuffer;
-              playAudioBuffer(cachedBuffer, pageNum, doc);
+              setReaderMode(ReaderMode.AUDIO_TTS);
+              pageAudioRef.current = cachedAudio;
+              playPageAudio(cachedAudio, pageNum, doc, readStart);
               setIsPlaying(true);
               setIsLoading(false); 
           } else {
               console.log(`[Cache] Miss for Page ${pageNum}. Generating fresh.`);
-              await handleGeminiTTS(cleanText, pageNum); 
+              await handleAudioTTS(textToRead, pageNum, readStart);
           }
         } else {
-          // Native Auto Play
-          prepareNativeTTS(cleanText, true);
+          // Live Provider Auto Play
+          prepareLiveTTS(textToRead, true, readStart);
           setIsLoading(false);
         }
       } else {
           // Just prep, don't play
-          prepareNativeTTS(cleanText, false);
+          prepareReading(textToRead);
           setIsLoading(false);
       }
 
@@ -404,7 +1033,7 @@ const App: React.FC = () => {
     } finally {
       isProcessingPageRef.current = false;
     }
-  }, [playAudioBuffer, handleGeminiTTS, prepareNativeTTS]); 
+  }, [playPageAudio, handleAudioTTS, prepareLiveTTS, prepareReading]); 
 
   // Trigger Page Processing when Page changes
   useEffect(() => {
@@ -416,11 +1045,12 @@ const App: React.FC = () => {
 
   // --- Audio Logic: Play/Pause Toggle ---
   const togglePlayPause = async () => {
+    dismissResumeOffer();
     if (isPlaying) {
       // PAUSE
-      if (readerMode === ReaderMode.NATIVE_TTS) {
-        synthRef.current.pause();
-      } else if (readerMode === ReaderMode.GEMINI_TTS) {
+      if (readerMode === ReaderMode.LIVE_TTS) {
+        liveProviderRef.current?.pause();
+      } else if (readerMode === ReaderMode.AUDIO_TTS) {
         if (audioContextRef.current) {
           await audioContextRef.current.suspend();
         }
@@ -429,25 +1059,25 @@ const App: React.FC = () => {
       setIsPlaying(false);
     } else {
       // PLAY / RESUME
-      if (readerMode === ReaderMode.NATIVE_TTS) {
-        if (synthRef.current.paused) {
-           synthRef.current.resume();
+      if (readerMode === ReaderMode.LIVE_TTS) {
+        if (liveProviderRef.current?.isPaused()) {
+           liveProviderRef.current.resume();
         } else {
            // Start fresh if stopped
-           prepareNativeTTS(textContent, true, currentTextOffsetRef.current);
+           prepareLiveTTS(speechText, true, currentTextOffsetRef.current);
         }
-      } else if (readerMode === ReaderMode.GEMINI_TTS) {
-        if (audioContextRef.current && audioContextRef.current.state === 'suspended') {
+      } else if (readerMode === ReaderMode.AUDIO_TTS) {
+        if (audioSourceRef.current && audioContextRef.current?.state === 'suspended') {
           await audioContextRef.current.resume();
         } 
         else {
-           // Recover if no source
-           if(audioBufferRef.current && !audioSourceRef.current && pdfDoc) {
-               playAudioBuffer(audioBufferRef.current, currentPageNum, pdfDoc);
+           // Recover if no source (stopped, or moved while paused)
+           if(pageAudioRef.current && !audioSourceRef.current && pdfDoc) {
+               playPageAudio(pageAudioRef.current, currentPageNum, pdfDoc, currentTextOffsetRef.current);
            } 
-           else if (!audioBufferRef.current && textContent) {
+           else if (!pageAudioRef.current && speechText) {
                console.log("Buffer missing on play, regenerating...");
-               await handleGeminiTTS(textContent, currentPageNum);
+               await handleAudioTTS(speechText, currentPageNum, currentTextOffsetRef.current);
            }
         }
       }
@@ -460,18 +1090,21 @@ const App: React.FC = () => {
     setPlaybackRate(rate);
     playbackRateRef.current = rate; // Immediate update for synchronous calls
     
-    if (readerMode === ReaderMode.NATIVE_TTS && isPlaying) {
-      if (synthRef.current.speaking) {
-        synthRef.current.cancel();
-        const resumeIndex = lastKnownCharIndexRef.current;
-        currentTextOffsetRef.current = resumeIndex;
-        prepareNativeTTS(textContent, true, resumeIndex);
-      }
-    } else if (readerMode === ReaderMode.GEMINI_TTS) {
+    if (readerMode === ReaderMode.LIVE_TTS && isPlaying) {
+      // Live providers take the rate per utterance, so restart from the last spoken word
+      const resumeIndex = lastKnownCharIndexRef.current;
+      currentTextOffsetRef.current = resumeIndex;
+      prepareLiveTTS(speechText, true, resumeIndex);
+    } else if (readerMode === ReaderMode.AUDIO_TTS) {
         if (audioSourceRef.current) {
+            const now = audioContextRef.current?.currentTime || 0;
+            // Re-anchor so the highlight estimate only uses the new rate from this point on
+            if (playbackAnchorRef.current) {
+              playbackAnchorRef.current = reanchorPlayback(playbackAnchorRef.current, now, rate);
+            }
             // Apply smooth speed change without restarting
             try {
-              audioSourceRef.current.playbackRate.setValueAtTime(rate, audioContextRef.current?.currentTime || 0);
+              audioSourceRef.current.playbackRate.setValueAtTime(rate, now);
             } catch(e) {
               // Fallback just in case
               audioSourceRef.current.playbackRate.value = rate;
@@ -480,24 +1113,752 @@ const App: React.FC = () => {
     }
   };
 
+  // --- TTS Provider & Voice Switching ---
+  const updateVoicePrefs = (prefs: VoicePreferences) => {
+    voicePrefsRef.current = prefs;
+    setVoicePrefs(prefs);
+    saveVoicePreferences(prefs);
+  };
+
+  // Drops audio made with the old provider/voice and restarts the current page with the new one
+  const restartWithNewVoice = (wasPlaying: boolean) => {
+    stopAllAudio();
+    clearAudioCache();
+    pageAudioRef.current = null;
+
+    if (!speechText || isTextScanned) return;
+    if (resolveAudioProvider()) {
+      handleAudioTTS(speechText, currentPageNum);
+    } else {
+      prepareLiveTTS(speechText, wasPlaying, wasPlaying ? lastKnownCharIndexRef.current : 0);
+    }
+  };
+
+  // Switches translate-and-read on, off or to another language. The page is processed again
+  // so the new text is read, keeping the reading position and whether it was playing.
+  const changeTranslateTo = (targetLang: string | null) => {
+    if (targetLang === translateToRef.current) return;
+    translateToRef.current = targetLang;
+    setTranslateTo(targetLang);
+    const docHash = docHashRef.current;
+    if (docHash) {
+      updateDocumentState(docHash, { translateTo: targetLang ?? undefined })
+        .catch(err => console.warn('[DocumentStore] Failed to save translation language', err));
+    }
+    if (!pdfDoc) return;
+
+    const wasPlaying = isPlaying;
+    const position = toPageOffset(lastKnownCharIndexRef.current);
+    stopAllAudio();
+    clearAudioCache();
+    pageAudioRef.current = null;
+
+    if (wasPlaying) {
+      startReadingAt(currentPageNum, position, readerMode);
+    } else {
+      pendingStartOffsetRef.current = position;
+      processPage(currentPageNum, pdfDoc);
+    }
+  };
+
+  const handleProviderChange = (providerId: string) => {
+    if (!getTTSProvider(providerId) || providerId === ttsProviderIdRef.current) return;
+
+    ttsProviderIdRef.current = providerId;
+    setTtsProviderId(providerId);
+    updateVoicePrefs({ ...voicePrefsRef.current, providerId });
+    restartWithNewVoice(isPlaying);
+  };
+
+  const handleVoicePrefsChange = (prefs: VoicePreferences) => {
+    updateVoicePrefs(prefs);
+    // Only restart audio that is already playing; idle pages pick up the change on next play
+    if (isPlaying) restartWithNewVoice(true);
+  };
+
+  // Global settings are saved for every document, the document's own entries with its state
+  const handleSpeechRulesChange = (settings: SpeechNormalizationSettings, documentRules: PronunciationRule[]) => {
+    normalizationSettingsRef.current = settings;
+    setNormalizationSettings(settings);
+    saveNormalizationSettings(settings);
+    setDocumentPronunciations(documentRules);
+    speechNormalizerRef.current = createSpeechNormalizer(settings, documentRules);
+
+    const docHash = docHashRef.current;
+    if (docHash) {
+      updateDocumentState(docHash, { pronunciations: documentRules })
+        .catch(err => console.warn('[DocumentStore] Failed to save pronunciations', err));
+    }
+
+    // Audio made with the old rules says the old words
+    if (isPlaying) {
+      restartWithNewVoice(true);
+    } else {
+      clearAudioCache();
+      pageAudioRef.current = null;
+    }
+  };
+
+  // --- Reading Position & Bookmarks ---
+  // Latest position, read when the throttled save below fires
+  const positionRef = useRef<Partial<DocumentState>>({});
+  positionRef.current = {
+    name: docName,
+    lastPage: currentPageNum,
+    charOffset: toPageOffset(highlightIndex),
+    readerMode,
+    providerId: ttsProviderId,
+    playbackRate,
+  };
+
+  // Throttled rather than debounced, so a steadily advancing highlight still gets saved
+  useEffect(() => {
+    if (!pdfDoc || !canSavePositionRef.current || savePositionTimeoutRef.current) return;
+    savePositionTimeoutRef.current = setTimeout(() => {
+      savePositionTimeoutRef.current = null;
+      const docHash = docHashRef.current;
+      if (!docHash || !canSavePositionRef.current) return;
+      updateDocumentState(docHash, positionRef.current)
+        .catch(err => console.warn('[DocumentStore] Failed to save position', err));
+    }, 1500);
+  }, [pdfDoc, currentPageNum, highlightIndex, readerMode, ttsProviderId, playbackRate]);
+
+  useEffect(() => {
+    return () => {
+      if (savePositionTimeoutRef.current) clearTimeout(savePositionTimeoutRef.current);
+    };
+  }, []);
+
+  // Jumps to a position and reads from there, reusing the auto-play path of processPage.
+  // With endOffset, reading stops there instead of continuing onto later pages.
+  const startReadingAt = (pageNum: number, charOffset: number, mode?: ReaderMode, endOffset: number | null = null) => {
+    if (!pdfDoc) return;
+    dismissResumeOffer();
+    chapterEndRef.current = null;
+    pendingStartOffsetRef.current = charOffset;
+    pendingRangeEndRef.current = endOffset;
+    previousModeRef.current = mode ?? (resolveAudioProvider() ? ReaderMode.AUDIO_TTS : ReaderMode.LIVE_TTS);
+    autoPlayRef.current = true;
+
+    if (pageNum === currentPageRef.current) {
+      processPage(pageNum, pdfDoc);
+    } else {
+      setCurrentPageNum(pageNum);
+    }
+  };
+
+  // --- Reading From a Position on the Page ---
+  // Reads the current page from `start`, continuing onto later pages, or only up to `end`.
+  // Offsets are in the text being read (see toSpeechOffset for positions on the page).
+  const readCurrentPage = (start: number, end: number | null = null) => {
+    setReadingMenu(null);
+    if (!pdfDoc || !speechText || isTextScanned) return;
+    dismissResumeOffer();
+    readRangeEndRef.current = end;
+    currentTextOffsetRef.current = start;
+    lastKnownCharIndexRef.current = start;
+    setHighlightIndex(start);
+
+    if (!resolveAudioProvider()) {
+      prepareLiveTTS(speechText, true, start);
+      return;
+    }
+
+    // Seek within the page's audio when it already covers the range; otherwise synthesize it
+    const chunks = pageAudioRef.current?.chunks ?? [];
+    const covers = chunks.length > 0 && chunks[0].start <= start
+      && chunks[chunks.length - 1].end >= (end ?? speechText.trimEnd().length);
+    if (pageAudioRef.current && covers) {
+      stopAllAudio();
+      setReaderMode(ReaderMode.AUDIO_TTS);
+      previousModeRef.current = ReaderMode.AUDIO_TTS;
+      playPageAudio(pageAudioRef.current, currentPageNum, pdfDoc, start);
+      setIsPlaying(true);
+    } else {
+      handleAudioTTS(speechText, currentPageNum, start);
+    }
+  };
+
+  // Reads from the sentence at a position in the page text
+  const readFromOffset = (offset: number) => readCurrentPage(findSentenceStart(speechText, toSpeechOffset(offset)));
+
+  // Reads only a range of the page text (a paragraph or selection)
+  const readPageRange = (start: number, end: number) => readCurrentPage(toSpeechOffset(start), toSpeechOffset(end));
+
+  // --- Seeking Within the Page ---
+  // Moves the reading position; playback continues from there if it was running,
+  // otherwise the next play starts there
+  const seekTo = (offset: number) => {
+    if (!pdfDoc || !speechText || isTextScanned) return;
+    const target = Math.max(0, Math.min(offset, speechText.length - 1));
+    if (isPlaying) {
+      readCurrentPage(target);
+      return;
+    }
+    stopAllAudio();
+    readRangeEndRef.current = null;
+    currentTextOffsetRef.current = target;
+    lastKnownCharIndexRef.current = target;
+    setHighlightIndex(target);
+  };
+
+  const handleSeekProgress = (progress: number) => {
+    seekTo(findSentenceStart(speechText, Math.round((progress / 100) * speechText.length)));
+  };
+
+  const skipSentence = (direction: 1 | -1) => {
+    const target = findAdjacentSentenceStart(speechText, lastKnownCharIndexRef.current, direction);
+    if (target !== null) seekTo(target);
+  };
+
+  const skipParagraph = (direction: 1 | -1) => {
+    const target = findAdjacentParagraphStart(speechText, lastKnownCharIndexRef.current, direction);
+    if (target !== null) seekTo(target);
+  };
+
+  // Length of and position in the current page, in seconds at 1x: measured for provider
+  // audio, estimated from the text for live voices
+  const getPagePlaybackTime = (): { duration: number; position: number } | null => {
+    if (!speechText || isTextScanned) return null;
+    const pageAudio = pageAudioRef.current;
+    if (readerMode === ReaderMode.AUDIO_TTS && pageAudio) {
+      const ctx = audioContextRef.current;
+      const anchor = playbackAnchorRef.current;
+      const position = ctx && anchor
+        ? getPlaybackPosition(anchor, ctx.currentTime)
+        : timeAtCharIndex(pageAudio, lastKnownCharIndexRef.current);
+      return { duration: pageAudio.buffer.duration, position };
+    }
+    return {
+      duration: estimateSpeechSeconds(speechText.length, pageLanguage),
+      position: estimateSpeechSeconds(lastKnownCharIndexRef.current, pageLanguage),
+    };
+  };
+
+  const seekToTime = (time: number) => {
+    const pageAudio = pageAudioRef.current;
+    if (readerMode === ReaderMode.AUDIO_TTS && pageAudio) {
+      seekTo(charIndexAtTime(pageAudio, Math.max(0, Math.min(time, pageAudio.buffer.duration))));
+    } else if (speechText) {
+      // Live voices restart at the target, so start with a whole word
+      const offset = Math.max(0, Math.min(estimateSpeechChars(time, pageLanguage), speechText.length - 1));
+      seekTo(findWordRange(speechText, offset)[0]);
+    }
+  };
+
+  // Jumps by time, clamped to the current page
+  const jumpSeconds = (seconds: number) => {
+    const time = getPagePlaybackTime();
+    if (time) seekToTime(time.position + seconds);
+  };
+
+  // --- Keyboard Shortcuts ---
+  // Refreshed every render so the listener below always sees current state
+  const shortcutHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutHandlerRef.current = (e: KeyboardEvent) => {
+    if (e.key === '?') {
+      setIsShortcutsOpen(true);
+      return;
+    }
+    if (pdfDoc && (e.key === '+' || e.key === '=' || e.key === '-')) {
+      e.preventDefault();
+      zoomBy(e.key === '-' ? -1 : 1);
+      return;
+    }
+    if (!pdfDoc || !textContent || isTextScanned || isLoading || isGeneratingAI) return;
+
+    switch (e.key) {
+      case ' ':
+        togglePlayPause();
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const direction = e.key === 'ArrowRight' ? 1 : -1;
+        if (e.shiftKey) skipParagraph(direction);
+        else skipSentence(direction);
+        break;
+      }
+      case 'j':
+      case 'J':
+        jumpSeconds(-10);
+        break;
+      case 'k':
+      case 'K':
+        jumpSeconds(10);
+        break;
+      case '[':
+        handleRateChange(Math.max(0.5, Math.round((playbackRate - 0.1) * 10) / 10));
+        break;
+      case ']':
+        handleRateChange(Math.min(2.0, Math.round((playbackRate + 0.1) * 10) / 10));
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      // Leave typing, form controls and open dialogs alone; Space still presses a focused button
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (e.key === ' ' && target?.closest('button, a')) return;
+      if (document.querySelector('[aria-modal="true"], [role="menu"]')) return;
+      shortcutHandlerRef.current(e);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // --- Media Session (OS media widget, headset buttons, media keys) ---
+  const changePageFromMediaKeys = (pageNum: number) => {
+    if (!pdfDoc || pageNum < 1 || pageNum > pdfDoc.numPages) return;
+    if (isPlaying) startReadingAt(pageNum, 0);
+    else navigateToPage(pageNum);
+  };
+
+  // Refreshed every render, like the keyboard shortcuts
+  const mediaActionRef = useRef<(action: MediaSessionAction, details: MediaSessionActionDetails) => void>(() => {});
+  mediaActionRef.current = (action, details) => {
+    if (!pdfDoc || isLoading || isGeneratingAI) return;
+    switch (action) {
+      case 'play':
+        if (!isPlaying) togglePlayPause();
+        break;
+      case 'pause':
+        if (isPlaying) togglePlayPause();
+        break;
+      case 'previoustrack':
+        changePageFromMediaKeys(currentPageNum - 1);
+        break;
+      case 'nexttrack':
+        changePageFromMediaKeys(currentPageNum + 1);
+        break;
+      case 'seekbackward':
+        jumpSeconds(-(details.seekOffset ?? 10));
+        break;
+      case 'seekforward':
+        jumpSeconds(details.seekOffset ?? 10);
+        break;
+      case 'seekto':
+        if (details.seekTime !== undefined) seekToTime(details.seekTime);
+        break;
+    }
+  };
+
+  useEffect(() => {
+    return setMediaActionHandlers(
+      ['play', 'pause', 'previoustrack', 'nexttrack', 'seekbackward', 'seekforward', 'seekto'],
+      (action, details) => mediaActionRef.current(action, details)
+    );
+  }, []);
+
+  useEffect(() => {
+    setMediaMetadata(pdfDoc ? {
+      title: currentChapter?.title ?? docName,
+      artist: `Page ${currentPageNum} of ${pdfDoc.numPages}`,
+      album: docName,
+    } : null);
+  }, [pdfDoc, docName, currentChapter, currentPageNum]);
+
+  // Media keys only reach the page while a media element plays, so run the silent keep-alive alongside
+  useEffect(() => {
+    if (!pdfDoc) {
+      setMediaPlaybackState('none');
+      return;
+    }
+    setMediaPlaybackState(isPlaying ? 'playing' : 'paused');
+    if (isPlaying) {
+      mediaKeepAliveRef.current ??= createMediaKeepAlive();
+      mediaKeepAliveRef.current.play().catch(err => console.warn('[MediaSession] Keep-alive audio blocked', err));
+    } else {
+      mediaKeepAliveRef.current?.pause();
+    }
+  }, [pdfDoc, isPlaying]);
+
+  useEffect(() => {
+    return () => mediaKeepAliveRef.current?.pause();
+  }, []);
+
+  const updateMediaPosition = () => {
+    lastMediaPositionUpdateRef.current = Date.now();
+    const time = getPagePlaybackTime();
+    setMediaPositionState(time && { ...time, playbackRate });
+  };
+
+  useEffect(() => {
+    updateMediaPosition();
+  }, [isPlaying, playbackRate, readerMode, speechText, currentPageNum]);
+
+  // The widget extrapolates from the rate; the moving highlight only needs occasional correction (and seeks)
+  useEffect(() => {
+    if (Date.now() - lastMediaPositionUpdateRef.current > 1000) updateMediaPosition();
+  }, [highlightIndex]);
+
+  // Maps a pointer position on the rendered page to a character of the page text
+  const getPageOffsetAt = (event: React.MouseEvent<HTMLElement>): number | null => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return findOffsetAtPoint(pageItems, (event.clientX - rect.left) / rect.width, (event.clientY - rect.top) / rect.height);
+  };
+
+  const handlePageClick = (event: React.MouseEvent<HTMLElement>) => {
+    // Ignore the click that ends a selection in the OCR text layer
+    if (window.getSelection()?.isCollapsed === false) return;
+    const offset = getPageOffsetAt(event);
+    if (offset !== null) readFromOffset(offset);
+  };
+
+  const closeReadingMenu = useCallback(() => setReadingMenu(null), []);
+
+  const openReadingMenu = (event: React.MouseEvent<HTMLElement>, offset: number | null) => {
+    if (offset === null || !textContent || isTextScanned) return;
+    event.preventDefault();
+    setReadingMenu({ x: event.clientX, y: event.clientY, offset, selection: getSelectionOffsets(event.currentTarget) });
+  };
+
+  // --- Outline & Search Navigation ---
+  const navigateToPage = (pageNum: number) => {
+    dismissResumeOffer();
+    chapterEndRef.current = null;
+    autoPlayRef.current = false;
+    setCurrentPageNum(pageNum);
+  };
+
+  // Re-run the search as background indexing (or OCR) adds pages
+  useEffect(() => {
+    setSearchHits(searchQuery.trim() ? searchIndexRef.current.search(searchQuery) : []);
+  }, [searchQuery, indexedPages, searchIndexVersion]);
+
+  const handleSearchQueryChange = (query: string) => {
+    setSearchQuery(query);
+    setActiveHitIndex(null);
+  };
+
+  // Shows a hit in the text view; the match is marked once its page has been processed
+  const goToSearchHit = (index: number) => {
+    const hit = searchHits[index];
+    if (!hit) return;
+    setActiveHitIndex(index);
+    setSidebarTab('text');
+    if (hit.pageNumber !== currentPageNum) navigateToPage(hit.pageNumber);
+  };
+
+  const handleReadChapter = (index: number) => {
+    if (!pdfDoc) return;
+    const range = getChapterRange(flatOutline, index, pdfDoc.numPages);
+    console.log(`Reading chapter "${range.title}" (pages ${range.startPage}-${range.endPage})`);
+    startReadingAt(range.startPage, 0);
+    chapterEndRef.current = range.endPage;
+  };
+
+  const dismissResumeOffer = () => {
+    setResumeOffer(null);
+    canSavePositionRef.current = true;
+  };
+
+  // Restores the provider, rate and mode that were in use, then continues from the saved position
+  const handleResume = () => {
+    const state = resumeOffer;
+    if (!state) return;
+
+    const provider = getTTSProvider(state.providerId);
+    if (provider && provider.isAvailable() && provider.id !== ttsProviderIdRef.current) {
+      ttsProviderIdRef.current = provider.id;
+      setTtsProviderId(provider.id);
+      updateVoicePrefs({ ...voicePrefsRef.current, providerId: provider.id });
+    }
+    setPlaybackRate(state.playbackRate);
+    playbackRateRef.current = state.playbackRate;
+
+    startReadingAt(state.lastPage, state.charOffset, state.readerMode === ReaderMode.IDLE ? undefined : state.readerMode);
+  };
+
+  const saveBookmarks = (next: Bookmark[]) => {
+    setBookmarks(next);
+    const docHash = docHashRef.current;
+    if (!docHash) return;
+    updateDocumentState(docHash, { bookmarks: next })
+      .catch(err => console.warn('[DocumentStore] Failed to save bookmarks', err));
+  };
+
+  const handleAddBookmark = () => {
+    if (!textContent || isTextScanned) return;
+    const charOffset = findSentenceStart(textContent, toPageOffset(lastKnownCharIndexRef.current));
+    const snippet = textContent.substring(charOffset, charOffset + 160).trim();
+    const suggested = snippet.length > 40 ? `${snippet.substring(0, 40).trim()}…` : snippet;
+
+    const name = window.prompt('Bookmark name', suggested);
+    if (name === null) return;
+
+    saveBookmarks([...bookmarks, {
+      id: crypto.randomUUID(),
+      name: name.trim() || `Page ${currentPageNum}`,
+      pageNumber: currentPageNum,
+      charOffset,
+      snippet,
+      createdAt: Date.now(),
+    }]);
+  };
+
+  // --- Audiobook Export ---
+  const handleExportAudio = async (
+    settings: ExportAudioSettings,
+    onProgress: (p: AudiobookProgress) => void,
+    signal: AbortSignal
+  ) => {
+    const provider = getTTSProvider(settings.providerId);
+    if (!pdfDoc || !provider || provider.kind !== 'audio') return;
+    const doc = pdfDoc;
+
+    const blob = await exportAudiobook({
+      title: docName,
+      fromPage: settings.fromPage,
+      toPage: settings.toPage,
+      silenceSeconds: settings.silenceSeconds,
+      format: settings.format,
+      chapterSource: settings.chapterSource,
+      outline,
+      onProgress,
+      signal,
+      loadPageAudio: async (pageNum) => {
+        // Reuse audio prefetched for playback before going to the persistent cache / API
+        const prefetched = provider.id === ttsProviderIdRef.current ? audioCacheRef.current.get(pageNum) : undefined;
+        if (prefetched) return prefetched.buffer;
+
+        const extracted = await applyStoredOcr(await loadPageText(doc, pageNum));
+        if (!extracted.text || extracted.isScanned) return null;
+
+        const pageAudio = await loadPageAudio(provider, pageNum, extracted.text, false, 0, extracted.text.length, {
+          signal,
+          background: true,
+        });
+        return pageAudio?.buffer ?? null;
+      },
+    });
+
+    const range = settings.fromPage === settings.toPage ? `p${settings.fromPage}` : `p${settings.fromPage}-${settings.toPage}`;
+    downloadBlob(blob, `${docName || 'document'} (${range}).${settings.format}`);
+  };
+
+  // --- Batch OCR ---
+  const handleBatchOcr = async (onProgress: (p: BatchOcrProgress) => void, signal: AbortSignal) => {
+    if (!pdfDoc) throw new Error('No document open');
+    const doc = pdfDoc;
+    const generation = documentGenerations.current();
+    await ocrLoadedRef.current;
+
+    const result = await runBatchOcr({
+      doc,
+      knownPages: new Set(ocrPagesRef.current.keys()),
+      onProgress,
+      onPageDone: storeOcrPage,
+      signal,
+    });
+
+    // Show the recognized text if the page on screen was one of them. The scan can take
+    // minutes, so the page and its state are read now, not from when it started.
+    const pageNum = currentPageRef.current;
+    if (generation.isCurrent() && isTextScannedRef.current && ocrPagesRef.current.has(pageNum)) {
+      processPage(pageNum, doc);
+    }
+    return result;
+  };
+
   // --- Gemini Features ---
   const handleOCR = async () => {
-    if (!canvasRef.current) return;
+    if (!pdfDoc) return;
+    const generation = documentGenerations.current();
+    const pageNum = currentPageNum;
     setIsLoading(true);
     try {
-      const base64 = getCanvasAsBase64(canvasRef.current);
-      const text = await performOCR(base64);
+      const result = await recognizePageImage(await renderPageImage(pdfDoc, pageNum), { signal: generation.signal });
+      if (!generation.isCurrent()) return;
+      storeOcrPage(pageNum, result);
+      // Stored for later, but the page shown now is another one
+      if (currentPageRef.current !== pageNum) return;
+      const text = result.text;
+      setOcrLayout(result.layout);
+      setPageItems(result.layout ? getOcrPageItems(result.layout) : []);
       setTextContent(text);
+      setPageLanguage(detectLanguage(text));
       setIsTextScanned(false); 
-      prepareNativeTTS(text, false);
+      prepareReading(text);
     } catch (err) {
-      setError("OCR Failed. Please check your API Key or network.");
+      if (!generation.isCurrent()) return;
+      setError(err instanceof GeminiError ? `OCR failed: ${err.message}` : "OCR Failed. Please check your API Key or network.");
       console.error(err);
     } finally {
-      setIsLoading(false);
+      if (generation.isCurrent()) setIsLoading(false);
     }
   };
 
+  // --- Summaries ---
+  // Summarizes the document page by page; with cacheOnly, just shows what was stored before
+  const runSummary = (cacheOnly: boolean) => {
+    const docHash = docHashRef.current;
+    if (!pdfDoc || !docHash || summarySections.length === 0) return;
+    summaryAbortRef.current?.abort();
+    const controller = new AbortController();
+    summaryAbortRef.current = controller;
+    if (!cacheOnly) setSummaryProgress({ completed: 0, total: 0, label: 'document' });
+
+    summarizeDocument({
+      docHash,
+      sections: summarySections,
+      getPageText: async pageNumber => {
+        const extracted = await applyStoredOcr(await loadPageText(pdfDoc, pageNumber));
+        return extracted.isScanned ? '' : extracted.text;
+      },
+      cacheOnly,
+      onProgress: progress => {
+        if (!cacheOnly && !controller.signal.aborted) setSummaryProgress(progress);
+      },
+      onUpdate: partial => {
+        if (!controller.signal.aborted) setSummary(partial);
+      },
+      signal: controller.signal,
+    })
+      .catch(err => {
+        if (err?.name === 'AbortError') return;
+        console.error('[Summary] Failed', err);
+        setError(`Summarizing failed: ${err.message || 'Unknown error'}`);
+      })
+      .finally(() => {
+        if (summaryAbortRef.current !== controller) return;
+        summaryAbortRef.current = null;
+        setSummaryProgress(null);
+      });
+  };
+
+  const cancelSummary = () => {
+    summaryAbortRef.current?.abort();
+    summaryAbortRef.current = null;
+    setSummaryProgress(null);
+  };
+
+  // Shows stored summaries when the tab is opened (and again once the outline defines the sections)
+  useEffect(() => {
+    if (sidebarTab === 'summary' && !summaryProgress) runSummary(true);
+  }, [sidebarTab, summarySections]);
+
+  // Plays the summary track (or one section of it) instead of the document, with the selected provider
+  const playSummary = async (track: SummaryTrack) => {
+    if (!summary) return;
+    const text = track === 'all' ? buildSummaryScript(summary, summarySections) : summary.sections[track];
+    if (!text) return;
+
+    autoPlayRef.current = false;
+    stopAllAudio();
+    const generation = playbackGenerations.current();
+    const playbackId = ++summaryPlaybackIdRef.current;
+    setSummaryTrack(track);
+    const finish = () => {
+      if (summaryPlaybackIdRef.current !== playbackId) return;
+      summarySourceRef.current = null;
+      setSummaryTrack(null);
+    };
+
+    const audioProvider = resolveAudioProvider();
+    if (!audioProvider) {
+      const provider = resolveLiveProvider();
+      liveProviderRef.current = provider;
+      const options = buildSynthesisOptions(provider, text);
+      provider.speak(speechNormalizerRef.current(text, options.lang ?? null).text, {
+        ...options,
+        rate: playbackRateRef.current,
+        onBoundary: () => {},
+        onEnd: finish,
+        onError: (e) => {
+          console.error(`${provider.label} TTS Error`, e);
+          finish();
+        },
+      });
+      return;
+    }
+
+    try {
+      setIsGeneratingAI(true);
+      // Page 0 keeps the summary's chunks apart from the document pages in the audio cache
+      const audio = await loadPageAudio(audioProvider, 0, text, false, 0, text.length, { signal: generation.signal });
+      if (!audio || summaryPlaybackIdRef.current !== playbackId) return;
+      const audioContext = getAudioContext();
+      const source = audioContext.createBufferSource();
+      source.buffer = audio.buffer;
+      source.playbackRate.value = playbackRateRef.current;
+      source.connect(audioContext.destination);
+      source.onended = finish;
+      summarySourceRef.current = source;
+      source.start();
+    } catch (err: any) {
+      if (!generation.isCurrent()) return;
+      setError(`Failed to generate ${audioProvider.label} speech: ${err.message}`);
+      console.error(`${audioProvider.label} TTS Error:`, err);
+      finish();
+    } finally {
+      setIsGeneratingAI(false);
+    }
+  };
+
+  // --- Document Q&A ---
+  const handleAsk = async (question: string) => {
+    const generation = documentGenerations.current();
+    const history = chatMessages;
+    setChatMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'user', text: question, citations: [] }]);
+    setIsAnswering(true);
+    try {
+      const answer = await askDocument(question, history, searchIndexRef.current, { signal: generation.signal });
+      if (!generation.isCurrent()) return;
+      setChatMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'assistant', ...answer }]);
+    } catch (err: any) {
+      if (!generation.isCurrent()) return;
+      console.error('[QA] Failed to answer', err);
+      setChatMessages(prev => [...prev, {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        text: `Could not answer: ${err.message || 'Unknown error'}`,
+        citations: [],
+        isError: true,
+      }]);
+    } finally {
+      setIsAnswering(false);
+    }
+  };
+
+  // Shows the cited page with the reading position at the passage, so play starts there
+  const openCitation = (citation: Citation) => {
+    if (citation.pageNumber === currentPageNum) {
+      seekTo(findSentenceStart(speechText, toSpeechOffset(citation.start)));
+      return;
+    }
+    navigateToPage(citation.pageNumber);
+    pendingStartOffsetRef.current = citation.start;
+  };
+
+  // Drawn over the current page in both view modes
+  const currentPageOverlays = (
+    <>
+      <PageHighlightOverlay
+        text={textContent}
+        items={pageItems}
+        // The highlight follows the page text; while translating it is shown in the text panel instead
+        highlightIndex={isPlaying && readerMode !== ReaderMode.IDLE && !translation ? highlightIndex : null}
+      />
+      {ocrLayout && <OcrTextLayer layout={ocrLayout} />}
+
+      {/* Standard Spinner for Page Rendering (Not AI Gen) */}
+      {isLoading && !isGeneratingAI && (
+        <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex flex-col items-center justify-center z-20">
+           <Spinner />
+           <p className="mt-3 text-slate-600 font-medium animate-pulse">
+             {isTextScanned ? 'Analyzing Image...' : 'Processing Page...'}
+           </p>
+        </div>
+      )}
+    </>
+  );
+
   return (
     <div className="flex flex-col h-screen bg-slate-100 text-slate-900">
       
@@ -511,6 +1872,47 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-4">
+             <AudioCacheControl refreshKey={audioCacheVersion} />
+             {pdfDoc && (
+               <TranslateSelect
+                 targetLang={translateTo}
+                 disabled={!hasGeminiApiKey()}
+                 onChange={changeTranslateTo}
+               />
+             )}
+             {pdfDoc && (
+               <ViewModeControls
+                 viewMode={viewMode}
+                 showThumbnails={showThumbnails}
+                 onViewModeChange={changeViewMode}
+                 onToggleThumbnails={() => setShowThumbnails(show => !show)}
+               />
+             )}
+             {pdfDoc && (
+               <ZoomControls
+                 zoom={zoom}
+                 scale={renderScale}
+                 onZoomIn={() => zoomBy(1)}
+                 onZoomOut={() => zoomBy(-1)}
+                 onChange={changeZoom}
+               />
+             )}
+             {pdfDoc && (
+               <button
+                 onClick={() => setIsBatchOcrOpen(true)}
+                 className="flex items-center gap-2 border border-gray-300 hover:bg-gray-50 text-slate-700 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+               >
+                 <ScanText size={16} /> Scan Document
+               </button>
+             )}
+             {pdfDoc && (
+               <button
+                 onClick={() => setIsExportOpen(true)}
+                 className="flex items-center gap-2 border border-gray-300 hover:bg-gray-50 text-slate-700 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+               >
+                 <Download size={16} /> Export Audio
+               </button>
+             )}
              <button 
                onClick={() => fileInputRef.current?.click()}
                className="bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors shadow-sm"
@@ -533,8 +1935,17 @@ const App: React.FC = () => {
         {/* IMMERSIVE OVERLAY for AI Generation */}
         {isGeneratingAI && <WaitingOverlay />}
 
+        {pdfDoc && showThumbnails && pageProxy && (
+          <ThumbnailStrip
+            doc={pdfDoc}
+            currentPage={currentPageNum}
+            pageAspect={getPageSize(pageProxy).height / getPageSize(pageProxy).width}
+            onSelect={navigateToPage}
+          />
+        )}
+
         {/* PDF View Area */}
-        <div className="flex-1 bg-slate-200 overflow-auto flex justify-center p-8 relative">
+        <div ref={viewerRef} className="flex-1 bg-slate-200 overflow-auto flex p-8 relative">
           {error && (
              <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded z-50 flex items-center shadow-lg">
                 <AlertCircle className="mr-2" size={20} />
@@ -543,25 +1954,49 @@ const App: React.FC = () => {
              </div>
           )}
 
+          {resumeOffer && !error && (
+             <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-indigo-50 border border-indigo-200 text-indigo-900 px-4 py-3 rounded z-40 flex items-center gap-3 shadow-lg text-sm">
+                <History size={18} className="text-indigo-600" />
+                <span>Resume from page {resumeOffer.lastPage}?</span>
+                <button onClick={handleResume} className="bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1 rounded-md font-medium">
+                  Resume
+                </button>
+                <button onClick={dismissResumeOffer} className="text-indigo-700 hover:underline">
+                  Dismiss
+                </button>
+             </div>
+          )}
+
           {!pdfDoc ? (
-            <div className="flex flex-col items-center justify-center h-full text-slate-400">
+            <div className="flex flex-col items-center justify-center w-full h-full text-slate-400">
                <FileUp size={64} className="mb-4 opacity-20" />
                <p className="text-lg font-medium">No PDF loaded</p>
                <p className="text-sm">Click "Open PDF" to start reading</p>
             </div>
+          ) : viewMode === 'continuous' ? (
+            pageProxy && renderScale > 0 && (
+              <ContinuousPageView
+                doc={pdfDoc}
+                scale={renderScale}
+                estimatedPageSize={getPageSize(pageProxy)}
+                currentPage={currentPageNum}
+                scrollContainerRef={viewerRef}
+                renderPageContent={pageNumber => pageNumber === currentPageNum && currentPageOverlays}
+                // Other pages are only navigated to; reading happens on the current page
+                onPageClick={(pageNumber, e) => pageNumber === currentPageNum ? handlePageClick(e) : navigateToPage(pageNumber)}
+                onPageContextMenu={(pageNumber, e) => {
+                  if (pageNumber === currentPageNum) openReadingMenu(e, getPageOffsetAt(e));
+                }}
+              />
+            )
           ) : (
-            <div className="shadow-2xl border border-gray-300 bg-white transition-all duration-300 ease-in-out origin-top h-fit">
-               <canvas ref={canvasRef} className="block max-w-full h-auto" />
-               
-               {/* Standard Spinner for Page Rendering (Not AI Gen) */}
-               {isLoading && !isGeneratingAI && (
-                 <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex flex-col items-center justify-center z-20">
-                    <Spinner />
-                    <p className="mt-3 text-slate-600 font-medium animate-pulse">
-                      {isTextScanned ? 'Analyzing Image...' : 'Processing Page...'}
-                    </p>
-                 </div>
-               )}
+            <div
+              className="relative mx-auto shrink-0 shadow-2xl border border-gray-300 bg-white transition-all duration-300 ease-in-out origin-top h-fit"
+              onClick={handlePageClick}
+              onContextMenu={e => openReadingMenu(e, getPageOffsetAt(e))}
+            >
+               <canvas ref={canvasRef} className="block" />
+               {currentPageOverlays}
             </div>
           )}
         </div>
@@ -569,19 +2004,122 @@ const App: React.FC = () => {
         {/* Sidebar / Text View (Desktop) */}
         <div className="w-96 bg-white border-l border-gray-200 hidden xl:flex flex-col shadow-xl z-10">
            <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center">
-              <h2 className="font-semibold text-gray-700 text-sm uppercase tracking-wider">Text View</h2>
-              {readerMode === ReaderMode.GEMINI_TTS && isPlaying && (
-                 <span className="text-xs text-purple-600 bg-purple-100 px-2 py-1 rounded animate-pulse">AI Voice Active</span>
+              <div className="flex flex-wrap gap-x-3 gap-y-1">
+                {(['contents', 'text', 'summary', 'ask', 'search', 'bookmarks'] as SidebarTab[]).map(tab => (
+                  <button
+                    key={tab}
+                    onClick={() => setSidebarTab(tab)}
+                    className={`font-semibold text-xs uppercase tracking-wider ${sidebarTab === tab ? 'text-gray-700' : 'text-gray-400 hover:text-gray-600'}`}
+                  >
+                    {tab === 'bookmarks' && bookmarks.length ? `${tab} (${bookmarks.length})` : tab}
+                  </button>
+                ))}
+              </div>
+              {readerMode === ReaderMode.AUDIO_TTS && isPlaying && (
+                 <span className="text-xs text-purple-600 bg-purple-100 px-2 py-1 rounded animate-pulse">{getTTSProvider(ttsProviderId)?.label} Active</span>
               )}
            </div>
+           {sidebarTab === 'contents' ? (
+             <div className="flex-1 overflow-hidden">
+               <OutlinePanel
+                 entries={flatOutline}
+                 activeEntry={currentChapter}
+                 onNavigate={navigateToPage}
+                 onReadChapter={handleReadChapter}
+               />
+             </div>
+           ) : sidebarTab === 'summary' ? (
+             <div className="flex-1 overflow-hidden">
+               <SummaryPanel
+                 sections={summarySections}
+                 summary={summary}
+                 progress={summaryProgress}
+                 canSummarize={!!pdfDoc && hasGeminiApiKey()}
+                 playing={summaryTrack}
+                 onSummarize={() => runSummary(false)}
+                 onCancel={cancelSummary}
+                 onPlay={playSummary}
+                 onStop={stopAllAudio}
+                 onNavigate={navigateToPage}
+               />
+             </div>
+           ) : sidebarTab === 'ask' ? (
+             <div className="flex-1 overflow-hidden">
+               <ChatPanel
+                 messages={chatMessages}
+                 isAnswering={isAnswering}
+                 canAsk={!!pdfDoc && hasGeminiApiKey()}
+                 indexedPages={indexedPages}
+                 totalPages={pdfDoc?.numPages ?? 0}
+                 onAsk={handleAsk}
+                 onOpenCitation={openCitation}
+                 onReadCitation={c => startReadingAt(c.pageNumber, c.start, undefined, c.end)}
+                 onClear={() => setChatMessages([])}
+               />
+             </div>
+           ) : sidebarTab === 'search' ? (
+             <div className="flex-1 overflow-hidden">
+               <SearchPanel
+                 query={searchQuery}
+                 onQueryChange={handleSearchQueryChange}
+                 hits={searchHits}
+                 activeIndex={activeHitIndex}
+                 indexedPages={indexedPages}
+                 totalPages={pdfDoc?.numPages ?? 0}
+                 onSelect={goToSearchHit}
+                 onReadFrom={hit => startReadingAt(hit.pageNumber, hit.start)}
+               />
+             </div>
+           ) : sidebarTab === 'bookmarks' ? (
+             <div className="flex-1 overflow-hidden">
+               <BookmarksPanel
+                 bookmarks={bookmarks}
+                 canAdd={!!pdfDoc && !!textContent && !isTextScanned}
+                 onAdd={handleAddBookmark}
+                 onOpen={b => startReadingAt(b.pageNumber, b.charOffset)}
+                 onDelete={id => saveBookmarks(bookmarks.filter(b => b.id !== id))}
+               />
+             </div>
+           ) : (
+           <div className="flex-1 flex flex-col overflow-hidden">
+              {activeHit && (
+                <div className="px-4 py-2 border-b border-gray-100 flex items-center gap-2 text-xs text-gray-500">
+                  <span>Match {activeHitIndex! + 1} of {searchHits.length}</span>
+                  <button onClick={() => goToSearchHit(activeHitIndex! - 1)} disabled={activeHitIndex === 0} className="p-1 rounded hover:bg-gray-100 disabled:opacity-40" aria-label="Previous match">
+                    <ChevronUp size={14} />
+                  </button>
+                  <button onClick={() => goToSearchHit(activeHitIndex! + 1)} disabled={activeHitIndex === searchHits.length - 1} className="p-1 rounded hover:bg-gray-100 disabled:opacity-40" aria-label="Next match">
+                    <ChevronDown size={14} />
+                  </button>
+                  <button onClick={() => startReadingAt(activeHit.pageNumber, activeHit.start)} className="ml-auto text-indigo-600 hover:underline font-medium">
+                    Read from here
+                  </button>
+                  <button onClick={() => setActiveHitIndex(null)} className="p-1 rounded hover:bg-gray-100" aria-label="Clear match">
+                    <X size={14} />
+                  </button>
+                </div>
+              )}
            <div className="flex-1 overflow-y-auto p-6 relative">
-              {textContent ? (
+              {textContent && translation ? (
+                <BilingualText
+                  source={textContent}
+                  translation={translation}
+                  currentInfo={{
+                    charIndex: highlightIndex,
+                    isActive: isPlaying && readerMode !== ReaderMode.IDLE
+                  }}
+                  onSentenceClick={start => readCurrentPage(start)}
+                />
+              ) : textContent ? (
                 <HighlightableText 
                   text={textContent} 
                   currentInfo={{ 
                     charIndex: highlightIndex, 
-                    isActive: isPlaying && readerMode === ReaderMode.NATIVE_TTS 
+                    isActive: isPlaying && readerMode !== ReaderMode.IDLE 
                   }} 
+                  searchMatch={activeHit && activeHit.pageNumber === currentPageNum && activeHit.end <= textContent.length ? activeHit : null}
+                  onSentenceClick={start => readCurrentPage(start)}
+                  onContextMenu={e => openReadingMenu(e, getTextOffset(e.target as Node, 0))}
                 />
               ) : (
                 <span className="italic text-gray-400">
@@ -589,27 +2127,94 @@ const App: React.FC = () => {
                 </span>
               )}
            </div>
+           </div>
+           )}
         </div>
 
       </main>
 
+      {readingMenu && (
+        <ReadingContextMenu
+          x={readingMenu.x}
+          y={readingMenu.y}
+          canReadSelection={readingMenu.selection !== null}
+          onReadFrom={() => readFromOffset(readingMenu.offset)}
+          onReadParagraph={() => readPageRange(...findParagraphRange(textContent, readingMenu.offset))}
+          onReadSelection={() => {
+            const selection = readingMenu.selection;
+            if (selection) readPageRange(selection[0], selection[1]);
+          }}
+          onClose={closeReadingMenu}
+        />
+      )}
+
+      {isShortcutsOpen && <ShortcutsDialog onClose={() => setIsShortcutsOpen(false)} />}
+
+      {isSpeechRulesOpen && (
+        <SpeechRulesDialog
+          settings={normalizationSettings}
+          documentRules={documentPronunciations}
+          hasDocument={!!pdfDoc}
+          sampleText={speechText}
+          language={pageLanguage}
+          onSave={handleSpeechRulesChange}
+          onClose={() => setIsSpeechRulesOpen(false)}
+        />
+      )}
+
+      {isBatchOcrOpen && pdfDoc && (
+        <BatchOcrDialog
+          knownPageCount={ocrPageCount}
+          onScan={handleBatchOcr}
+          onClose={() => setIsBatchOcrOpen(false)}
+        />
+      )}
+
+      {isExportOpen && pdfDoc && (
+        <ExportAudioDialog
+          totalPages={pdfDoc.numPages}
+          currentPage={currentPageNum}
+          providers={getTTSProviders().filter((p): p is AudioTTSProvider => p.kind === 'audio' && p.isAvailable())}
+          defaultProviderId={ttsProviderId}
+          hasOutline={outline.length > 0}
+          onExport={handleExportAudio}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
       {/* Footer Controls */}
       {pdfDoc && (
         <ControlBar 
           pageNumber={currentPageNum}
           totalPages={pdfDoc.numPages}
+          chapterTitle={currentChapter?.title ?? null}
           onPageChange={(n) => {
+            dismissResumeOffer();
+            chapterEndRef.current = null;
             autoPlayRef.current = false; 
             setCurrentPageNum(n);
           }}
           isPlaying={isPlaying}
           onPlayPause={togglePlayPause}
+          progress={speechText ? (highlightIndex / speechText.length) * 100 : 0}
+          onSeek={handleSeekProgress}
+          onSkipSentence={skipSentence}
+          onSkipParagraph={skipParagraph}
+          onJump={jumpSeconds}
+          onShowShortcuts={() => setIsShortcutsOpen(true)}
           playbackRate={playbackRate}
           onRateChange={handleRateChange}
           mode={readerMode}
           hasText={!!textContent && !isTextScanned}
           isProcessing={isLoading || isGeneratingAI}
-          onUseGeminiTTS={() => handleGeminiTTS(textContent, currentPageNum)}
+          providers={getTTSProviders()}
+          providerId={ttsProviderId}
+          onProviderChange={handleProviderChange}
+          voices={providerVoices[ttsProviderId] ?? []}
+          voicePrefs={voicePrefs}
+          onVoicePrefsChange={handleVoicePrefsChange}
+          onShowSpeechRules={() => setIsSpeechRulesOpen(true)}
+          pageLanguage={pageLanguage}
           onOCR={handleOCR}
           extractedText={textContent}
         />
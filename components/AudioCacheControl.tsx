@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Trash2 } from 'lucide-react';
+import { getAudioCacheStats, clearAudioCache, AudioCacheStats, AUDIO_CACHE_BUDGET_BYTES } from '../services/audioCacheService';
+
+interface AudioCacheControlProps {
+  refreshKey: number; // Bump to re-read stats after the cache was written
+  onCleared?: () => void;
+}
+
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const AudioCacheControl: React.FC<AudioCacheControlProps> = ({ refreshKey, onCleared }) => {
+  const [stats, setStats] = useState<AudioCacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAudioCacheStats()
+      .then(s => { if (!cancelled) setStats(s); })
+      .catch(err => console.warn('[AudioCache] Failed to read stats', err));
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete all cached AI voice audio? Pages will be generated again on next listen.')) return;
+    setIsClearing(true);
+    try {
+      await clearAudioCache();
+      setStats({ entries: 0, totalBytes: 0 });
+      onCleared?.();
+    } catch (err) {
+      console.error('[AudioCache] Failed to clear', err);
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  if (!stats) return null;
+
+  return (
+    <div
+      className="flex items-center gap-2 text-xs text-slate-500 border border-gray-200 rounded-md pl-3 pr-1 py-1"
+      title={`${stats.entries} cached pages, budget ${formatMB(AUDIO_CACHE_BUDGET_BYTES)}`}
+    >
+      <Database size={14} />
+      <span>Audio cache {formatMB(stats.totalBytes)}</span>
+      <button
+        onClick={handleClear}
+        disabled={isClearing || stats.entries === 0}
+        className="p-1 rounded hover:bg-red-50 hover:text-red-600 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-500"
+        aria-label="Clear audio cache"
+      >
+        <Trash2 size={14} />
+      </button>
+    </div>
+  );
+};
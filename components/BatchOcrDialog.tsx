@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { ScanText, X } from 'lucide-react';
+import { BatchOcrProgress, OcrPageStatus } from '../services/batchOcr';
+
+interface BatchOcrDialogProps {
+  knownPageCount: number; // Pages already recognized in earlier scans
+  onScan: (onProgress: (p: BatchOcrProgress) => void, signal: AbortSignal) => Promise<BatchOcrProgress>;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<OcrPageStatus, string> = {
+  pending: 'bg-gray-100 text-gray-500',
+  running: 'bg-indigo-100 text-indigo-700 animate-pulse',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export const BatchOcrDialog: React.FC<BatchOcrDialogProps> = ({ knownPageCount, onScan, onClose }) => {
+  const [progress, setProgress] = useState<BatchOcrProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(null);
+    setIsRunning(true);
+
+    try {
+      setProgress(await onScan(setProgress, controller.signal));
+    } catch (err: any) {
+      if (err?.name !== 'AbortError') {
+        console.error('Batch OCR failed', err);
+        setError(err.message || 'Scan failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const statuses = progress ? Object.entries(progress.pages) as Array<[string, OcrPageStatus]> : [];
+  const count = (status: OcrPageStatus) => statuses.filter(([, s]) => s === status).length;
+  const isFinished = !isRunning && progress?.phase === 'recognizing';
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center" onClick={isRunning ? undefined : handleClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-semibold text-slate-800">Scan Entire Document</h2>
+          <button onClick={handleClose} className="p-1 rounded hover:bg-gray-100" aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          Finds pages without a text layer and recognizes them with Gemini OCR. Results are saved,
+          so reading and search use them on later visits too.
+          {knownPageCount > 0 && ` ${knownPageCount} page${knownPageCount === 1 ? ' was' : 's were'} already recognized and will be skipped.`}
+        </p>
+
+        {progress && (
+          <div className="mt-5 text-sm">
+            {progress.phase === 'detecting' ? (
+              <p className="text-gray-500">Checking page {progress.checkedPages} of {progress.totalPages} for missing text...</p>
+            ) : statuses.length === 0 ? (
+              <p className="text-gray-500">No pages need OCR.</p>
+            ) : (
+              <>
+                <p className="text-gray-500 mb-2">
+                  {count('done')} done, {count('failed')} failed, {count('pending') + count('running')} remaining
+                </p>
+                <div className="flex flex-wrap gap-1 max-h-48 overflow-y-auto">
+                  {statuses.map(([pageNumber, status]) => (
+                    <span key={pageNumber} className={`text-xs px-2 py-1 rounded ${STATUS_STYLES[status]}`} title={`Page ${pageNumber}: ${status}`}>
+                      {pageNumber}
+                    </span>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2 mt-6">
+          {isRunning ? (
+            <button onClick={() => abortRef.current?.abort()} className="px-4 py-2 text-sm rounded-md border border-red-300 text-red-700 hover:bg-red-50">
+              Cancel Scan
+            </button>
+          ) : (
+            <>
+              <button onClick={handleClose} className="px-4 py-2 text-sm rounded-md border border-gray-300 hover:bg-gray-50">
+                Close
+              </button>
+              <button
+                onClick={handleStart}
+                className="flex items-center gap-2 px-4 py-2 text-sm rounded-md bg-indigo-600 text-white hover:bg-indigo-700"
+              >
+                <ScanText size={16} /> {isFinished && count('failed') > 0 ? 'Retry Failed Pages' : 'Start Scan'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
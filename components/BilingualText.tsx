@@ -0,0 +1,73 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { PageTranslation } from '../types';
+import { getSentenceRanges } from '../services/sentenceSegmenter';
+
+interface BilingualTextProps {
+  source: string; // Original page text
+  translation: PageTranslation;
+  currentInfo: {
+    charIndex: number; // Offset in the translation being spoken
+    isActive: boolean;
+  };
+  onSentenceClick: (start: number) => void; // Start offset of a clicked translated sentence
+}
+
+/**
+ * Original and translated page side by side, one row per paragraph. The paragraph and
+ * translated sentence being read are marked and kept in view.
+ */
+export const BilingualText: React.FC<BilingualTextProps> = ({ source, translation, currentInfo, onSentenceClick }) => {
+  const activeRef = useRef<HTMLSpanElement>(null);
+
+  // Translated sentences grouped by the paragraph (segment) they belong to
+  const rows = useMemo(() => {
+    const sentences = getSentenceRanges(translation.text);
+    return translation.segments.map(segment => ({
+      segment,
+      sentences: sentences
+        .filter(([start, end]) => end > segment.start && start < segment.end)
+        .map(([start, end]) => [Math.max(start, segment.start), Math.min(end, segment.end)] as [number, number]),
+    }));
+  }, [translation]);
+
+  useEffect(() => {
+    if (currentInfo.isActive) activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [currentInfo.charIndex, currentInfo.isActive]);
+
+  const handleClick = (start: number) => {
+    // Ignore the click that ends a text selection
+    if (window.getSelection()?.isCollapsed === false) return;
+    onSentenceClick(start);
+  };
+
+  return (
+    <div className="space-y-4">
+      {rows.map(({ segment, sentences }, i) => {
+        const { charIndex, isActive } = currentInfo;
+        const isCurrentRow = isActive && charIndex >= segment.start && (charIndex < segment.end || i === rows.length - 1);
+        return (
+          <div key={i} className={`grid grid-cols-2 gap-3 rounded p-1 -m-1 ${isCurrentRow ? 'bg-yellow-50' : ''}`}>
+            <p className="text-sm text-gray-500 leading-relaxed font-serif whitespace-pre-wrap">
+              {source.substring(segment.sourceStart, segment.sourceEnd)}
+            </p>
+            <p className="text-sm text-gray-800 leading-relaxed font-serif whitespace-pre-wrap">
+              {sentences.map(([start, end]) => {
+                const isCurrent = isActive && charIndex >= start && charIndex < end;
+                return (
+                  <span
+                    key={start}
+                    ref={isCurrent ? activeRef : null}
+                    onClick={() => handleClick(start + Math.max(0, translation.text.substring(start, end).search(/\S/)))}
+                    className={`rounded cursor-pointer ${isCurrent ? 'bg-yellow-200 text-gray-900 font-medium' : 'hover:bg-gray-100'}`}
+                  >
+                    {translation.text.substring(start, end)}
+                  </span>
+                );
+              })}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { BookmarkPlus, Play, Trash2 } from 'lucide-react';
+import { Bookmark } from '../types';
+
+interface BookmarksPanelProps {
+  bookmarks: Bookmark[];
+  canAdd: boolean; // False while the current page has no readable text
+  onAdd: () => void;
+  onOpen: (bookmark: Bookmark) => void;
+  onDelete: (id: string) => void;
+}
+
+export const BookmarksPanel: React.FC<BookmarksPanelProps> = ({ bookmarks, canAdd, onAdd, onOpen, onDelete }) => {
+  const sorted = [...bookmarks].sort((a, b) => a.pageNumber - b.pageNumber || a.charOffset - b.charOffset);
+
+  return (
+    <div className="flex flex-col h-full">
+      <button
+        onClick={onAdd}
+        disabled={!canAdd}
+        className="m-4 flex items-center justify-center gap-2 border border-dashed border-indigo-300 text-indigo-700 hover:bg-indigo-50 px-3 py-2 rounded-md text-sm font-medium disabled:opacity-40 disabled:hover:bg-transparent"
+      >
+        <BookmarkPlus size={16} /> Bookmark current sentence
+      </button>
+
+      {sorted.length === 0 ? (
+        <p className="px-6 text-sm italic text-gray-400">No bookmarks yet.</p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {sorted.map(bookmark => (
+            <li key={bookmark.id} className="group flex items-start gap-2 px-4 py-3 hover:bg-gray-50">
+              <button onClick={() => onOpen(bookmark)} className="flex-1 text-left min-w-0" title="Read from here">
+                <div className="flex items-center gap-2">
+                  <Play size={12} className="text-indigo-600 shrink-0" />
+                  <span className="font-medium text-sm text-slate-800 truncate">{bookmark.name}</span>
+                  <span className="ml-auto text-xs text-gray-400 shrink-0">p. {bookmark.pageNumber}</span>
+                </div>
+                <p className="mt-1 text-xs text-gray-500 line-clamp-2">{bookmark.snippet}</p>
+              </button>
+              <button
+                onClick={() => onDelete(bookmark.id)}
+                className="p-1 rounded text-gray-400 opacity-0 group-hover:opacity-100 hover:bg-red-50 hover:text-red-600"
+                aria-label={`Delete bookmark ${bookmark.name}`}
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send, Play, Trash2 } from 'lucide-react';
+import { ChatMessage, Citation } from '../types';
+import { Spinner } from './Spinner';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  isAnswering: boolean;
+  canAsk: boolean; // False without an API key
+  indexedPages: number; // Pages searchable so far
+  totalPages: number;
+  onAsk: (question: string) => void;
+  onOpenCitation: (citation: Citation) => void;
+  onReadCitation: (citation: Citation) => void;
+  onClear: () => void;
+}
+
+// Splits an answer around its [n] / [n, m] citation markers (kept as separate parts)
+const MARKER_SPLIT = /(\[\d+(?:\s*,\s*\d+)*\])/;
+
+// Characters of a cited passage shown under the answer
+const SOURCE_PREVIEW_CHARS = 140;
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({
+  messages,
+  isAnswering,
+  canAsk,
+  indexedPages,
+  totalPages,
+  onAsk,
+  onOpenCitation,
+  onReadCitation,
+  onClear
+}) => {
+  const [question, setQuestion] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [messages.length, isAnswering]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || isAnswering || !canAsk) return;
+    onAsk(text);
+    setQuestion('');
+  };
+
+  // Replaces citation markers with buttons that open the cited page
+  const renderAnswer = (message: ChatMessage) => message.text.split(MARKER_SPLIT).map((part, i) => {
+    if (i % 2 === 0) return <React.Fragment key={i}>{part}</React.Fragment>;
+    const markers = part.slice(1, -1).split(',').map(n => parseInt(n, 10));
+    return markers.map(marker => {
+      const citation = message.citations.find(c => c.marker === marker);
+      if (!citation) return null;
+      return (
+        <button
+          key={`${i}-${marker}`}
+          onClick={() => onOpenCitation(citation)}
+          className="mx-0.5 px-1.5 rounded bg-indigo-100 text-indigo-700 text-xs font-medium hover:bg-indigo-200 align-baseline"
+          title={`Go to page ${citation.pageNumber}`}
+        >
+          p. {citation.pageNumber}
+        </button>
+      );
+    });
+  });
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {messages.length === 0 && (
+          <p className="text-sm italic text-gray-400">
+            Ask anything about this document, e.g. "Where does it talk about the budget?"
+            Answers cite the pages they come from.
+          </p>
+        )}
+
+        {messages.map(message => message.role === 'user' ? (
+          <div key={message.id} className="ml-8 bg-indigo-600 text-white text-sm rounded-lg px-3 py-2 whitespace-pre-wrap">
+            {message.text}
+          </div>
+        ) : (
+          <div key={message.id} className="mr-4">
+            <div className={`text-sm leading-relaxed rounded-lg px-3 py-2 ${message.isError ? 'bg-red-50 text-red-700' : 'bg-gray-100 text-slate-800'}`}>
+              {message.isError ? message.text : renderAnswer(message)}
+            </div>
+            {message.citations.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {message.citations.map(citation => (
+                  <li key={citation.marker} className="group flex items-start gap-2 text-xs text-gray-500">
+                    <button onClick={() => onOpenCitation(citation)} className="flex-1 text-left min-w-0 hover:text-indigo-700">
+                      <span className="font-medium text-gray-600">p. {citation.pageNumber}</span>{' '}
+                      {citation.text.length > SOURCE_PREVIEW_CHARS ? `${citation.text.substring(0, SOURCE_PREVIEW_CHARS)}…` : citation.text}
+                    </button>
+                    <button
+                      onClick={() => onReadCitation(citation)}
+                      className="p-1 rounded text-indigo-600 hover:bg-indigo-100 shrink-0"
+                      aria-label={`Read passage on page ${citation.pageNumber}`}
+                      title="Read this passage aloud"
+                    >
+                      <Play size={12} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+
+        {isAnswering && (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <Spinner /> Looking through the document…
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <form onSubmit={submit} className="p-4 border-t border-gray-100">
+        <div className="flex items-center gap-2 border border-gray-300 rounded-md px-3 py-2 focus-within:ring-2 focus-within:ring-indigo-200">
+          <input
+            type="text"
+            value={question}
+            onChange={e => setQuestion(e.target.value)}
+            placeholder={canAsk ? 'Ask about this document' : 'Q&A needs a Gemini API key'}
+            disabled={!canAsk}
+            className="flex-1 text-sm outline-none bg-transparent"
+          />
+          <button type="submit" disabled={!canAsk || isAnswering || !question.trim()} className="text-indigo-600 disabled:opacity-40" aria-label="Ask">
+            <Send size={16} />
+          </button>
+        </div>
+        <div className="mt-2 flex items-center text-xs text-gray-400">
+          {indexedPages < totalPages && <span>Searching {indexedPages}/{totalPages} pages so far</span>}
+          {messages.length > 0 && (
+            <button type="button" onClick={onClear} className="ml-auto flex items-center gap-1 hover:text-red-600">
+              <Trash2 size={12} /> Clear chat
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
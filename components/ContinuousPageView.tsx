@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { PDFDocumentProxy } from '../types';
+import { renderPageForDisplay, getPageSize } from '../services/pdfService';
+import { createCanvasPool, CanvasPool } from '../services/canvasPool';
+
+type PageSize = { width: number; height: number };
+
+interface ContinuousPageViewProps {
+  doc: PDFDocumentProxy;
+  scale: number;
+  estimatedPageSize: PageSize; // Size at scale 1 assumed for pages not loaded yet
+  currentPage: number;
+  scrollContainerRef: React.RefObject<HTMLDivElement>; // The element that scrolls the pages
+  renderPageContent: (pageNumber: number) => React.ReactNode; // Drawn over the page, e.g. the reading highlight
+  onPageClick: (pageNumber: number, event: React.MouseEvent<HTMLDivElement>) => void;
+  onPageContextMenu: (pageNumber: number, event: React.MouseEvent<HTMLDivElement>) => void;
+}
+
+// Space between pages, in CSS pixels
+const PAGE_GAP = 16;
+// Each page has a 1px border on both sides
+const PAGE_BORDER = 2;
+// Pages rendered beyond the viewport in each direction, so scrolling rarely shows a blank page
+const OVERSCAN_PAGES = 1;
+
+/**
+ * Helper: Index of the first page whose bottom edge lies below `y`
+ */
+const findPageAt = (tops: number[], heights: number[], y: number): number => {
+  let low = 0;
+  let high = heights.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (tops[mid] + heights[mid] <= y) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+interface ContinuousPageProps {
+  doc: PDFDocumentProxy;
+  pageNumber: number;
+  scale: number;
+  pool: CanvasPool;
+  onSize: (pageNumber: number, size: PageSize) => void;
+}
+
+/**
+ * Helper: Renders one page into a canvas borrowed from the pool while the page is mounted
+ */
+const ContinuousPageCanvas: React.FC<ContinuousPageProps> = React.memo(({ doc, pageNumber, scale, pool, onSize }) => {
+  const holderRef = useRef<HTMLDivElement>(null);
+  const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const borrowed = pool.acquire();
+    borrowed.className = 'block';
+    // A recycled canvas still shows the page it last held until the new render lands
+    borrowed.style.visibility = 'hidden';
+    holderRef.current?.appendChild(borrowed);
+    setCanvas(borrowed);
+    return () => pool.release(borrowed);
+  }, [pool]);
+
+  useEffect(() => {
+    if (!canvas || scale <= 0) return;
+    let cancelled = false;
+    let cancelRender: (() => void) | null = null;
+
+    doc.getPage(pageNumber)
+      .then(page => {
+        if (cancelled) return;
+        onSize(pageNumber, getPageSize(page));
+        const render = renderPageForDisplay(page, canvas, scale);
+        cancelRender = render.cancel;
+        return render.promise.then(() => {
+          canvas.style.visibility = 'visible';
+        });
+      })
+      .catch(err => {
+        if (err?.name === 'RenderingCancelledException') return;
+        console.error(`Failed to render page ${pageNumber}`, err);
+      });
+
+    return () => {
+      cancelled = true;
+      cancelRender?.();
+    };
+  }, [doc, pageNumber, scale, canvas, onSize]);
+
+  return <div ref={holderRef} className="absolute inset-0" />;
+});
+
+/**
+ * All pages stacked vertically. Only the pages in or near the viewport are mounted and
+ * rendered; the rest are sized placeholders, so long documents scroll without rendering
+ * (or keeping in memory) every page. Page sizes are learned as pages load; until then the
+ * estimated size is assumed, which is exact for the usual document of uniform pages.
+ *
+ * When the current (reading) page changes and is out of view, it is scrolled into view,
+ * so continuous playback carries the view along without the user doing anything.
+ */
+export const ContinuousPageView: React.FC<ContinuousPageViewProps> = ({
+  doc,
+  scale,
+  estimatedPageSize,
+  currentPage,
+  scrollContainerRef,
+  renderPageContent,
+  onPageClick,
+  onPageContextMenu
+}) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const pool = useMemo(() => createCanvasPool(), []);
+  const [pageSizes, setPageSizes] = useState<Record<number, PageSize>>({});
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  // Page at the top of the view and how far into it, to hold the position when the scale changes
+  const anchorRef = useRef({ pageIndex: currentPage - 1, fraction: 0 });
+  const hasScrolledRef = useRef(false);
+
+  useEffect(() => setPageSizes({}), [doc]);
+
+  const handlePageSize = useCallback((pageNumber: number, size: PageSize) => {
+    setPageSizes(prev => {
+      const known = prev[pageNumber];
+      if (known && known.width === size.width && known.height === size.height) return prev;
+      return { ...prev, [pageNumber]: size };
+    });
+  }, []);
+
+  const layout = useMemo(() => {
+    const widths: number[] = [];
+    const heights: number[] = [];
+    const tops: number[] = [];
+    let y = 0;
+    for (let i = 0; i < doc.numPages; i++) {
+      const size = pageSizes[i + 1] ?? estimatedPageSize;
+      widths.push(Math.floor(size.width * scale) + PAGE_BORDER);
+      heights.push(Math.floor(size.height * scale) + PAGE_BORDER);
+      tops.push(y);
+      y += heights[i] + PAGE_GAP;
+    }
+    return { widths, heights, tops, width: Math.max(0, ...widths), height: Math.max(0, y - PAGE_GAP) };
+  }, [doc, pageSizes, estimatedPageSize, scale]);
+
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+
+  // Scroll position relative to the first page
+  const readViewport = useCallback(() => {
+    const container = scrollContainerRef.current;
+    const root = rootRef.current;
+    if (!container || !root) return null;
+    return { top: container.scrollTop - root.offsetTop, height: container.clientHeight };
+  }, [scrollContainerRef]);
+
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const next = readViewport();
+      if (!next) return;
+      setViewport(next);
+      const { tops, heights } = layoutRef.current;
+      if (heights.length === 0) return;
+      const pageIndex = findPageAt(tops, heights, Math.max(0, next.top));
+      anchorRef.current = { pageIndex, fraction: (next.top - tops[pageIndex]) / heights[pageIndex] };
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+    container.addEventListener('scroll', schedule, { passive: true });
+    const observer = new ResizeObserver(schedule);
+    observer.observe(container);
+    return () => {
+      container.removeEventListener('scroll', schedule);
+      observer.disconnect();
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [scrollContainerRef, readViewport]);
+
+  // Zooming changes every offset; keep the page that was at the top of the view there
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const root = rootRef.current;
+    if (!container || !root || !hasScrolledRef.current) return;
+    const { pageIndex, fraction } = anchorRef.current;
+    if (pageIndex >= layout.tops.length) return;
+    container.scrollTop = root.offsetTop + layout.tops[pageIndex] + fraction * layout.heights[pageIndex];
+  }, [scale]);
+
+  // Bring the current page into view: immediately when the view opens, smoothly afterwards
+  // (e.g. as continuous playback moves on). A page already partly in view is left alone,
+  // and the reading highlight scrolls within it.
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const root = rootRef.current;
+    const view = readViewport();
+    const index = currentPage - 1;
+    if (!container || !root || !view || index < 0 || index >= layout.tops.length) return;
+
+    const top = layout.tops[index];
+    const bottom = top + layout.heights[index];
+    const inView = bottom > view.top && top < view.top + view.height;
+    if (hasScrolledRef.current && inView) return;
+
+    container.scrollTo({
+      top: root.offsetTop + top - PAGE_GAP,
+      behavior: hasScrolledRef.current ? 'smooth' : 'auto',
+    });
+    hasScrolledRef.current = true;
+    anchorRef.current = { pageIndex: index, fraction: 0 };
+  }, [currentPage, doc]);
+
+  const { tops, heights, widths } = layout;
+  const first = heights.length ? Math.max(0, findPageAt(tops, heights, viewport.top) - OVERSCAN_PAGES) : 0;
+  const last = heights.length
+    ? Math.min(heights.length - 1, findPageAt(tops, heights, viewport.top + viewport.height) + OVERSCAN_PAGES)
+    : -1;
+  const visiblePages: number[] = [];
+  for (let i = first; i <= last; i++) visiblePages.push(i + 1);
+  // The current page stays mounted so its overlays (and their scroll position) survive
+  if (currentPage >= 1 && currentPage <= heights.length && !visiblePages.includes(currentPage)) {
+    visiblePages.push(currentPage);
+  }
+
+  return (
+    <div
+      ref={rootRef}
+      className="relative mx-auto shrink-0"
+      style={{ width: layout.width, height: layout.height }}
+    >
+      {visiblePages.map(pageNumber => {
+        const index = pageNumber - 1;
+        return (
+          <div
+            key={pageNumber}
+            data-page-number={pageNumber}
+            className="absolute shadow-2xl border border-gray-300 bg-white"
+            style={{
+              top: tops[index],
+              left: (layout.width - widths[index]) / 2,
+              width: widths[index],
+              height: heights[index],
+            }}
+            onClick={e => onPageClick(pageNumber, e)}
+            onContextMenu={e => onPageContextMenu(pageNumber, e)}
+          >
+            <ContinuousPageCanvas doc={doc} pageNumber={pageNumber} scale={scale} pool={pool} onSize={handlePageSize} />
+            {renderPageContent(pageNumber)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
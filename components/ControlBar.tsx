@@ -1,19 +1,36 @@
-import React from 'react';
-import { Play, Pause, SkipBack, SkipForward, Volume2, BrainCircuit, ScanText } from 'lucide-react';
-import { ReaderMode } from '../types';
+import React, { useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, Volume2, ScanText, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, RotateCcw, RotateCw, Keyboard } from 'lucide-react';
+import { ReaderMode, TTSProvider, TTSVoice } from '../types';
+import { VoicePreferences } from '../services/voicePreferences';
+import { ProviderPicker } from './ProviderPicker';
+import { VoicePanel } from './VoicePanel';
 
 interface ControlBarProps {
   pageNumber: number;
   totalPages: number;
+  chapterTitle: string | null;
   onPageChange: (newPage: number) => void;
   isPlaying: boolean;
   onPlayPause: () => void;
+  progress: number; // Position within the page text, 0 to 100
+  onSeek: (progress: number) => void;
+  onSkipSentence: (direction: 1 | -1) => void;
+  onSkipParagraph: (direction: 1 | -1) => void;
+  onJump: (seconds: number) => void;
+  onShowShortcuts: () => void;
   playbackRate: number;
   onRateChange: (rate: number) => void;
   mode: ReaderMode;
   hasText: boolean;
   isProcessing: boolean;
-  onUseGeminiTTS: () => void;
+  providers: TTSProvider[];
+  providerId: string;
+  onProviderChange: (providerId: string) => void;
+  voices: TTSVoice[];
+  voicePrefs: VoicePreferences;
+  onVoicePrefsChange: (prefs: VoicePreferences) => void;
+  onShowSpeechRules: () => void;
+  pageLanguage: string | null;
   onOCR: () => void;
   extractedText: string;
 }
@@ -21,18 +38,44 @@ interface ControlBarProps {
 const ControlBar: React.FC<ControlBarProps> = ({
   pageNumber,
   totalPages,
+  chapterTitle,
   onPageChange,
   isPlaying,
   onPlayPause,
+  progress,
+  onSeek,
+  onSkipSentence,
+  onSkipParagraph,
+  onJump,
+  onShowShortcuts,
   playbackRate,
   onRateChange,
   mode,
   hasText,
   isProcessing,
-  onUseGeminiTTS,
+  providers,
+  providerId,
+  onProviderChange,
+  voices,
+  voicePrefs,
+  onVoicePrefsChange,
+  onShowSpeechRules,
+  pageLanguage,
   onOCR,
   extractedText
 }) => {
+  const activeProvider = providers.find(p => p.id === providerId);
+  // Value while the seek bar is being dragged; the seek itself happens on release
+  const [scrubValue, setScrubValue] = useState<number | null>(null);
+
+  const commitScrub = () => {
+    if (scrubValue === null) return;
+    onSeek(scrubValue);
+    setScrubValue(null);
+  };
+
+  const skipButtonClass = 'p-1.5 rounded-full text-gray-600 hover:bg-gray-200 disabled:opacity-40';
+
   return (
     <div className="bg-white border-t border-gray-200 p-4 shadow-lg flex flex-col md:flex-row items-center justify-between gap-4 z-10">
       
@@ -45,9 +88,16 @@ const ControlBar: React.FC<ControlBarProps> = ({
         >
           <SkipBack size={20} />
         </button>
-        <span className="text-sm font-medium text-gray-600">
-          Page {pageNumber} of {totalPages}
-        </span>
+        <div className="flex flex-col items-center">
+          <span className="text-sm font-medium text-gray-600">
+            Page {pageNumber} of {totalPages}
+          </span>
+          {chapterTitle && (
+            <span className="text-xs text-gray-400 max-w-[12rem] truncate" title={chapterTitle}>
+              {chapterTitle}
+            </span>
+          )}
+        </div>
         <button 
           onClick={() => onPageChange(pageNumber + 1)}
           disabled={pageNumber >= totalPages || isProcessing}
@@ -61,14 +111,48 @@ const ControlBar: React.FC<ControlBarProps> = ({
       <div className="flex items-center space-x-6">
         {hasText ? (
           <>
-             <div className="flex items-center bg-gray-100 rounded-full px-2 py-1">
-                <button
-                  onClick={onPlayPause}
-                  disabled={isProcessing}
-                  className={`p-3 rounded-full text-white shadow-md transition-all ${isPlaying ? 'bg-red-500 hover:bg-red-600' : 'bg-indigo-600 hover:bg-indigo-700'}`}
-                >
-                  {isPlaying ? <Pause size={24} fill="currentColor" /> : <Play size={24} fill="currentColor" />}
-                </button>
+             <div className="flex flex-col items-center gap-1">
+               <div className="flex items-center gap-1 bg-gray-100 rounded-full px-2 py-1">
+                  <button onClick={() => onSkipParagraph(-1)} disabled={isProcessing} className={skipButtonClass} title="Previous paragraph (Shift+←)">
+                    <ChevronsLeft size={18} />
+                  </button>
+                  <button onClick={() => onSkipSentence(-1)} disabled={isProcessing} className={skipButtonClass} title="Previous sentence (←)">
+                    <ChevronLeft size={18} />
+                  </button>
+                  <button onClick={() => onJump(-10)} disabled={isProcessing} className={skipButtonClass} title="Back 10 seconds (J)">
+                    <RotateCcw size={16} />
+                  </button>
+                  <button
+                    onClick={onPlayPause}
+                    disabled={isProcessing}
+                    className={`p-3 rounded-full text-white shadow-md transition-all ${isPlaying ? 'bg-red-500 hover:bg-red-600' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+                  >
+                    {isPlaying ? <Pause size={24} fill="currentColor" /> : <Play size={24} fill="currentColor" />}
+                  </button>
+                  <button onClick={() => onJump(10)} disabled={isProcessing} className={skipButtonClass} title="Forward 10 seconds (K)">
+                    <RotateCw size={16} />
+                  </button>
+                  <button onClick={() => onSkipSentence(1)} disabled={isProcessing} className={skipButtonClass} title="Next sentence (→)">
+                    <ChevronRight size={18} />
+                  </button>
+                  <button onClick={() => onSkipParagraph(1)} disabled={isProcessing} className={skipButtonClass} title="Next paragraph (Shift+→)">
+                    <ChevronsRight size={18} />
+                  </button>
+               </div>
+               <input
+                 type="range"
+                 min="0"
+                 max="100"
+                 step="0.1"
+                 value={scrubValue ?? progress}
+                 onChange={(e) => setScrubValue(parseFloat(e.target.value))}
+                 onPointerUp={commitScrub}
+                 onKeyUp={commitScrub}
+                 onBlur={commitScrub}
+                 disabled={isProcessing}
+                 aria-label="Position on page"
+                 className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+               />
              </div>
             
             <div className="flex flex-col w-32">
@@ -86,6 +170,10 @@ const ControlBar: React.FC<ControlBarProps> = ({
                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
               />
             </div>
+
+            <button onClick={onShowShortcuts} className="p-2 rounded-full text-gray-500 hover:bg-gray-100" title="Keyboard shortcuts (?)">
+              <Keyboard size={18} />
+            </button>
           </>
         ) : (
           <div className="text-amber-600 text-sm font-medium flex items-center">
@@ -108,20 +196,25 @@ const ControlBar: React.FC<ControlBarProps> = ({
            </button>
          )}
 
-         {/* High Quality Audio Toggle */}
+         {/* Voice Provider Picker */}
          {hasText && (
-           <button
-            onClick={onUseGeminiTTS}
-            disabled={isProcessing || mode === ReaderMode.GEMINI_TTS}
-            className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition text-sm font-medium border ${
-              mode === ReaderMode.GEMINI_TTS 
-              ? 'bg-purple-100 text-purple-800 border-purple-200 cursor-default' 
-              : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
-            }`}
-           >
-             <BrainCircuit size={18} />
-             <span>{mode === ReaderMode.GEMINI_TTS ? 'Using Gemini Voice' : 'Switch to AI Voice'}</span>
-           </button>
+           <ProviderPicker
+             providers={providers}
+             providerId={providerId}
+             onChange={onProviderChange}
+             disabled={isProcessing}
+           />
+         )}
+         {hasText && activeProvider && (
+           <VoicePanel
+             provider={activeProvider}
+             voices={voices}
+             prefs={voicePrefs}
+             onChange={onVoicePrefsChange}
+             pageLanguage={pageLanguage}
+             disabled={isProcessing}
+             onShowSpeechRules={onShowSpeechRules}
+           />
          )}
       </div>
     </div>
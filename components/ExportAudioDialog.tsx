@@ -0,0 +1,197 @@
+import React, { useRef, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { AudioTTSProvider } from '../types';
+import { AudiobookFormat, AudiobookProgress, ChapterSource } from '../services/audiobookExport';
+
+export interface ExportAudioSettings {
+  fromPage: number;
+  toPage: number;
+  silenceSeconds: number;
+  format: AudiobookFormat;
+  chapterSource: ChapterSource;
+  providerId: string;
+}
+
+interface ExportAudioDialogProps {
+  totalPages: number;
+  currentPage: number;
+  providers: AudioTTSProvider[];
+  defaultProviderId: string;
+  hasOutline: boolean;
+  onExport: (settings: ExportAudioSettings, onProgress: (p: AudiobookProgress) => void, signal: AbortSignal) => Promise<void>;
+  onClose: () => void;
+}
+
+export const ExportAudioDialog: React.FC<ExportAudioDialogProps> = ({
+  totalPages,
+  currentPage,
+  providers,
+  defaultProviderId,
+  hasOutline,
+  onExport,
+  onClose
+}) => {
+  const [settings, setSettings] = useState<ExportAudioSettings>({
+    fromPage: currentPage,
+    toPage: totalPages,
+    silenceSeconds: 1.5,
+    format: 'wav',
+    chapterSource: hasOutline ? 'outline' : 'pages',
+    providerId: providers.some(p => p.id === defaultProviderId) ? defaultProviderId : providers[0]?.id ?? '',
+  });
+  const [progress, setProgress] = useState<AudiobookProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isRunning = progress !== null;
+  const update = (patch: Partial<ExportAudioSettings>) => setSettings(s => ({ ...s, ...patch }));
+  const clampPage = (n: number) => Math.min(totalPages, Math.max(1, Math.floor(n) || 1));
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ pageNumber: settings.fromPage, completed: 0, total: settings.toPage - settings.fromPage + 1 });
+
+    try {
+      await onExport(settings, setProgress, controller.signal);
+      onClose();
+    } catch (err: any) {
+      if (err?.name !== 'AbortError') {
+        console.error('Audio export failed', err);
+        setError(err.message || 'Export failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const percent = progress ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center" onClick={isRunning ? undefined : handleClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-md p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-semibold text-slate-800">Export Audio</h2>
+          <button onClick={handleClose} className="p-1 rounded hover:bg-gray-100" aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        {providers.length === 0 ? (
+          <p className="text-sm text-gray-500">Export needs an AI voice provider that returns audio (Gemini or a custom HTTP voice).</p>
+        ) : (
+          <fieldset disabled={isRunning} className="space-y-4 text-sm">
+            <div className="flex gap-3">
+              <label className="flex-1">
+                <span className="text-gray-700 font-medium">From page</span>
+                <input
+                  type="number" min={1} max={totalPages} value={settings.fromPage}
+                  onChange={e => {
+                    const fromPage = clampPage(parseInt(e.target.value));
+                    update({ fromPage, toPage: Math.max(fromPage, settings.toPage) });
+                  }}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              </label>
+              <label className="flex-1">
+                <span className="text-gray-700 font-medium">To page</span>
+                <input
+                  type="number" min={settings.fromPage} max={totalPages} value={settings.toPage}
+                  onChange={e => update({ toPage: Math.max(settings.fromPage, clampPage(parseInt(e.target.value))) })}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              </label>
+            </div>
+
+            <label className="block">
+              <span className="text-gray-700 font-medium">Voice provider</span>
+              <select
+                value={settings.providerId}
+                onChange={e => update({ providerId: e.target.value })}
+                className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 bg-white"
+              >
+                {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </label>
+
+            <div className="flex gap-3">
+              <label className="flex-1">
+                <span className="text-gray-700 font-medium">Format</span>
+                <select
+                  value={settings.format}
+                  onChange={e => update({ format: e.target.value as AudiobookFormat })}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 bg-white"
+                >
+                  <option value="wav">WAV (lossless)</option>
+                  <option value="mp3">MP3 (smaller)</option>
+                </select>
+              </label>
+              <label className="flex-1">
+                <span className="text-gray-700 font-medium">Chapters</span>
+                <select
+                  value={settings.chapterSource}
+                  onChange={e => update({ chapterSource: e.target.value as ChapterSource })}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 bg-white"
+                >
+                  <option value="pages">One per page</option>
+                  <option value="outline" disabled={!hasOutline}>From PDF outline</option>
+                </select>
+              </label>
+            </div>
+
+            <label className="block">
+              <span className="text-gray-700 font-medium">Silence between pages: {settings.silenceSeconds.toFixed(1)}s</span>
+              <input
+                type="range" min="0" max="5" step="0.5" value={settings.silenceSeconds}
+                onChange={e => update({ silenceSeconds: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+              />
+            </label>
+          </fieldset>
+        )}
+
+        {progress && (
+          <div className="mt-5">
+            <div className="flex justify-between text-xs text-gray-500 mb-1">
+              <span>Synthesizing page {progress.pageNumber}...</span>
+              <span>{progress.completed} / {progress.total}</span>
+            </div>
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-600 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        )}
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2 mt-6">
+          {isRunning ? (
+            <button onClick={() => abortRef.current?.abort()} className="px-4 py-2 text-sm rounded-md border border-red-300 text-red-700 hover:bg-red-50">
+              Cancel Export
+            </button>
+          ) : (
+            <>
+              <button onClick={handleClose} className="px-4 py-2 text-sm rounded-md border border-gray-300 hover:bg-gray-50">
+                Close
+              </button>
+              <button
+                onClick={handleStart}
+                disabled={providers.length === 0}
+                className="flex items-center gap-2 px-4 py-2 text-sm rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Download size={16} /> Export
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
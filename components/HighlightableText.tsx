@@ -1,4 +1,5 @@
 import React, { useMemo, useEffect, useRef } from 'react';
+import { getSentenceRanges } from '../services/sentenceSegmenter';
 
 interface HighlightableTextProps {
   text: string;
@@ -6,6 +7,9 @@ interface HighlightableTextProps {
     charIndex: number; // Current character index being spoken
     isActive: boolean; // Whether TTS is currently active
   };
+  searchMatch?: { start: number; end: number } | null; // Search hit to mark and scroll to
+  onSentenceClick?: (start: number) => void; // Start offset of a clicked sentence
+  onContextMenu?: (event: React.MouseEvent<HTMLDivElement>) => void;
 }
 
 interface SentenceSegment {
@@ -14,39 +18,15 @@ interface SentenceSegment {
   end: number;
 }
 
-export const HighlightableText: React.FC<HighlightableTextProps> = ({ text, currentInfo }) => {
+export const HighlightableText: React.FC<HighlightableTextProps> = ({ text, currentInfo, searchMatch, onSentenceClick, onContextMenu }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const activeRef = useRef<HTMLSpanElement>(null);
+  const matchRef = useRef<HTMLElement>(null);
 
-  // Split text into sentences with their index ranges
-  const segments = useMemo(() => {
+  // Split text into sentences with their index ranges (shared with chunking and navigation)
+  const segments = useMemo((): SentenceSegment[] => {
     if (!text) return [];
-    
-    // Split by punctuation (.!?) followed by space or newline, capturing the delimiter
-    // This regex keeps the delimiter with the sentence
-    const regex = /([.!?]+[\s\n]+)/; 
-    const parts = text.split(regex);
-    
-    const results: SentenceSegment[] = [];
-    let currentIndex = 0;
-
-    // Reassemble the split parts into coherent sentences
-    // The split output alternates between [sentence_body, delimiter, sentence_body, delimiter...]
-    for (let i = 0; i < parts.length; i += 2) {
-      let sentence = parts[i];
-      const delimiter = parts[i + 1] || ''; // Append delimiter if it exists
-      
-      const fullSentence = sentence + delimiter;
-      if (!fullSentence.trim()) continue;
-
-      results.push({
-        text: fullSentence,
-        start: currentIndex,
-        end: currentIndex + fullSentence.length
-      });
-      currentIndex += fullSentence.length;
-    }
-    return results;
+    return getSentenceRanges(text).map(([start, end]) => ({ text: text.substring(start, end), start, end }));
   }, [text]);
 
   // Auto-scroll to the active sentence
@@ -59,12 +39,41 @@ export const HighlightableText: React.FC<HighlightableTextProps> = ({ text, curr
     }
   }, [currentInfo.charIndex, currentInfo.isActive]);
 
+  // Bring a newly selected search hit into view
+  useEffect(() => {
+    if (searchMatch && matchRef.current) {
+      matchRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [searchMatch?.start, searchMatch?.end, text]);
+
+  // Wraps the part of a segment covered by the search match in a <mark>
+  const renderSegmentText = (segment: SentenceSegment) => {
+    if (!searchMatch || searchMatch.end <= segment.start || searchMatch.start >= segment.end) {
+      return segment.text;
+    }
+    const from = Math.max(searchMatch.start, segment.start) - segment.start;
+    const to = Math.min(searchMatch.end, segment.end) - segment.start;
+    return (
+      <>
+        {segment.text.substring(0, from)}
+        <mark ref={matchRef} className="bg-orange-200 text-gray-900 rounded-sm">{segment.text.substring(from, to)}</mark>
+        {segment.text.substring(to)}
+      </>
+    );
+  };
+
+  const handleSentenceClick = (segment: SentenceSegment) => {
+    // Ignore the click that ends a text selection
+    if (!onSentenceClick || window.getSelection()?.isCollapsed === false) return;
+    onSentenceClick(segment.start + Math.max(0, segment.text.search(/\S/)));
+  };
+
   if (!text) {
     return <span className="italic text-gray-400">Waiting for text...</span>;
   }
 
   return (
-    <div ref={containerRef} className="text-gray-700 leading-relaxed font-serif text-lg whitespace-pre-wrap">
+    <div ref={containerRef} onContextMenu={onContextMenu} className="text-gray-700 leading-relaxed font-serif text-lg whitespace-pre-wrap">
       {segments.map((segment, idx) => {
         // Check if current char index falls within this segment
         const isCurrent = currentInfo.isActive && 
@@ -75,11 +84,13 @@ export const HighlightableText: React.FC<HighlightableTextProps> = ({ text, curr
           <span 
             key={idx} 
             ref={isCurrent ? activeRef : null}
+            data-text-start={segment.start}
+            onClick={() => handleSentenceClick(segment)}
             className={`transition-colors duration-200 rounded px-1 -mx-1 ${
-              isCurrent ? 'bg-yellow-200 text-gray-900 shadow-sm font-medium' : ''
+              isCurrent ? 'bg-yellow-200 text-gray-900 shadow-sm font-medium' : onSentenceClick ? 'cursor-pointer hover:bg-gray-100' : ''
             }`}
           >
-            {segment.text}
+            {renderSegmentText(segment)}
           </span>
         );
       })}
@@ -0,0 +1,41 @@
+import React from 'react';
+import { OcrPageLayout } from '../types';
+
+interface OcrTextLayerProps {
+  layout: OcrPageLayout;
+}
+
+// Coordinate space of the overlay; boxes are page fractions, scaled up to keep SVG text sizes sane
+const VIEW_SIZE = 1000;
+
+/**
+ * Transparent, selectable OCR text drawn over the page canvas.
+ * The SVG stretches with the canvas, and each line is squeezed to its box with
+ * textLength, so selections line up with the scanned glyphs at any size.
+ */
+export const OcrTextLayer: React.FC<OcrTextLayerProps> = ({ layout }) => {
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full"
+      viewBox={`0 0 ${VIEW_SIZE} ${VIEW_SIZE}`}
+      preserveAspectRatio="none"
+    >
+      {layout.lines.map((line, i) => (
+        <text
+          key={i}
+          data-text-start={line.start}
+          x={line.box.x * VIEW_SIZE}
+          y={(line.box.y + line.box.height * 0.8) * VIEW_SIZE}
+          fontSize={line.box.height * VIEW_SIZE}
+          textLength={line.box.width * VIEW_SIZE}
+          lengthAdjust="spacingAndGlyphs"
+          fill="transparent"
+          className="cursor-text"
+          style={{ userSelect: 'text' }}
+        >
+          {line.text}
+        </text>
+      ))}
+    </svg>
+  );
+};
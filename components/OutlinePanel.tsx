@@ -0,0 +1,47 @@
+import React from 'react';
+import { PlayCircle } from 'lucide-react';
+import { FlatOutlineItem } from '../types';
+
+interface OutlinePanelProps {
+  entries: FlatOutlineItem[];
+  activeEntry: FlatOutlineItem | null; // Entry containing the current page
+  onNavigate: (pageNumber: number) => void;
+  onReadChapter: (index: number) => void;
+}
+
+export const OutlinePanel: React.FC<OutlinePanelProps> = ({ entries, activeEntry, onNavigate, onReadChapter }) => {
+  if (entries.length === 0) {
+    return <p className="p-6 text-sm italic text-gray-400">This document has no table of contents.</p>;
+  }
+
+  return (
+    <ul className="h-full overflow-y-auto py-2">
+      {entries.map((entry, index) => {
+        const isActive = entry === activeEntry;
+        return (
+          <li
+            key={index}
+            className={`group flex items-center gap-1 pr-2 ${isActive ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+            style={{ paddingLeft: `${1 + entry.depth}rem` }}
+          >
+            <button
+              onClick={() => onNavigate(entry.pageNumber)}
+              className={`flex-1 flex items-baseline gap-2 py-2 text-left text-sm min-w-0 ${isActive ? 'text-indigo-700 font-medium' : 'text-slate-700'}`}
+            >
+              <span className="truncate">{entry.title}</span>
+              <span className="ml-auto text-xs text-gray-400 shrink-0">{entry.pageNumber}</span>
+            </button>
+            <button
+              onClick={() => onReadChapter(index)}
+              className="p-1 rounded text-indigo-600 opacity-0 group-hover:opacity-100 hover:bg-indigo-100"
+              title="Read this chapter"
+              aria-label={`Read ${entry.title}`}
+            >
+              <PlayCircle size={16} />
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
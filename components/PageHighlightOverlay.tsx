@@ -0,0 +1,67 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { PositionedText, TextBox } from '../types';
+import { findSentenceRange } from '../services/sentenceSegmenter';
+import { findWordRange, getRangeBoxes } from '../services/textHighlight';
+
+interface PageHighlightOverlayProps {
+  text: string;
+  items: PositionedText[]; // Ranges of `text` with their boxes on the page
+  highlightIndex: number | null; // Character being read, or null when not reading
+}
+
+// Boxes are page fractions, so percentages keep them on the glyphs at any render scale
+const toStyle = (box: TextBox): React.CSSProperties => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`,
+});
+
+/**
+ * Marks the sentence and word being read directly on the rendered page, and keeps
+ * the sentence scrolled into view as reading moves down the page.
+ */
+export const PageHighlightOverlay: React.FC<PageHighlightOverlayProps> = ({ text, items, highlightIndex }) => {
+  const sentenceRef = useRef<HTMLDivElement>(null);
+
+  const sentence = useMemo(
+    () => highlightIndex === null ? null : findSentenceRange(text, highlightIndex),
+    [text, highlightIndex]
+  );
+  const sentenceBoxes = useMemo(
+    () => sentence ? getRangeBoxes(items, sentence[0], sentence[1]) : [],
+    // Recompute only when the sentence changes, not on every word
+    [items, sentence?.[0], sentence?.[1]]
+  );
+  const wordBoxes = useMemo(() => {
+    if (highlightIndex === null) return [];
+    const [start, end] = findWordRange(text, highlightIndex);
+    return getRangeBoxes(items, start, end);
+  }, [text, items, highlightIndex]);
+
+  useEffect(() => {
+    sentenceRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [sentenceBoxes]);
+
+  if (sentenceBoxes.length === 0 && wordBoxes.length === 0) return null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {sentenceBoxes.map((box, i) => (
+        <div
+          key={`s${i}`}
+          ref={i === 0 ? sentenceRef : undefined}
+          className="absolute bg-yellow-200/40 rounded-sm transition-all duration-200"
+          style={toStyle(box)}
+        />
+      ))}
+      {wordBoxes.map((box, i) => (
+        <div
+          key={`w${i}`}
+          className="absolute bg-yellow-400/40 rounded-sm transition-all duration-100"
+          style={toStyle(box)}
+        />
+      ))}
+    </div>
+  );
+};
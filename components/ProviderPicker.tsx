@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { AudioLines, Settings } from 'lucide-react';
+import { TTSProvider } from '../types';
+import { ProviderSettingsDialog } from './ProviderSettingsDialog';
+
+interface ProviderPickerProps {
+  providers: TTSProvider[];
+  providerId: string;
+  onChange: (providerId: string) => void;
+  disabled: boolean;
+}
+
+export const ProviderPicker: React.FC<ProviderPickerProps> = ({ providers, providerId, onChange, disabled }) => {
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const active = providers.find(p => p.id === providerId);
+
+  return (
+    <div className="flex items-center space-x-2">
+      <div className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium border ${
+        active?.kind === 'audio'
+        ? 'bg-purple-100 text-purple-800 border-purple-200'
+        : 'bg-white text-gray-700 border-gray-300'
+      }`}>
+        <AudioLines size={18} />
+        <select
+          value={providerId}
+          onChange={e => onChange(e.target.value)}
+          disabled={disabled}
+          className="bg-transparent outline-none cursor-pointer disabled:cursor-default"
+          aria-label="Voice provider"
+        >
+          {providers.map(p => (
+            <option key={p.id} value={p.id}>
+              {p.label}{p.isAvailable() ? '' : ' (not configured)'}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {active?.settings && (
+        <button
+          onClick={() => setIsSettingsOpen(true)}
+          className="p-2 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50"
+          aria-label={`${active.label} settings`}
+        >
+          <Settings size={18} />
+        </button>
+      )}
+
+      {isSettingsOpen && active && (
+        <ProviderSettingsDialog provider={active} onClose={() => setIsSettingsOpen(false)} />
+      )}
+    </div>
+  );
+};
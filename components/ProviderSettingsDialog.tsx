@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { TTSProvider } from '../types';
+
+interface ProviderSettingsDialogProps {
+  provider: TTSProvider;
+  onClose: () => void;
+}
+
+// Renders a provider's declared settings fields, so new backends need no custom UI
+export const ProviderSettingsDialog: React.FC<ProviderSettingsDialogProps> = ({ provider, onClose }) => {
+  const settings = provider.settings;
+  const [values, setValues] = useState<Record<string, string>>(() => settings?.load() ?? {});
+
+  if (!settings) return null;
+
+  const handleSave = () => {
+    settings.save(values);
+    onClose();
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-md p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-semibold text-slate-800">{provider.label} Settings</h2>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100" aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {settings.fields.map(field => (
+            <label key={field.key} className="block text-sm">
+              <span className="text-gray-700 font-medium">{field.label}</span>
+              {field.type === 'select' ? (
+                <select
+                  value={values[field.key] ?? ''}
+                  onChange={e => setValues(v => ({ ...v, [field.key]: e.target.value }))}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 bg-white"
+                >
+                  {field.options?.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+              ) : (
+                <input
+                  type={field.type}
+                  value={values[field.key] ?? ''}
+                  placeholder={field.placeholder}
+                  onChange={e => setValues(v => ({ ...v, [field.key]: e.target.value }))}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              )}
+              {field.hint && <span className="block mt-1 text-xs text-gray-400">{field.hint}</span>}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button onClick={onClose} className="px-4 py-2 text-sm rounded-md border border-gray-300 hover:bg-gray-50">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="px-4 py-2 text-sm rounded-md bg-indigo-600 text-white hover:bg-indigo-700">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
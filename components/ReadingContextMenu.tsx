@@ -0,0 +1,93 @@
+import React, { useEffect, useRef } from 'react';
+import { Pilcrow, Play, TextSelect } from 'lucide-react';
+
+interface ReadingContextMenuProps {
+  x: number; // Viewport position of the click
+  y: number;
+  canReadSelection: boolean;
+  onReadFrom: () => void;
+  onReadParagraph: () => void;
+  onReadSelection: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Character offset in the page text of a DOM position. Uses the nearest element tagged with
+ * data-text-start (sentences in the text view, OCR lines on the page) as the reference point.
+ */
+export const getTextOffset = (node: Node, offset: number): number | null => {
+  const element = (node instanceof Element ? node : node.parentElement)?.closest('[data-text-start]') as HTMLElement | SVGElement | null;
+  if (!element) return null;
+  const range = document.createRange();
+  range.setStart(element, 0);
+  range.setEnd(node, offset);
+  return Number(element.dataset.textStart) + range.toString().length;
+};
+
+/**
+ * Page text range of the current selection, if it lies within `container`
+ */
+export const getSelectionOffsets = (container: Element): [number, number] | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!container.contains(range.commonAncestorContainer)) return null;
+
+  const start = getTextOffset(range.startContainer, range.startOffset);
+  const end = getTextOffset(range.endContainer, range.endOffset);
+  return start !== null && end !== null && end > start ? [start, end] : null;
+};
+
+export const ReadingContextMenu: React.FC<ReadingContextMenuProps> = ({
+  x,
+  y,
+  canReadSelection,
+  onReadFrom,
+  onReadParagraph,
+  onReadSelection,
+  onClose
+}) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on any outside click, Escape, or scrolling (which would leave the menu detached)
+  useEffect(() => {
+    const handlePointer = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('mousedown', handlePointer);
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('scroll', onClose, true);
+    window.addEventListener('resize', onClose);
+    return () => {
+      window.removeEventListener('mousedown', handlePointer);
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('scroll', onClose, true);
+      window.removeEventListener('resize', onClose);
+    };
+  }, [onClose]);
+
+  const itemClass = 'w-full flex items-center gap-2 px-3 py-2 text-sm text-left hover:bg-indigo-50 disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      className="fixed z-50 w-56 bg-white rounded-md shadow-xl border border-gray-200 py-1"
+      // Keep the menu on screen near the right and bottom edges
+      style={{ left: Math.min(x, window.innerWidth - 232), top: Math.min(y, window.innerHeight - 140) }}
+    >
+      <button role="menuitem" onClick={onReadFrom} className={itemClass}>
+        <Play size={14} className="text-indigo-600" /> Read from here
+      </button>
+      <button role="menuitem" onClick={onReadParagraph} className={itemClass}>
+        <Pilcrow size={14} className="text-indigo-600" /> Read only this paragraph
+      </button>
+      <button role="menuitem" onClick={onReadSelection} disabled={!canReadSelection} className={itemClass}>
+        <TextSelect size={14} className="text-indigo-600" /> Read selection
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Search, Play } from 'lucide-react';
+import { SearchHit } from '../types';
+
+interface SearchPanelProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  hits: SearchHit[];
+  activeIndex: number | null;
+  indexedPages: number; // Background indexing progress
+  totalPages: number;
+  onSelect: (index: number) => void;
+  onReadFrom: (hit: SearchHit) => void;
+}
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({
+  query,
+  onQueryChange,
+  hits,
+  activeIndex,
+  indexedPages,
+  totalPages,
+  onSelect,
+  onReadFrom
+}) => {
+  const isIndexing = indexedPages < totalPages;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-gray-100">
+        <div className="flex items-center gap-2 border border-gray-300 rounded-md px-3 py-2 focus-within:ring-2 focus-within:ring-indigo-200">
+          <Search size={16} className="text-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={e => onQueryChange(e.target.value)}
+            placeholder="Search document"
+            className="flex-1 text-sm outline-none bg-transparent"
+            autoFocus
+          />
+        </div>
+        <p className="mt-2 text-xs text-gray-400">
+          {query.trim() ? `${hits.length} ${hits.length === 1 ? 'match' : 'matches'}` : 'Type to search all pages'}
+          {isIndexing && ` · indexing ${indexedPages}/${totalPages} pages`}
+        </p>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+        {hits.map((hit, index) => (
+          <li
+            key={`${hit.pageNumber}:${hit.start}`}
+            className={`group flex items-start gap-2 px-4 py-3 ${index === activeIndex ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+          >
+            <button onClick={() => onSelect(index)} className="flex-1 text-left min-w-0">
+              <span className="block text-xs text-gray-400 mb-1">Page {hit.pageNumber}</span>
+              <span className="text-sm text-gray-600 break-words">
+                {hit.snippet.substring(0, hit.snippetMatchStart)}
+                <mark className="bg-orange-200 text-gray-900 rounded-sm">{hit.snippet.substring(hit.snippetMatchStart, hit.snippetMatchEnd)}</mark>
+                {hit.snippet.substring(hit.snippetMatchEnd)}
+              </span>
+            </button>
+            <button
+              onClick={() => onReadFrom(hit)}
+              className="p-1 rounded text-indigo-600 opacity-0 group-hover:opacity-100 hover:bg-indigo-100"
+              title="Read from here"
+              aria-label={`Read from match on page ${hit.pageNumber}`}
+            >
+              <Play size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React, { useEffect } from 'react';
+import { X } from 'lucide-react';
+import { keyboardShortcuts } from '../data/keyboardShortcuts';
+
+interface ShortcutsDialogProps {
+  onClose: () => void;
+}
+
+export const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({ onClose }) => {
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-md p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-semibold text-slate-800">Keyboard Shortcuts</h2>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100" aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <dl className="divide-y divide-gray-100 text-sm">
+          {keyboardShortcuts.map(shortcut => (
+            <div key={shortcut.description} className="flex items-center justify-between py-2">
+              <dt className="text-gray-600">{shortcut.description}</dt>
+              <dd className="flex gap-1">
+                {shortcut.keys.map(key => (
+                  <kbd key={key} className="px-2 py-0.5 text-xs font-mono bg-gray-100 border border-gray-300 rounded">
+                    {key}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
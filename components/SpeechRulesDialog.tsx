@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { PronunciationRule, SpeechNormalizationSettings } from '../types';
+import { createSpeechNormalizer, compilePronunciationRule } from '../services/speechNormalizer';
+
+interface SpeechRulesDialogProps {
+  settings: SpeechNormalizationSettings;
+  documentRules: PronunciationRule[];
+  hasDocument: boolean; // Document entries can only be added with a document open
+  sampleText: string; // Prefills the preview, e.g. the current page
+  language: string | null; // Language the preview is normalized for
+  onSave: (settings: SpeechNormalizationSettings, documentRules: PronunciationRule[]) => void;
+  onClose: () => void;
+}
+
+type Scope = 'document' | 'global';
+
+const STEPS: Array<{ key: Exclude<keyof SpeechNormalizationSettings, 'pronunciations'>; label: string; hint: string }> = [
+  { key: 'stripCitations', label: 'Skip citations', hint: '[12], (Smith et al., 2019) and superscript note numbers' },
+  { key: 'stripUrls', label: 'Shorten links', hint: 'URLs are read as their site name; DOIs are skipped' },
+  { key: 'expandAbbreviations', label: 'Expand abbreviations', hint: '"et al.", "Fig.", "e.g." and the like' },
+  { key: 'expandNumbers', label: 'Spell out numbers', hint: 'Numbers, years, dates and units (English, German, French, Spanish, Chinese)' },
+  { key: 'fixLigatures', label: 'Fix ligatures', hint: 'ﬁ, ﬂ and invisible characters left over from the PDF' },
+];
+
+// Sample shown in the preview until the user types their own
+const PREVIEW_LENGTH = 400;
+
+/**
+ * Settings for what is done to page text before it is spoken, with a pronunciation
+ * dictionary and a live preview of the result. Nothing changes until Save.
+ */
+export const SpeechRulesDialog: React.FC<SpeechRulesDialogProps> = ({
+  settings,
+  documentRules,
+  hasDocument,
+  sampleText,
+  language,
+  onSave,
+  onClose
+}) => {
+  const [draft, setDraft] = useState(settings);
+  const [rules, setRules] = useState<Array<PronunciationRule & { scope: Scope }>>(() => [
+    ...documentRules.map(rule => ({ ...rule, scope: 'document' as Scope })),
+    ...settings.pronunciations.map(rule => ({ ...rule, scope: 'global' as Scope })),
+  ]);
+  const [preview, setPreview] = useState(() => sampleText.slice(0, PREVIEW_LENGTH));
+
+  const draftSettings = (): [SpeechNormalizationSettings, PronunciationRule[]] => {
+    const strip = ({ scope, ...rule }: PronunciationRule & { scope: Scope }): PronunciationRule => rule;
+    return [
+      { ...draft, pronunciations: rules.filter(rule => rule.scope === 'global').map(strip) },
+      rules.filter(rule => rule.scope === 'document').map(strip),
+    ];
+  };
+
+  const spoken = useMemo(() => {
+    const [nextSettings, nextDocumentRules] = draftSettings();
+    return createSpeechNormalizer(nextSettings, nextDocumentRules)(preview, language).text;
+  }, [draft, rules, preview, language]);
+
+  const updateRule = (id: string, patch: Partial<PronunciationRule & { scope: Scope }>) => {
+    setRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...patch } : rule));
+  };
+
+  const addRule = () => {
+    setRules(prev => [
+      ...prev,
+      { id: crypto.randomUUID(), pattern: '', replacement: '', caseSensitive: false, scope: hasDocument ? 'document' : 'global' },
+    ]);
+  };
+
+  const handleSave = () => {
+    const [nextSettings, nextDocumentRules] = draftSettings();
+    onSave(nextSettings, nextDocumentRules);
+    onClose();
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 pt-6 pb-4">
+          <h2 className="font-semibold text-slate-800">Reading Rules</h2>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100" aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 space-y-6 text-sm">
+          <section className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {STEPS.map(step => (
+              <label key={step.key} className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft[step.key]}
+                  onChange={e => setDraft(d => ({ ...d, [step.key]: e.target.checked }))}
+                  className="mt-0.5 accent-indigo-600"
+                />
+                <span className="text-gray-700">
+                  {step.label}
+                  <span className="block text-xs text-gray-400">{step.hint}</span>
+                </span>
+              </label>
+            ))}
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium text-gray-700">Pronunciations</h3>
+              <button onClick={addRule} className="flex items-center gap-1 text-xs text-indigo-700 hover:underline">
+                <Plus size={14} /> Add
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-gray-400">
+              Patterns are regular expressions; the replacement may use $1, $2… Entries for this document come first.
+            </p>
+
+            {rules.length === 0 ? (
+              <p className="mt-3 text-xs text-gray-400 italic">No pronunciations yet.</p>
+            ) : (
+              <ul className="mt-3 space-y-2">
+                {rules.map(rule => {
+                  const isInvalid = !!rule.pattern && !compilePronunciationRule(rule);
+                  return (
+                    <li key={rule.id} className="flex items-center gap-2">
+                      <input
+                        value={rule.pattern}
+                        onChange={e => updateRule(rule.id, { pattern: e.target.value })}
+                        placeholder="Pattern, e.g. \bSQL\b"
+                        aria-label="Pattern"
+                        aria-invalid={isInvalid}
+                        title={isInvalid ? 'Not a valid regular expression' : undefined}
+                        className={`flex-1 min-w-0 border rounded-md px-2 py-1.5 font-mono text-xs ${isInvalid ? 'border-red-400 bg-red-50' : 'border-gray-300'}`}
+                      />
+                      <input
+                        value={rule.replacement}
+                        onChange={e => updateRule(rule.id, { replacement: e.target.value })}
+                        placeholder="Say as"
+                        aria-label="Replacement"
+                        className="flex-1 min-w-0 border border-gray-300 rounded-md px-2 py-1.5 text-xs"
+                      />
+                      <label className="flex items-center gap-1 text-xs text-gray-500 shrink-0" title="Match case">
+                        <input
+                          type="checkbox"
+                          checked={rule.caseSensitive}
+                          onChange={e => updateRule(rule.id, { caseSensitive: e.target.checked })}
+                          className="accent-indigo-600"
+                        />
+                        Aa
+                      </label>
+                      <select
+                        value={rule.scope}
+                        onChange={e => updateRule(rule.id, { scope: e.target.value as Scope })}
+                        aria-label="Applies to"
+                        className="border border-gray-300 rounded-md px-1 py-1.5 bg-white text-xs shrink-0"
+                      >
+                        <option value="document" disabled={!hasDocument}>This document</option>
+                        <option value="global">All documents</option>
+                      </select>
+                      <button
+                        onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))}
+                        className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 shrink-0"
+                        aria-label="Delete pronunciation"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+
+          <section className="pb-2">
+            <h3 className="font-medium text-gray-700">Preview</h3>
+            <textarea
+              value={preview}
+              onChange={e => setPreview(e.target.value)}
+              rows={4}
+              placeholder="Type some text to hear how it will be read"
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-xs"
+            />
+            <p className="mt-2 text-xs text-gray-500">Spoken as{language ? ` (${language})` : ''}:</p>
+            <p className="mt-1 p-3 bg-slate-50 rounded-md text-xs text-slate-700 whitespace-pre-wrap min-h-[3rem]">{spoken}</p>
+          </section>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-100">
+          <button onClick={onClose} className="px-4 py-2 text-sm rounded-md border border-gray-300 hover:bg-gray-50">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="px-4 py-2 text-sm rounded-md bg-indigo-600 text-white hover:bg-indigo-700">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
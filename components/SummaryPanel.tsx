@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Sparkles, Play, Square, ChevronDown, ChevronRight } from 'lucide-react';
+import { SummarySection, DocumentSummary } from '../types';
+import { SummaryProgress } from '../services/summarizer';
+
+// What the summary track is playing: the whole track, or one section
+export type SummaryTrack = 'all' | string;
+
+interface SummaryPanelProps {
+  sections: SummarySection[];
+  summary: DocumentSummary | null;
+  progress: SummaryProgress | null; // Set while summaries are being generated
+  canSummarize: boolean; // False without an API key
+  playing: SummaryTrack | null;
+  onSummarize: () => void;
+  onCancel: () => void;
+  onPlay: (track: SummaryTrack) => void;
+  onStop: () => void;
+  onNavigate: (pageNumber: number) => void;
+}
+
+export const SummaryPanel: React.FC<SummaryPanelProps> = ({
+  sections,
+  summary,
+  progress,
+  canSummarize,
+  playing,
+  onSummarize,
+  onCancel,
+  onPlay,
+  onStop,
+  onNavigate
+}) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const isComplete = !!summary?.overview && sections.every(section => summary.sections[section.id]);
+  const isStarted = !!summary && Object.keys(summary.sections).length > 0;
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const playButton = (track: SummaryTrack, label: string) => playing === track ? (
+    <button onClick={onStop} className="p-1 rounded text-indigo-600 hover:bg-indigo-100 shrink-0" aria-label={`Stop ${label}`}>
+      <Square size={14} />
+    </button>
+  ) : (
+    <button onClick={() => onPlay(track)} className="p-1 rounded text-indigo-600 hover:bg-indigo-100 shrink-0" aria-label={`Listen to ${label}`}>
+      <Play size={14} />
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-gray-100">
+        {progress ? (
+          <div>
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span className="truncate">Summarizing {progress.label}…</span>
+              <button onClick={onCancel} className="text-indigo-700 hover:underline shrink-0 ml-2">Cancel</button>
+            </div>
+            <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-indigo-500 transition-all"
+                style={{ width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        ) : isComplete ? (
+          <button
+            onClick={() => playing === 'all' ? onStop() : onPlay('all')}
+            className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-2 rounded-md text-sm font-medium"
+          >
+            {playing === 'all' ? <><Square size={16} /> Stop summary</> : <><Play size={16} /> Listen to summary</>}
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={onSummarize}
+              disabled={!canSummarize}
+              className="w-full flex items-center justify-center gap-2 border border-dashed border-indigo-300 text-indigo-700 hover:bg-indigo-50 px-3 py-2 rounded-md text-sm font-medium disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              <Sparkles size={16} /> {isStarted ? 'Finish summary' : 'Summarize document'}
+            </button>
+            <p className="mt-2 text-xs text-gray-400">
+              {canSummarize
+                ? 'Every page is sent to Gemini once; summaries are kept for this document.'
+                : 'Summaries need a Gemini API key.'}
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {summary?.overview && (
+          <section className="px-4 py-3 border-b border-gray-100">
+            <h3 className="font-semibold text-xs uppercase tracking-wider text-gray-500">Overview</h3>
+            <p className="mt-1 text-sm text-slate-700 leading-relaxed">{summary.overview}</p>
+          </section>
+        )}
+
+        <ul className="divide-y divide-gray-100">
+          {sections.map(section => {
+            const text = summary?.sections[section.id];
+            const pages: number[] = [];
+            for (let n = section.startPage; n <= section.endPage; n++) {
+              if (summary?.pages[n]) pages.push(n);
+            }
+            if (!text && pages.length === 0) return null;
+            const isExpanded = expanded.has(section.id);
+
+            return (
+              <li key={section.id} className={`px-4 py-3 ${playing === section.id ? 'bg-indigo-50' : ''}`}>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onNavigate(section.startPage)}
+                    className="flex-1 flex items-baseline gap-2 text-left min-w-0"
+                  >
+                    <span className="font-medium text-sm text-slate-800 truncate">{section.title}</span>
+                    <span className="ml-auto text-xs text-gray-400 shrink-0">
+                      {section.startPage === section.endPage ? `p. ${section.startPage}` : `pp. ${section.startPage}-${section.endPage}`}
+                    </span>
+                  </button>
+                  {text && playButton(section.id, section.title)}
+                </div>
+                {text && <p className="mt-1 text-sm text-slate-600 leading-relaxed">{text}</p>}
+
+                {pages.length > 0 && (
+                  <button
+                    onClick={() => toggleExpanded(section.id)}
+                    className="mt-2 flex items-center gap-1 text-xs text-indigo-700 hover:underline"
+                    aria-expanded={isExpanded}
+                  >
+                    {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />} Page summaries
+                  </button>
+                )}
+                {isExpanded && (
+                  <ul className="mt-2 space-y-2 border-l-2 border-indigo-100 pl-3">
+                    {pages.map(n => (
+                      <li key={n}>
+                        <button onClick={() => onNavigate(n)} className="text-xs font-medium text-gray-500 hover:text-indigo-700">
+                          Page {n}
+                        </button>
+                        <p className="text-xs text-slate-600 leading-relaxed">{summary!.pages[n]}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
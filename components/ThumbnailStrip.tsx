@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PDFDocumentProxy } from '../types';
+import { renderPageToCanvas, getPageSize } from '../services/pdfService';
+
+interface ThumbnailStripProps {
+  doc: PDFDocumentProxy;
+  currentPage: number;
+  pageAspect: number; // Height / width assumed for thumbnails not rendered yet
+  onSelect: (pageNumber: number) => void;
+}
+
+// Thumbnail width in CSS pixels
+const THUMBNAIL_WIDTH = 96;
+
+/**
+ * Helper: Renders a small JPEG of a page and returns an object URL for it
+ */
+const renderThumbnail = async (doc: PDFDocumentProxy, pageNumber: number): Promise<string> => {
+  const page = await doc.getPage(pageNumber);
+  const scale = (THUMBNAIL_WIDTH * (window.devicePixelRatio || 1)) / getPageSize(page).width;
+  const canvas = document.createElement('canvas');
+  await renderPageToCanvas(page, canvas, scale);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.7));
+  // Release the bitmap right away instead of waiting for GC
+  canvas.width = 0;
+  canvas.height = 0;
+  if (!blob) throw new Error('Failed to encode thumbnail');
+  return URL.createObjectURL(blob);
+};
+
+/**
+ * Page thumbnails for jumping around the document. Thumbnails are rendered one at a time as
+ * they scroll into view and kept as small JPEGs, so even long documents stay cheap.
+ */
+export const ThumbnailStrip: React.FC<ThumbnailStripProps> = ({ doc, currentPage, pageAspect, onSelect }) => {
+  const stripRef = useRef<HTMLDivElement>(null);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+
+  // Render queue; restarted (and the old thumbnails dropped) when the document changes
+  useEffect(() => {
+    const strip = stripRef.current;
+    if (!strip) return;
+    let disposed = false;
+    const urls: string[] = [];
+    const queue: number[] = [];
+    const requested = new Set<number>();
+    let running = false;
+
+    const drain = async () => {
+      if (running) return;
+      running = true;
+      while (queue.length > 0 && !disposed) {
+        const pageNumber = queue.shift()!;
+        try {
+          const url = await renderThumbnail(doc, pageNumber);
+          if (disposed) {
+            URL.revokeObjectURL(url);
+            break;
+          }
+          urls.push(url);
+          setThumbnails(prev => ({ ...prev, [pageNumber]: url }));
+        } catch (err) {
+          console.warn(`Failed to render thumbnail for page ${pageNumber}`, err);
+        }
+      }
+      running = false;
+    };
+
+    const observer = new IntersectionObserver(entries => {
+      for (const entry of entries) {
+        if (!entry.isIntersecting) continue;
+        const pageNumber = Number((entry.target as HTMLElement).dataset.pageNumber);
+        if (requested.has(pageNumber)) continue;
+        requested.add(pageNumber);
+        queue.push(pageNumber);
+        observer.unobserve(entry.target);
+      }
+      drain();
+    }, { root: strip, rootMargin: '300px 0px' });
+
+    strip.querySelectorAll('[data-page-number]').forEach(element => observer.observe(element));
+
+    return () => {
+      disposed = true;
+      observer.disconnect();
+      urls.forEach(url => URL.revokeObjectURL(url));
+      setThumbnails({});
+    };
+  }, [doc]);
+
+  useEffect(() => {
+    stripRef.current
+      ?.querySelector(`[data-page-number="${currentPage}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [currentPage]);
+
+  return (
+    <div ref={stripRef} className="w-36 shrink-0 bg-slate-100 border-r border-gray-200 overflow-y-auto py-4 flex flex-col items-center gap-3">
+      {Array.from({ length: doc.numPages }, (_, i) => {
+        const pageNumber = i + 1;
+        const isCurrent = pageNumber === currentPage;
+        return (
+          <button
+            key={pageNumber}
+            data-page-number={pageNumber}
+            onClick={() => onSelect(pageNumber)}
+            className="flex flex-col items-center gap-1 shrink-0"
+            aria-label={`Go to page ${pageNumber}`}
+            aria-current={isCurrent ? 'page' : undefined}
+          >
+            <div
+              className={`bg-white shadow border-2 ${isCurrent ? 'border-indigo-500' : 'border-transparent hover:border-indigo-200'}`}
+              style={{ width: THUMBNAIL_WIDTH, minHeight: thumbnails[pageNumber] ? undefined : THUMBNAIL_WIDTH * pageAspect }}
+            >
+              {thumbnails[pageNumber] && <img src={thumbnails[pageNumber]} alt="" className="block w-full" />}
+            </div>
+            <span className={`text-xs ${isCurrent ? 'text-indigo-700 font-medium' : 'text-gray-500'}`}>{pageNumber}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
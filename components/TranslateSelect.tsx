@@ -0,0 +1,30 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { translationLanguages } from '../data/translationLanguages';
+
+interface TranslateSelectProps {
+  targetLang: string | null; // Null when reading the original
+  disabled: boolean; // E.g. without an API key
+  onChange: (targetLang: string | null) => void;
+}
+
+export const TranslateSelect: React.FC<TranslateSelectProps> = ({ targetLang, disabled, onChange }) => (
+  <label
+    className={`flex items-center gap-2 border border-gray-300 rounded-md px-3 py-2 text-sm text-slate-700 ${disabled ? 'opacity-40' : ''}`}
+    title={disabled ? 'Translation needs a Gemini API key' : 'Translate and read'}
+  >
+    <Languages size={16} />
+    <select
+      value={targetLang ?? ''}
+      onChange={e => onChange(e.target.value || null)}
+      disabled={disabled}
+      className="bg-transparent outline-none cursor-pointer"
+      aria-label="Translate to"
+    >
+      <option value="">Original</option>
+      {translationLanguages.map(language => (
+        <option key={language.code} value={language.code}>{language.label}</option>
+      ))}
+    </select>
+  </label>
+);
@@ -0,0 +1,47 @@
+import React from 'react';
+import { File, Rows3, PanelLeft } from 'lucide-react';
+import { ViewMode } from '../types';
+
+interface ViewModeControlsProps {
+  viewMode: ViewMode;
+  showThumbnails: boolean;
+  onViewModeChange: (mode: ViewMode) => void;
+  onToggleThumbnails: () => void;
+}
+
+export const ViewModeControls: React.FC<ViewModeControlsProps> = ({ viewMode, showThumbnails, onViewModeChange, onToggleThumbnails }) => {
+  const buttonClass = (active: boolean) =>
+    `p-2 ${active ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50'}`;
+
+  return (
+    <div className="flex items-center border border-gray-300 rounded-md text-slate-700 divide-x divide-gray-300 overflow-hidden">
+      <button
+        onClick={() => onViewModeChange('single')}
+        className={buttonClass(viewMode === 'single')}
+        title="Single page"
+        aria-label="Single page"
+        aria-pressed={viewMode === 'single'}
+      >
+        <File size={16} />
+      </button>
+      <button
+        onClick={() => onViewModeChange('continuous')}
+        className={buttonClass(viewMode === 'continuous')}
+        title="Continuous scroll"
+        aria-label="Continuous scroll"
+        aria-pressed={viewMode === 'continuous'}
+      >
+        <Rows3 size={16} />
+      </button>
+      <button
+        onClick={onToggleThumbnails}
+        className={buttonClass(showThumbnails)}
+        title="Page thumbnails"
+        aria-label="Page thumbnails"
+        aria-pressed={showThumbnails}
+      >
+        <PanelLeft size={16} />
+      </button>
+    </div>
+  );
+};
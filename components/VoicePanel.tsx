@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { Mic2, X } from 'lucide-react';
+import { TTSProvider, TTSVoice } from '../types';
+import { VoicePreferences } from '../services/voicePreferences';
+import { matchesLanguage } from '../services/languageDetect';
+import { speechStyles } from '../data/speechStyles';
+
+interface VoicePanelProps {
+  provider: TTSProvider;
+  voices: TTSVoice[];
+  prefs: VoicePreferences;
+  onChange: (prefs: VoicePreferences) => void;
+  pageLanguage: string | null;
+  disabled: boolean;
+  onShowSpeechRules: () => void;
+}
+
+const voiceLabel = (voice: TTSVoice) => voice.lang ? `${voice.name} (${voice.lang})` : voice.name;
+
+export const VoicePanel: React.FC<VoicePanelProps> = ({ provider, voices, prefs, onChange, pageLanguage, disabled, onShowSpeechRules }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const selectedVoice = prefs.voices[provider.id] ?? '';
+
+  // Voices for the current page's language are listed first
+  const [matching, others] = useMemo(() => {
+    if (!pageLanguage) return [[], voices];
+    const isMatch = (v: TTSVoice) => !!v.lang && matchesLanguage(v.lang, pageLanguage);
+    return [voices.filter(isMatch), voices.filter(v => !isMatch(v))];
+  }, [voices, pageLanguage]);
+
+  const setVoice = (voiceId: string) => {
+    onChange({ ...prefs, voices: { ...prefs.voices, [provider.id]: voiceId } });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        disabled={disabled}
+        className="p-2 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+        aria-label="Voice settings"
+      >
+        <Mic2 size={18} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 w-80 bg-white border border-gray-200 rounded-lg shadow-2xl p-4 z-30 space-y-4 text-sm">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-700">{provider.label}</h3>
+            <button onClick={() => setIsOpen(false)} className="p-1 rounded hover:bg-gray-100" aria-label="Close">
+              <X size={16} />
+            </button>
+          </div>
+
+          <label className="block">
+            <span className="text-gray-600 font-medium">Voice</span>
+            <select
+              value={selectedVoice}
+              onChange={e => setVoice(e.target.value)}
+              className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 bg-white"
+            >
+              <option value="">Default{provider.defaultVoice ? ` (${provider.defaultVoice})` : ''}</option>
+              {matching.length > 0 && (
+                <optgroup label={`Matches page language (${pageLanguage})`}>
+                  {matching.map(v => <option key={v.id} value={v.id}>{voiceLabel(v)}</option>)}
+                </optgroup>
+              )}
+              <optgroup label={matching.length > 0 ? 'Other voices' : 'Voices'}>
+                {others.map(v => <option key={v.id} value={v.id}>{voiceLabel(v)}</option>)}
+              </optgroup>
+            </select>
+          </label>
+
+          <label className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={prefs.autoLanguage}
+              onChange={e => onChange({ ...prefs, autoLanguage: e.target.checked })}
+              className="mt-0.5 accent-indigo-600"
+            />
+            <span className="text-gray-600">
+              Match voice to page language
+              <span className="block text-xs text-gray-400">
+                Detected: {pageLanguage ?? 'unknown'}. Overrides the voice above when its language differs.
+              </span>
+            </span>
+          </label>
+
+          <label className="block">
+            <span className="text-gray-600 font-medium">Style</span>
+            <select
+              value={prefs.style}
+              onChange={e => onChange({ ...prefs, style: e.target.value })}
+              disabled={!provider.capabilities.styles}
+              className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 bg-white disabled:opacity-50"
+            >
+              {speechStyles.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+            {!provider.capabilities.styles && (
+              <span className="block mt-1 text-xs text-gray-400">Not supported by this provider</span>
+            )}
+          </label>
+
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onShowSpeechRules();
+            }}
+            className="text-xs text-indigo-700 hover:underline"
+          >
+            Reading rules and pronunciations…
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { ZoomLevel } from '../types';
+import { ZOOM_STEPS } from '../services/zoom';
+
+interface ZoomControlsProps {
+  zoom: ZoomLevel;
+  scale: number; // Scale the zoom currently resolves to, 0 before the first page is shown
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onChange: (zoom: ZoomLevel) => void;
+}
+
+export const ZoomControls: React.FC<ZoomControlsProps> = ({ zoom, scale, onZoomIn, onZoomOut, onChange }) => {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+  return (
+    <div className="flex items-center border border-gray-300 rounded-md text-sm text-slate-700">
+      <button
+        onClick={onZoomOut}
+        disabled={scale > 0 && scale <= ZOOM_STEPS[0]}
+        className="p-2 hover:bg-gray-50 disabled:opacity-40"
+        title="Zoom out (-)"
+        aria-label="Zoom out"
+      >
+        <ZoomOut size={16} />
+      </button>
+      <select
+        value={String(zoom)}
+        onChange={e => {
+          const value = e.target.value;
+          onChange(value === 'fit-width' || value === 'fit-page' ? value : parseFloat(value));
+        }}
+        className="bg-transparent border-x border-gray-300 px-2 py-2 outline-none cursor-pointer"
+        aria-label="Zoom"
+      >
+        <option value="fit-width">Fit width{zoom === 'fit-width' && scale > 0 ? ` (${percent(scale)})` : ''}</option>
+        <option value="fit-page">Fit page{zoom === 'fit-page' && scale > 0 ? ` (${percent(scale)})` : ''}</option>
+        {ZOOM_STEPS.map(step => (
+          <option key={step} value={String(step)}>{percent(step)}</option>
+        ))}
+      </select>
+      <button
+        onClick={onZoomIn}
+        disabled={scale >= ZOOM_STEPS[ZOOM_STEPS.length - 1]}
+        className="p-2 hover:bg-gray-50 disabled:opacity-40"
+        title="Zoom in (+)"
+        aria-label="Zoom in"
+      >
+        <ZoomIn size={16} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+// Abbreviations that are followed by more of the same sentence, so a period after them is not
+// a sentence end. Lowercase, without the final period. Keyed by primary language subtag.
+// Abbreviations that often end a sentence too (etc., Inc., et al.) or are also plain words
+// (no., art., mar.) are left out on purpose.
+export const abbreviations: Record<string, string[]> = {
+  en: [
+    'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'rev', 'gen', 'col', 'capt', 'lt', 'sgt', 'hon',
+    'e.g', 'i.e', 'cf', 'vs', 'viz', 'approx', 'ca', 'fig', 'figs', 'eq', 'eqs', 'vol', 'vols',
+    'p', 'pp', 'ch', 'chap', 'sec', 'dept', 'jan', 'feb', 'apr', 'aug', 'sept', 'oct', 'nov', 'dec',
+  ],
+  de: ['z.b', 'bzw', 'ca', 'dr', 'prof', 'hr', 'fr', 'nr', 's', 'vgl', 'u.a', 'd.h', 'z.t', 'u.u', 'bspw', 'ggf', 'inkl', 'evtl', 'abb', 'bd'],
+  fr: ['m', 'mm', 'mme', 'mlle', 'dr', 'pr', 'p', 'cf', 'ex', 'env', 'chap', 'fig', 'vol', 'n°'],
+  es: ['sr', 'sra', 'srta', 'dr', 'dra', 'ud', 'uds', 'ej', 'pág', 'págs', 'cap', 'fig', 'vol', 'núm'],
+  it: ['sig', 'sig.ra', 'dott', 'prof', 'ing', 'avv', 'es', 'pag', 'cap', 'fig', 'vol', 'n'],
+  pt: ['sr', 'sra', 'dr', 'dra', 'prof', 'ex', 'pág', 'cap', 'fig', 'vol', 'n.º'],
+  ru: ['г', 'гг', 'т.е', 'др', 'проф', 'стр', 'рис', 'им', 'см', 'напр'],
+};
+
+export const getAbbreviations = (lang?: string | null): Set<string> => {
+  // English abbreviations show up in most technical text, whatever its language
+  return new Set([...abbreviations.en, ...(lang && lang !== 'en' ? abbreviations[lang] ?? [] : [])]);
+};
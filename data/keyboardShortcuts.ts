@@ -0,0 +1,15 @@
+export interface KeyboardShortcut {
+  keys: string[]; // Alternatives or a pair (back / forward), as shown to the user
+  description: string;
+}
+
+// Shown in the help dialog; the handling itself lives in App's keydown listener
+export const keyboardShortcuts: KeyboardShortcut[] = [
+  { keys: ['Space'], description: 'Play / pause' },
+  { keys: ['←', '→'], description: 'Previous / next sentence' },
+  { keys: ['Shift + ←', 'Shift + →'], description: 'Previous / next paragraph' },
+  { keys: ['J', 'K'], description: 'Back / forward 10 seconds' },
+  { keys: ['[', ']'], description: 'Slower / faster' },
+  { keys: ['-', '+'], description: 'Zoom out / in' },
+  { keys: ['?'], description: 'Show keyboard shortcuts' },
+];
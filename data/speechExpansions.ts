@@ -0,0 +1,334 @@
+// Words the speech normalizer substitutes for abbreviations, units and number punctuation.
+// Keyed by primary language subtag; languages without an entry keep these as written.
+
+export interface AbbreviationExpansion {
+  abbreviation: string; // As written, with its periods; "z. B." also matches "z.B."
+  expansion: string;
+  beforeNumber?: boolean; // Only expanded when a number follows ("p. 12", "No. 3")
+  endsSentences?: boolean; // Often the last word of a sentence, so its period is kept at a sentence break
+}
+
+export interface SpeechLanguage {
+  abbreviations: AbbreviationExpansion[];
+  units: Record<string, [string, string]>; // Symbol -> [singular, plural]
+  currencies: Record<string, [string, string]>; // Symbol (before or after the amount) -> [singular, plural]
+  months: string[]; // January first
+  minus: string;
+  decimalPoint: string; // Spoken between the whole and the fractional digits
+  rangeTo: string; // "3–5" is read "3 <rangeTo> 5"
+  yearCues: string[]; // Words after which a four-digit number is a year ("in 1999"); other ones are read as amounts
+  yearMarker?: string; // Written right after a year, as 年 in Chinese
+  wordSeparator: string; // Between spelled-out words and what surrounds them; empty for Chinese
+  thousandsSeparator: string; // Grouping separator in written numbers; the other of , and . is the decimal point
+}
+
+export const speechLanguages: Record<string, SpeechLanguage> = {
+  en: {
+    abbreviations: [
+      { abbreviation: 'et al.', expansion: 'and colleagues', endsSentences: true },
+      { abbreviation: 'e.g.', expansion: 'for example' },
+      { abbreviation: 'i.e.', expansion: 'that is' },
+      { abbreviation: 'cf.', expansion: 'compare' },
+      { abbreviation: 'vs.', expansion: 'versus' },
+      { abbreviation: 'etc.', expansion: 'et cetera', endsSentences: true },
+      { abbreviation: 'approx.', expansion: 'approximately' },
+      { abbreviation: 'resp.', expansion: 'respectively', endsSentences: true },
+      { abbreviation: 'w.r.t.', expansion: 'with respect to' },
+      { abbreviation: 'Figs.', expansion: 'Figures' },
+      { abbreviation: 'Fig.', expansion: 'Figure' },
+      { abbreviation: 'Eqs.', expansion: 'Equations' },
+      { abbreviation: 'Eq.', expansion: 'Equation' },
+      { abbreviation: 'Tab.', expansion: 'Table', beforeNumber: true },
+      { abbreviation: 'Sec.', expansion: 'Section' },
+      { abbreviation: 'Ch.', expansion: 'Chapter' },
+      { abbreviation: 'Vol.', expansion: 'Volume' },
+      { abbreviation: 'pp.', expansion: 'pages', beforeNumber: true },
+      { abbreviation: 'p.', expansion: 'page', beforeNumber: true },
+      { abbreviation: 'No.', expansion: 'number', beforeNumber: true },
+    ],
+    units: {
+      '%': ['percent', 'percent'],
+      'km/h': ['kilometer per hour', 'kilometers per hour'],
+      'm/s': ['meter per second', 'meters per second'],
+      'mph': ['mile per hour', 'miles per hour'],
+      'km': ['kilometer', 'kilometers'],
+      'm': ['meter', 'meters'],
+      'cm': ['centimeter', 'centimeters'],
+      'mm': ['millimeter', 'millimeters'],
+      'µm': ['micrometer', 'micrometers'],
+      'nm': ['nanometer', 'nanometers'],
+      'kg': ['kilogram', 'kilograms'],
+      'g': ['gram', 'grams'],
+      'mg': ['milligram', 'milligrams'],
+      'µg': ['microgram', 'micrograms'],
+      'L': ['liter', 'liters'],
+      'l': ['liter', 'liters'],
+      'mL': ['milliliter', 'milliliters'],
+      'ml': ['milliliter', 'milliliters'],
+      's': ['second', 'seconds'],
+      'ms': ['millisecond', 'milliseconds'],
+      'µs': ['microsecond', 'microseconds'],
+      'ns': ['nanosecond', 'nanoseconds'],
+      'min': ['minute', 'minutes'],
+      'h': ['hour', 'hours'],
+      'Hz': ['hertz', 'hertz'],
+      'kHz': ['kilohertz', 'kilohertz'],
+      'MHz': ['megahertz', 'megahertz'],
+      'GHz': ['gigahertz', 'gigahertz'],
+      '°C': ['degree Celsius', 'degrees Celsius'],
+      '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+      'KB': ['kilobyte', 'kilobytes'],
+      'kB': ['kilobyte', 'kilobytes'],
+      'MB': ['megabyte', 'megabytes'],
+      'GB': ['gigabyte', 'gigabytes'],
+      'TB': ['terabyte', 'terabytes'],
+      'W': ['watt', 'watts'],
+      'kW': ['kilowatt', 'kilowatts'],
+      'V': ['volt', 'volts'],
+    },
+    currencies: { '$': ['dollar', 'dollars'], '€': ['euro', 'euros'], '£': ['pound', 'pounds'] },
+    months: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+    minus: 'minus',
+    decimalPoint: 'point',
+    rangeTo: 'to',
+    wordSeparator: ' ',
+    yearCues: ['in', 'since', 'by', 'until', 'till', 'from', 'during', 'before', 'after', 'around', 'circa', 'c.', 'year'],
+    thousandsSeparator: ',',
+  },
+  de: {
+    abbreviations: [
+      { abbreviation: 'z. B.', expansion: 'zum Beispiel' },
+      { abbreviation: 'd. h.', expansion: 'das heißt' },
+      { abbreviation: 'u. a.', expansion: 'unter anderem' },
+      { abbreviation: 'bzw.', expansion: 'beziehungsweise' },
+      { abbreviation: 'ca.', expansion: 'circa' },
+      { abbreviation: 'vgl.', expansion: 'vergleiche' },
+      { abbreviation: 'usw.', expansion: 'und so weiter', endsSentences: true },
+      { abbreviation: 'et al.', expansion: 'und Kollegen', endsSentences: true },
+      { abbreviation: 'Abb.', expansion: 'Abbildung' },
+      { abbreviation: 'Tab.', expansion: 'Tabelle', beforeNumber: true },
+      { abbreviation: 'Kap.', expansion: 'Kapitel' },
+      { abbreviation: 'Nr.', expansion: 'Nummer', beforeNumber: true },
+      { abbreviation: 'S.', expansion: 'Seite', beforeNumber: true },
+    ],
+    units: {
+      '%': ['Prozent', 'Prozent'],
+      'km/h': ['Kilometer pro Stunde', 'Kilometer pro Stunde'],
+      'm/s': ['Meter pro Sekunde', 'Meter pro Sekunde'],
+      'km': ['Kilometer', 'Kilometer'],
+      'm': ['Meter', 'Meter'],
+      'cm': ['Zentimeter', 'Zentimeter'],
+      'mm': ['Millimeter', 'Millimeter'],
+      'µm': ['Mikrometer', 'Mikrometer'],
+      'nm': ['Nanometer', 'Nanometer'],
+      'kg': ['Kilogramm', 'Kilogramm'],
+      'g': ['Gramm', 'Gramm'],
+      'mg': ['Milligramm', 'Milligramm'],
+      'µg': ['Mikrogramm', 'Mikrogramm'],
+      'L': ['Liter', 'Liter'],
+      'l': ['Liter', 'Liter'],
+      'mL': ['Milliliter', 'Milliliter'],
+      'ml': ['Milliliter', 'Milliliter'],
+      's': ['Sekunde', 'Sekunden'],
+      'ms': ['Millisekunde', 'Millisekunden'],
+      'µs': ['Mikrosekunde', 'Mikrosekunden'],
+      'ns': ['Nanosekunde', 'Nanosekunden'],
+      'min': ['Minute', 'Minuten'],
+      'h': ['Stunde', 'Stunden'],
+      'Hz': ['Hertz', 'Hertz'],
+      'kHz': ['Kilohertz', 'Kilohertz'],
+      'MHz': ['Megahertz', 'Megahertz'],
+      'GHz': ['Gigahertz', 'Gigahertz'],
+      '°C': ['Grad Celsius', 'Grad Celsius'],
+      '°F': ['Grad Fahrenheit', 'Grad Fahrenheit'],
+      'KB': ['Kilobyte', 'Kilobyte'],
+      'kB': ['Kilobyte', 'Kilobyte'],
+      'MB': ['Megabyte', 'Megabyte'],
+      'GB': ['Gigabyte', 'Gigabyte'],
+      'TB': ['Terabyte', 'Terabyte'],
+      'W': ['Watt', 'Watt'],
+      'kW': ['Kilowatt', 'Kilowatt'],
+      'V': ['Volt', 'Volt'],
+    },
+    currencies: { '€': ['Euro', 'Euro'], '$': ['Dollar', 'Dollar'], '£': ['Pfund', 'Pfund'] },
+    months: ['Januar', 'Februar', 'März', 'April', 'Mai', 'Juni', 'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'],
+    minus: 'minus',
+    decimalPoint: 'Komma',
+    rangeTo: 'bis',
+    wordSeparator: ' ',
+    yearCues: ['im Jahr', 'im Jahre', 'Jahr', 'in', 'seit', 'bis', 'von', 'ab', 'um', 'vor', 'nach', 'anno'],
+    thousandsSeparator: '.',
+  },
+  fr: {
+    abbreviations: [
+      { abbreviation: 'p. ex.', expansion: 'par exemple' },
+      { abbreviation: 'c.-à-d.', expansion: 'c\'est-à-dire' },
+      { abbreviation: 'cf.', expansion: 'voir' },
+      { abbreviation: 'etc.', expansion: 'et cetera', endsSentences: true },
+      { abbreviation: 'env.', expansion: 'environ' },
+      { abbreviation: 'et al.', expansion: 'et collaborateurs', endsSentences: true },
+      { abbreviation: 'fig.', expansion: 'figure' },
+      { abbreviation: 'chap.', expansion: 'chapitre' },
+      { abbreviation: 'n°', expansion: 'numéro', beforeNumber: true },
+      { abbreviation: 'p.', expansion: 'page', beforeNumber: true },
+    ],
+    units: {
+      '%': ['pour cent', 'pour cent'],
+      'km/h': ['kilomètre par heure', 'kilomètres par heure'],
+      'm/s': ['mètre par seconde', 'mètres par seconde'],
+      'km': ['kilomètre', 'kilomètres'],
+      'm': ['mètre', 'mètres'],
+      'cm': ['centimètre', 'centimètres'],
+      'mm': ['millimètre', 'millimètres'],
+      'µm': ['micromètre', 'micromètres'],
+      'nm': ['nanomètre', 'nanomètres'],
+      'kg': ['kilogramme', 'kilogrammes'],
+      'g': ['gramme', 'grammes'],
+      'mg': ['milligramme', 'milligrammes'],
+      'µg': ['microgramme', 'microgrammes'],
+      'L': ['litre', 'litres'],
+      'l': ['litre', 'litres'],
+      'mL': ['millilitre', 'millilitres'],
+      'ml': ['millilitre', 'millilitres'],
+      's': ['seconde', 'secondes'],
+      'ms': ['milliseconde', 'millisecondes'],
+      'µs': ['microseconde', 'microsecondes'],
+      'ns': ['nanoseconde', 'nanosecondes'],
+      'min': ['minute', 'minutes'],
+      'h': ['heure', 'heures'],
+      'Hz': ['hertz', 'hertz'],
+      'kHz': ['kilohertz', 'kilohertz'],
+      'MHz': ['mégahertz', 'mégahertz'],
+      'GHz': ['gigahertz', 'gigahertz'],
+      '°C': ['degré Celsius', 'degrés Celsius'],
+      '°F': ['degré Fahrenheit', 'degrés Fahrenheit'],
+      'Ko': ['kilooctet', 'kilooctets'],
+      'Mo': ['mégaoctet', 'mégaoctets'],
+      'Go': ['gigaoctet', 'gigaoctets'],
+      'To': ['téraoctet', 'téraoctets'],
+      'W': ['watt', 'watts'],
+      'kW': ['kilowatt', 'kilowatts'],
+      'V': ['volt', 'volts'],
+    },
+    currencies: { '€': ['euro', 'euros'], '$': ['dollar', 'dollars'], '£': ['livre', 'livres'] },
+    months: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+    minus: 'moins',
+    decimalPoint: 'virgule',
+    rangeTo: 'à',
+    wordSeparator: ' ',
+    yearCues: ['en', 'depuis', 'dès', "jusqu'en", 'vers', 'avant', 'après', 'année', 'an'],
+    thousandsSeparator: ' ',
+  },
+  es: {
+    abbreviations: [
+      { abbreviation: 'p. ej.', expansion: 'por ejemplo' },
+      { abbreviation: 'et al.', expansion: 'y colaboradores', endsSentences: true },
+      { abbreviation: 'etc.', expansion: 'etcétera', endsSentences: true },
+      { abbreviation: 'aprox.', expansion: 'aproximadamente' },
+      { abbreviation: 'fig.', expansion: 'figura' },
+      { abbreviation: 'cap.', expansion: 'capítulo' },
+      { abbreviation: 'núm.', expansion: 'número', beforeNumber: true },
+      { abbreviation: 'págs.', expansion: 'páginas', beforeNumber: true },
+      { abbreviation: 'pág.', expansion: 'página', beforeNumber: true },
+    ],
+    units: {
+      '%': ['por ciento', 'por ciento'],
+      'km/h': ['kilómetro por hora', 'kilómetros por hora'],
+      'm/s': ['metro por segundo', 'metros por segundo'],
+      'km': ['kilómetro', 'kilómetros'],
+      'm': ['metro', 'metros'],
+      'cm': ['centímetro', 'centímetros'],
+      'mm': ['milímetro', 'milímetros'],
+      'µm': ['micrómetro', 'micrómetros'],
+      'nm': ['nanómetro', 'nanómetros'],
+      'kg': ['kilogramo', 'kilogramos'],
+      'g': ['gramo', 'gramos'],
+      'mg': ['miligramo', 'miligramos'],
+      'µg': ['microgramo', 'microgramos'],
+      'L': ['litro', 'litros'],
+      'l': ['litro', 'litros'],
+      'mL': ['mililitro', 'mililitros'],
+      'ml': ['mililitro', 'mililitros'],
+      's': ['segundo', 'segundos'],
+      'ms': ['milisegundo', 'milisegundos'],
+      'µs': ['microsegundo', 'microsegundos'],
+      'ns': ['nanosegundo', 'nanosegundos'],
+      'min': ['minuto', 'minutos'],
+      'h': ['hora', 'horas'],
+      'Hz': ['hercio', 'hercios'],
+      'kHz': ['kilohercio', 'kilohercios'],
+      'MHz': ['megahercio', 'megahercios'],
+      'GHz': ['gigahercio', 'gigahercios'],
+      '°C': ['grado Celsius', 'grados Celsius'],
+      '°F': ['grado Fahrenheit', 'grados Fahrenheit'],
+      'KB': ['kilobyte', 'kilobytes'],
+      'kB': ['kilobyte', 'kilobytes'],
+      'MB': ['megabyte', 'megabytes'],
+      'GB': ['gigabyte', 'gigabytes'],
+      'TB': ['terabyte', 'terabytes'],
+      'W': ['vatio', 'vatios'],
+      'kW': ['kilovatio', 'kilovatios'],
+      'V': ['voltio', 'voltios'],
+    },
+    currencies: { '€': ['euro', 'euros'], '$': ['dólar', 'dólares'], '£': ['libra', 'libras'] },
+    months: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'],
+    minus: 'menos',
+    decimalPoint: 'coma',
+    rangeTo: 'a',
+    wordSeparator: ' ',
+    yearCues: ['en', 'desde', 'hasta', 'hacia', 'antes de', 'después de', 'año'],
+    thousandsSeparator: '.',
+  },
+  zh: {
+    abbreviations: [],
+    units: {
+      // Said before the number: 百分之十二
+      '%': ['百分之', '百分之'],
+      '％': ['百分之', '百分之'],
+      'km/h': ['公里每小时', '公里每小时'],
+      'm/s': ['米每秒', '米每秒'],
+      'km': ['公里', '公里'],
+      'm': ['米', '米'],
+      'cm': ['厘米', '厘米'],
+      'mm': ['毫米', '毫米'],
+      'kg': ['公斤', '公斤'],
+      'g': ['克', '克'],
+      'mg': ['毫克', '毫克'],
+      'L': ['升', '升'],
+      'mL': ['毫升', '毫升'],
+      'ml': ['毫升', '毫升'],
+      's': ['秒', '秒'],
+      'ms': ['毫秒', '毫秒'],
+      'min': ['分钟', '分钟'],
+      'h': ['小时', '小时'],
+      'Hz': ['赫兹', '赫兹'],
+      'kHz': ['千赫', '千赫'],
+      'MHz': ['兆赫', '兆赫'],
+      'GHz': ['吉赫', '吉赫'],
+      '°C': ['摄氏度', '摄氏度'],
+      '°F': ['华氏度', '华氏度'],
+      'KB': ['千字节', '千字节'],
+      'MB': ['兆字节', '兆字节'],
+      'GB': ['吉字节', '吉字节'],
+      'TB': ['太字节', '太字节'],
+      'W': ['瓦', '瓦'],
+      'kW': ['千瓦', '千瓦'],
+      'V': ['伏', '伏'],
+    },
+    currencies: {
+      '元': ['元', '元'], '¥': ['元', '元'], '￥': ['元', '元'],
+      '$': ['美元', '美元'], '€': ['欧元', '欧元'], '£': ['英镑', '英镑'],
+    },
+    months: ['一月', '二月', '三月', '四月', '五月', '六月', '七月', '八月', '九月', '十月', '十一月', '十二月'],
+    minus: '负',
+    decimalPoint: '点',
+    rangeTo: '至',
+    yearCues: ['公元'],
+    yearMarker: '年',
+    wordSeparator: '',
+    thousandsSeparator: ',',
+  },
+};
+
+export const getSpeechLanguage = (lang?: string | null): SpeechLanguage | undefined =>
+  lang ? speechLanguages[lang] : undefined;
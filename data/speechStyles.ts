@@ -0,0 +1,18 @@
+export interface SpeechStyle {
+  id: string;
+  label: string;
+  prompt: string; // Instruction prepended to the text for providers that accept one
+}
+
+export const DEFAULT_SPEECH_STYLE_ID = 'narrator';
+
+export const speechStyles: SpeechStyle[] = [
+  { id: 'narrator', label: 'Narrator', prompt: 'Read this text clearly and naturally' },
+  { id: 'lecture', label: 'Lecture', prompt: 'Read this text like a university lecturer: measured pace, with clear emphasis on key terms' },
+  { id: 'calm', label: 'Calm', prompt: 'Read this text in a calm, soft and relaxed voice' },
+  { id: 'fast-news', label: 'Fast News', prompt: 'Read this text like a news anchor: brisk, crisp and energetic' },
+];
+
+export const getSpeechStyle = (id?: string): SpeechStyle => {
+  return speechStyles.find(s => s.id === id) ?? speechStyles[0];
+};
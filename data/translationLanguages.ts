@@ -0,0 +1,24 @@
+export interface TranslationLanguage {
+  code: string; // Primary language subtag, as returned by detectLanguage
+  name: string; // English name, used in the translation prompt
+  label: string; // Shown in the picker, in the language itself
+}
+
+export const translationLanguages: TranslationLanguage[] = [
+  { code: 'en', name: 'English', label: 'English' },
+  { code: 'zh', name: 'Simplified Chinese', label: '中文' },
+  { code: 'ja', name: 'Japanese', label: '日本語' },
+  { code: 'ko', name: 'Korean', label: '한국어' },
+  { code: 'es', name: 'Spanish', label: 'Español' },
+  { code: 'fr', name: 'French', label: 'Français' },
+  { code: 'de', name: 'German', label: 'Deutsch' },
+  { code: 'it', name: 'Italian', label: 'Italiano' },
+  { code: 'pt', name: 'Portuguese', label: 'Português' },
+  { code: 'ru', name: 'Russian', label: 'Русский' },
+  { code: 'ar', name: 'Arabic', label: 'العربية' },
+  { code: 'hi', name: 'Hindi', label: 'हिन्दी' },
+];
+
+export const getTranslationLanguage = (code: string): TranslationLanguage | undefined => {
+  return translationLanguages.find(language => language.code === code);
+};
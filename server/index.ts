@@ -0,0 +1,29 @@
+import { createProxyServer, DEFAULT_PROXY_CONFIG } from './proxy';
+
+/**
+ * Entry point of `npm run proxy`, configured through environment variables:
+ * - GEMINI_API_KEY (required): the key, kept on this server
+ * - GEMINI_BASE_URL: another server speaking the Gemini REST API, e.g. a stub
+ * - PROXY_PORT: port to listen on (default 8790)
+ * - PROXY_ALLOWED_ORIGINS: comma-separated origins of the reader app (default http://localhost:3000)
+ */
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('[Proxy] GEMINI_API_KEY is not set');
+  process.exit(1);
+}
+
+const port = Number(process.env.PROXY_PORT) || 8790;
+const allowedOrigins = process.env.PROXY_ALLOWED_ORIGINS?.split(',').map(origin => origin.trim()).filter(Boolean);
+
+const server = createProxyServer({
+  ...DEFAULT_PROXY_CONFIG,
+  apiKey,
+  upstreamUrl: process.env.GEMINI_BASE_URL || undefined,
+  allowedOrigins: allowedOrigins?.length ? allowedOrigins : DEFAULT_PROXY_CONFIG.allowedOrigins,
+});
+
+server.listen(port, () => {
+  console.log(`[Proxy] Listening on http://localhost:${port}`);
+});
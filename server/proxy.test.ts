@@ -0,0 +1,179 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createProxyServer, DEFAULT_PROXY_CONFIG, ProxyConfig } from './proxy';
+
+const PCM = Buffer.from([1, 2, 3, 4, 5, 6]);
+
+// Stands in for the Gemini REST API; each test can replace how it answers
+let answerUpstream: (req: IncomingMessage, res: ServerResponse) => void;
+
+const answerLikeGemini = (req: IncomingMessage, res: ServerResponse) => {
+  const part = req.url?.includes('-tts:')
+    ? { inlineData: { mimeType: 'audio/L16', data: PCM.toString('base64') } }
+    : { text: 'Recognized page text' };
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ candidates: [{ content: { parts: [part] }, finishReason: 'STOP' }] }));
+};
+
+const answerWithError = (status: number, details: unknown[] = []) => (_req: IncomingMessage, res: ServerResponse) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: { code: status, message: `Upstream said ${status}`, details } }));
+};
+
+const servers: Server[] = [];
+
+const listen = async (server: Server): Promise<string> => {
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const startProxy = async (overrides: Partial<ProxyConfig> = {}): Promise<string> => {
+  const upstreamUrl = await listen(createServer((req, res) => {
+    req.resume();
+    req.on('end', () => answerUpstream(req, res));
+  }));
+  return listen(createProxyServer({ ...DEFAULT_PROXY_CONFIG, apiKey: 'test-key', upstreamUrl, ...overrides }));
+};
+
+const post = (url: string, body: unknown, headers: Record<string, string> = {}) => fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', ...headers },
+  body: JSON.stringify(body),
+});
+
+const errorKind = async (response: Response) => (await response.json()).error.kind;
+
+beforeEach(() => {
+  answerUpstream = answerLikeGemini;
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(resolve);
+  })));
+});
+
+describe('createProxyServer', () => {
+  it('returns the PCM bytes for /tts', async () => {
+    const proxy = await startProxy();
+    const response = await post(`${proxy}/tts`, { text: 'Hello there', voice: 'Kore' });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/octet-stream');
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(PCM);
+  });
+
+  it('returns the recognized text for /ocr', async () => {
+    const proxy = await startProxy();
+    const response = await post(`${proxy}/ocr`, { image: 'QUJD', layout: false });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: 'Recognized page text' });
+  });
+
+  it('answers /health', async () => {
+    const proxy = await startProxy();
+    expect((await fetch(`${proxy}/health`)).status).toBe(200);
+  });
+
+  describe('size limits', () => {
+    it('rejects bodies over maxBodyBytes with 413', async () => {
+      const proxy = await startProxy({ maxBodyBytes: 1000 });
+      const response = await post(`${proxy}/ocr`, { image: 'A'.repeat(2000) });
+      expect(response.status).toBe(413);
+      expect(await errorKind(response)).toBe('request');
+    });
+
+    it('rejects text over maxTextChars with 413', async () => {
+      const proxy = await startProxy({ maxTextChars: 10 });
+      const response = await post(`${proxy}/tts`, { text: 'This text is too long' });
+      expect(response.status).toBe(413);
+    });
+
+    it('rejects malformed bodies with 400', async () => {
+      const proxy = await startProxy();
+      expect((await post(`${proxy}/tts`, { text: 'Hi', voice: 'Nobody' })).status).toBe(400);
+      expect((await post(`${proxy}/ocr`, ['QUJD'])).status).toBe(400);
+    });
+  });
+
+  describe('per-client quotas', () => {
+    const quotas = (budget: keyof ProxyConfig['quotas'], max: number) => ({
+      ...DEFAULT_PROXY_CONFIG.quotas,
+      [budget]: { max, windowMs: 60000 },
+    });
+
+    it('limits the number of requests', async () => {
+      const proxy = await startProxy({ quotas: quotas('requests', 2) });
+      expect((await post(`${proxy}/ocr`, { image: 'QUJD' })).status).toBe(200);
+      expect((await post(`${proxy}/tts`, { text: 'Hi' })).status).toBe(200);
+      const response = await post(`${proxy}/ocr`, { image: 'QUJD' });
+      expect(response.status).toBe(429);
+      expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+      expect(await errorKind(response)).toBe('quota');
+    });
+
+    it('limits the characters spoken', async () => {
+      const proxy = await startProxy({ quotas: quotas('ttsChars', 10) });
+      expect((await post(`${proxy}/tts`, { text: 'Eight ch' })).status).toBe(200);
+      const response = await post(`${proxy}/tts`, { text: 'More text' });
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).not.toBeNull();
+    });
+
+    it('limits the pages recognized', async () => {
+      const proxy = await startProxy({ quotas: quotas('ocrPages', 1) });
+      expect((await post(`${proxy}/ocr`, { image: 'QUJD' })).status).toBe(200);
+      const response = await post(`${proxy}/ocr`, { image: 'QUJD' });
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).not.toBeNull();
+    });
+  });
+
+  describe('upstream errors', () => {
+    it('maps 401 to auth without passing on the upstream message', async () => {
+      answerUpstream = answerWithError(401);
+      const proxy = await startProxy();
+      const response = await post(`${proxy}/tts`, { text: 'Hi' });
+      expect(response.status).toBe(502);
+      const { error } = await response.json();
+      expect(error.kind).toBe('auth');
+      expect(error.message).not.toContain('Upstream said');
+    });
+
+    it('maps 429 to quota with the delay the upstream asked for', async () => {
+      answerUpstream = answerWithError(429, [{ retryDelay: '7s' }]);
+      const proxy = await startProxy();
+      const response = await post(`${proxy}/ocr`, { image: 'QUJD' });
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBe('7');
+      expect(await errorKind(response)).toBe('quota');
+    });
+
+    it('maps 5xx to network', async () => {
+      answerUpstream = answerWithError(503);
+      const proxy = await startProxy();
+      const response = await post(`${proxy}/ocr`, { image: 'QUJD' });
+      expect(response.status).toBe(502);
+      expect(await errorKind(response)).toBe('network');
+    });
+  });
+
+  describe('origins', () => {
+    it('rejects origins that are not allowed with 403', async () => {
+      const proxy = await startProxy({ allowedOrigins: ['http://localhost:3000'] });
+      const response = await post(`${proxy}/tts`, { text: 'Hi' }, { Origin: 'http://elsewhere.example' });
+      expect(response.status).toBe(403);
+    });
+
+    it('allows configured origins', async () => {
+      const proxy = await startProxy({ allowedOrigins: ['http://localhost:3000'] });
+      const response = await post(`${proxy}/tts`, { text: 'Hi' }, { Origin: 'http://localhost:3000' });
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('http://localhost:3000');
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { GenerateContentParameters, GoogleGenAI } from '@google/genai';
+import { buildSpeechRequest, buildOcrRequest } from '../services/geminiRequests';
+import { GEMINI_VOICES, DEFAULT_GEMINI_VOICE } from '../services/geminiService';
+import { toGeminiError, throwIfBlocked, GeminiError, GeminiEmptyResponseError, GeminiQuotaError } from '../services/geminiClient';
+import { createQuotaTracker, QuotaLimit } from './quota';
+
+/**
+ * Proxy server for Gemini speech and OCR, so the API key never reaches the browser.
+ * Endpoints (JSON bodies):
+ * - POST /tts { text, voice?, style? } -> 16-bit mono PCM at 24 kHz (application/octet-stream)
+ * - POST /ocr { image, layout? } -> { text }; with layout, text is the JSON for parseOcrLayout
+ * - GET /health -> { ok: true }
+ * Errors are `{ error: { kind, message } }`, with kind as in GeminiErrorKind.
+ */
+
+export type ProxyBudget = 'requests' | 'ttsChars' | 'ocrPages';
+
+export interface ProxyConfig {
+  apiKey: string;
+  upstreamUrl?: string; // Another server speaking the Gemini REST API, e.g. a stub in tests
+  allowedOrigins: string[]; // Browser origins allowed to call the proxy; '*' allows any
+  maxBodyBytes: number;
+  maxTextChars: number; // Longest text per /tts request
+  maxStyleChars: number;
+  quotas: Record<ProxyBudget, QuotaLimit>; // Per client, identified by address
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const DEFAULT_PROXY_CONFIG: Omit<ProxyConfig, 'apiKey'> = {
+  allowedOrigins: ['http://localhost:3000'],
+  maxBodyBytes: 8 * 1024 * 1024, // A page image rendered for OCR is well below this
+  maxTextChars: 5000,
+  maxStyleChars: 300,
+  quotas: {
+    requests: { max: 120, windowMs: MINUTE_MS },
+    ttsChars: { max: 300000, windowMs: DAY_MS },
+    ocrPages: { max: 300, windowMs: DAY_MS },
+  },
+};
+
+const DEFAULT_STYLE_PROMPT = 'Read this text clearly and naturally';
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Helper: An error about the request itself, answered with `status`
+ */
+const requestError = (message: string, status: number) => new GeminiError(message, false, status);
+
+/**
+ * Helper: Reads and parses a JSON body, rejecting bodies over `maxBytes` without buffering them
+ */
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> => new Promise((resolve, reject) => {
+  if (Number(req.headers['content-length']) > maxBytes) {
+    req.resume();
+    reject(requestError('Request body too large', 413));
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      // Drain the rest so the error response can still be sent
+      req.off('data', onData);
+      req.resume();
+      reject(requestError('Request body too large', 413));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => {
+    if (size > maxBytes) return;
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(requestError('Request body is not valid JSON', 400));
+    }
+  });
+  req.on('error', reject);
+});
+
+/**
+ * Helper: The fields of a JSON object body; anything else has none
+ */
+const bodyFields = (body: unknown): Record<string, unknown> => {
+  return typeof body === 'object' && body !== null && !Array.isArray(body) ? body as Record<string, unknown> : {};
+};
+
+const STATUS_BY_KIND: Record<string, number> = {
+  auth: 502, // The proxy's own key was rejected; nothing the browser can fix
+  quota: 429,
+  safety: 422,
+  network: 502,
+  empty: 502,
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  const data = JSON.stringify(body);
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(data) });
+  res.end(data);
+};
+
+const sendError = (res: ServerResponse, err: GeminiError) => {
+  const status = err.kind === 'request' ? err.status ?? 400 : STATUS_BY_KIND[err.kind];
+  const headers: Record<string, string> = {};
+  if (err instanceof GeminiQuotaError && err.retryAfterMs !== undefined) {
+    headers['Retry-After'] = String(Math.ceil(err.retryAfterMs / 1000));
+  }
+  // The upstream's words about our key are for the server log, not for the browser
+  const message = err.kind === 'auth' ? 'The proxy is not authorized to use Gemini' : err.message;
+  sendJson(res, status, { error: { kind: err.kind, message } }, headers);
+};
+
+export const createProxyServer = (config: ProxyConfig): Server => {
+  const ai = new GoogleGenAI({
+    apiKey: config.apiKey,
+    httpOptions: config.upstreamUrl ? { baseUrl: config.upstreamUrl } : undefined,
+  });
+  const quota = createQuotaTracker(config.quotas);
+
+  const charge = (clientId: string, costs: Partial<Record<ProxyBudget, number>>) => {
+    const exceeded = quota.take(clientId, costs as Record<string, number>);
+    if (exceeded) {
+      console.warn(`[Proxy] Client ${clientId} is over its ${exceeded.budget} budget`);
+      throw new GeminiQuotaError('Usage limit of this reader reached; try again later', exceeded.retryAfterMs);
+    }
+  };
+
+  const generate = async (params: GenerateContentParameters, signal: AbortSignal) => {
+    const response = await ai.models.generateContent({ ...params, config: { ...params.config, abortSignal: signal } });
+    throwIfBlocked(response);
+    return response;
+  };
+
+  const handleTTS = async (body: unknown, clientId: string, signal: AbortSignal): Promise<Buffer> => {
+    const { text, voice = DEFAULT_GEMINI_VOICE, style = DEFAULT_STYLE_PROMPT } = bodyFields(body);
+    if (typeof text !== 'string' || !text.trim()) throw requestError('"text" must be a non-empty string', 400);
+    if (text.length > config.maxTextChars) throw requestError(`"text" is longer than ${config.maxTextChars} characters`, 413);
+    if (typeof voice !== 'string' || !GEMINI_VOICES.includes(voice)) throw requestError('Unknown "voice"', 400);
+    if (typeof style !== 'string' || style.length > config.maxStyleChars) throw requestError('Invalid "style"', 400);
+    charge(clientId, { ttsChars: text.length });
+
+    const response = await generate(buildSpeechRequest(text, voice, style), signal);
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new GeminiEmptyResponseError('No audio data returned from Gemini');
+    return Buffer.from(base64Audio, 'base64');
+  };
+
+  const handleOCR = async (body: unknown, clientId: string, signal: AbortSignal): Promise<{ text: string }> => {
+    const { image, layout = false } = bodyFields(body);
+    if (typeof image !== 'string' || !BASE64_PATTERN.test(image)) throw requestError('"image" must be a base64 JPEG', 400);
+    charge(clientId, { ocrPages: 1 });
+
+    const response = await generate(buildOcrRequest(image, layout === true), signal);
+    return { text: response.text ?? '' };
+  };
+
+  const setCorsHeaders = (req: IncomingMessage, res: ServerResponse): boolean => {
+    const origin = req.headers.origin;
+    // Requests without an Origin header do not come from a browser page (curl, tests)
+    if (!origin) return true;
+    if (!config.allowedOrigins.includes('*') && !config.allowedOrigins.includes(origin)) return false;
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+    res.setHeader('Vary', 'Origin');
+    return true;
+  };
+
+  return createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const clientId = req.socket.remoteAddress ?? 'unknown';
+
+    // The upstream request is aborted when the browser gives up on this one
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      if (!setCorsHeaders(req, res)) throw requestError('Origin not allowed', 403);
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+      }
+      if (pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, { ok: true });
+        return;
+      }
+      if (pathname !== '/tts' && pathname !== '/ocr') throw requestError('Not found', 404);
+      if (req.method !== 'POST') throw requestError('Method not allowed', 405);
+
+      charge(clientId, { requests: 1 });
+      const body = await readJsonBody(req, config.maxBodyBytes);
+
+      if (pathname === '/tts') {
+        const audio = await handleTTS(body, clientId, controller.signal);
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': audio.length });
+        res.end(audio);
+      } else {
+        sendJson(res, 200, await handleOCR(body, clientId, controller.signal));
+      }
+    } catch (raw) {
+      if (controller.signal.aborted) return;
+      const err = toGeminiError(raw);
+      if (err instanceof GeminiError) {
+        if (err.kind !== 'request') console.warn(`[Proxy] ${pathname} failed`, err);
+        sendError(res, err);
+      } else {
+        console.error(`[Proxy] ${pathname} failed`, raw);
+        sendJson(res, 500, { error: { kind: 'request', message: 'Internal proxy error' } });
+      }
+    }
+  });
+};
@@ -0,0 +1,69 @@
+/**
+ * Per-client usage budgets over fixed time windows, kept in memory (they reset when the
+ * proxy restarts). Each budget counts its own unit, e.g. requests or characters spoken.
+ */
+
+export interface QuotaLimit {
+  max: number;
+  windowMs: number;
+}
+
+export interface QuotaExceeded {
+  budget: string;
+  retryAfterMs: number; // Until the budget's window starts over
+}
+
+export interface QuotaTracker {
+  /** Charges `costs` if every budget named has room left and returns null; otherwise charges nothing */
+  take: (clientId: string, costs: Record<string, number>) => QuotaExceeded | null;
+}
+
+interface Usage {
+  windowStart: number;
+  used: number;
+}
+
+// Expired entries are swept once the table grows past this
+const SWEEP_THRESHOLD = 10000;
+
+export const createQuotaTracker = (limits: Record<string, QuotaLimit>): QuotaTracker => {
+  const usage = new Map<string, Usage>();
+
+  const current = (key: string, limit: QuotaLimit, now: number): Usage => {
+    const entry = usage.get(key);
+    if (entry && now - entry.windowStart < limit.windowMs) return entry;
+    return { windowStart: now, used: 0 };
+  };
+
+  const sweep = (now: number) => {
+    const longest = Math.max(...Object.values(limits).map(limit => limit.windowMs));
+    for (const [key, entry] of usage) {
+      if (now - entry.windowStart >= longest) usage.delete(key);
+    }
+  };
+
+  const take = (clientId: string, costs: Record<string, number>): QuotaExceeded | null => {
+    const now = Date.now();
+    const charges: Array<[string, Usage, number]> = [];
+
+    for (const [budget, cost] of Object.entries(costs)) {
+      const limit = limits[budget];
+      if (!limit) continue;
+      const key = `${budget}:${clientId}`;
+      const entry = current(key, limit, now);
+      if (entry.used + cost > limit.max) {
+        return { budget, retryAfterMs: entry.windowStart + limit.windowMs - now };
+      }
+      charges.push([key, entry, cost]);
+    }
+
+    for (const [key, entry, cost] of charges) {
+      entry.used += cost;
+      usage.set(key, entry);
+    }
+    if (usage.size > SWEEP_THRESHOLD) sweep(now);
+    return null;
+  };
+
+  return { take };
+};
@@ -0,0 +1,154 @@
+import { openDB, promisify, transactionDone, STORES } from './db';
+
+/**
+ * Persistent audio cache backed by IndexedDB.
+ *
+ * Stores the audio bytes returned by TTS providers (raw PCM for Gemini) so that
+ * re-listening to a page, or reopening the same PDF in a later session, does not
+ * call the API again.
+ * Entries are keyed by document hash + page number + provider + voice + style + text hash,
+ * so audio made with a different voice or style is never replayed, and are
+ * evicted least-recently-used first once the size budget is exceeded.
+ */
+
+const STORE_NAME = STORES.AUDIO;
+
+// Total audio bytes kept on disk. Gemini's 24kHz mono Int16 is ~2.9MB per minute of speech.
+export const AUDIO_CACHE_BUDGET_BYTES = 200 * 1024 * 1024;
+
+export interface AudioCacheKey {
+  docHash: string;
+  pageNumber: number;
+  provider: string; // TTS provider id
+  variant: string; // Hash of the provider's cacheVariant(); empty for providers without one
+  voice: string;
+  style: string; // Empty for providers that ignore styles
+  textHash: string;
+}
+
+interface AudioCacheRecord extends AudioCacheKey {
+  key: string;
+  data: ArrayBuffer;
+  size: number;
+  createdAt: number;
+  lastAccessed: number;
+}
+
+export interface AudioCacheStats {
+  entries: number;
+  totalBytes: number;
+}
+
+export const buildAudioCacheKey = ({ docHash, pageNumber, provider, variant, voice, style, textHash }: AudioCacheKey): string => {
+  // Providers without variants keep the keys they had before variants existed
+  const source = variant ? `${provider}@${variant}` : provider;
+  return `${docHash}:${pageNumber}:${source}:${voice}:${style}:${textHash}`;
+};
+
+/**
+ * Looks up cached audio and bumps its LRU timestamp. Returns null on miss.
+ */
+export const getCachedAudio = async (cacheKey: AudioCacheKey): Promise<Uint8Array | null> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+
+  const record = await promisify<AudioCacheRecord | undefined>(store.get(buildAudioCacheKey(cacheKey)));
+  if (!record) return null;
+
+  record.lastAccessed = Date.now();
+  store.put(record);
+  await transactionDone(tx);
+
+  return new Uint8Array(record.data);
+};
+
+/**
+ * Stores audio for a page chunk, then evicts least recently used entries if over budget.
+ */
+export const putCachedAudio = async (cacheKey: AudioCacheKey, data: Uint8Array): Promise<void> => {
+  // Skip anything that could never fit, rather than wiping the whole cache for it
+  if (data.byteLength > AUDIO_CACHE_BUDGET_BYTES) return;
+
+  const db = await openDB();
+  const now = Date.now();
+  const record: AudioCacheRecord = {
+    ...cacheKey,
+    key: buildAudioCacheKey(cacheKey),
+    // Copy so we never persist a view into a larger (or later detached) buffer
+    data: data.slice().buffer,
+    size: data.byteLength,
+    createdAt: now,
+    lastAccessed: now,
+  };
+
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).put(record);
+  await transactionDone(tx);
+
+  await evictToBudget(AUDIO_CACHE_BUDGET_BYTES);
+};
+
+/**
+ * Deletes oldest-accessed entries until the total size fits within budget.
+ */
+const evictToBudget = async (budget: number): Promise<void> => {
+  const { totalBytes } = await getAudioCacheStats();
+  if (totalBytes <= budget) return;
+
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const index = tx.objectStore(STORE_NAME).index('lastAccessed');
+
+  let remaining = totalBytes;
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = index.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || remaining <= budget) {
+        resolve();
+        return;
+      }
+      const record = cursor.value as AudioCacheRecord;
+      remaining -= record.size;
+      cursor.delete();
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+
+  await transactionDone(tx);
+  console.log(`[AudioCache] Evicted ${((totalBytes - remaining) / 1024 / 1024).toFixed(1)}MB to stay within budget`);
+};
+
+export const getAudioCacheStats = async (): Promise<AudioCacheStats> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const index = tx.objectStore(STORE_NAME).index('size');
+
+  let entries = 0;
+  let totalBytes = 0;
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = index.openKeyCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      entries++;
+      totalBytes += cursor.key as number;
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+
+  return { entries, totalBytes };
+};
+
+export const clearAudioCache = async (): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,219 @@
+/**
+ * Audio file writers for audiobook export.
+ * Both formats are mono 16-bit and carry chapter markers:
+ * WAV via 'cue ' + 'LIST/adtl' label chunks, MP3 via an ID3v2.3 tag with CTOC/CHAP frames.
+ */
+
+export interface ChapterMarker {
+  title: string;
+  startTime: number; // Seconds
+  endTime: number; // Seconds
+}
+
+// Samples per MP3 frame; lame prefers input in multiples of this
+const MP3_FRAME_SAMPLES = 1152;
+
+// ID3v2.3 CTOC stores its entry count in a single byte
+const MAX_ID3_CHAPTERS = 255;
+
+/**
+ * Converts Web Audio float samples (-1.0 to 1.0) to Int16, mixing down to mono
+ */
+export const audioBufferToInt16 = (buffer: AudioBuffer): Int16Array => {
+  const output = new Int16Array(buffer.length);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  for (let i = 0; i < buffer.length; i++) {
+    let sample = 0;
+    for (const data of channels) sample += data[i];
+    sample = Math.max(-1, Math.min(1, sample / channels.length));
+    output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return output;
+};
+
+// --- WAV ---
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+/**
+ * Helper: Builds the 'cue ' chunk plus a 'LIST' 'adtl' chunk with one 'labl' per marker
+ */
+const buildWavMarkerChunks = (chapters: ChapterMarker[], sampleRate: number): Uint8Array[] => {
+  if (chapters.length === 0) return [];
+
+  const cue = new DataView(new ArrayBuffer(12 + chapters.length * 24));
+  writeAscii(cue, 0, 'cue ');
+  cue.setUint32(4, 4 + chapters.length * 24, true);
+  cue.setUint32(8, chapters.length, true);
+  chapters.forEach((chapter, i) => {
+    const base = 12 + i * 24;
+    const position = Math.round(chapter.startTime * sampleRate);
+    cue.setUint32(base, i + 1, true); // Cue point ID
+    cue.setUint32(base + 4, position, true);
+    writeAscii(cue, base + 8, 'data');
+    cue.setUint32(base + 12, 0, true); // Chunk start
+    cue.setUint32(base + 16, 0, true); // Block start
+    cue.setUint32(base + 20, position, true); // Sample offset
+  });
+
+  const encoder = new TextEncoder();
+  const labels = chapters.map((chapter, i) => {
+    const text = encoder.encode(chapter.title);
+    const size = 4 + text.length + 1; // Cue ID + text + NUL
+    const padded = size + (size % 2); // Chunks are word aligned
+    const label = new Uint8Array(8 + padded);
+    const view = new DataView(label.buffer);
+    writeAscii(view, 0, 'labl');
+    view.setUint32(4, size, true);
+    view.setUint32(8, i + 1, true);
+    label.set(text, 12);
+    return label;
+  });
+
+  const listSize = 4 + labels.reduce((sum, l) => sum + l.length, 0);
+  const listHeader = new DataView(new ArrayBuffer(12));
+  writeAscii(listHeader, 0, 'LIST');
+  listHeader.setUint32(4, listSize, true);
+  writeAscii(listHeader, 8, 'adtl');
+
+  return [new Uint8Array(cue.buffer), new Uint8Array(listHeader.buffer), ...labels];
+};
+
+/**
+ * Writes PCM parts as a mono 16-bit WAV. Parts are passed through to the Blob
+ * untouched, so long recordings are never copied into one big array.
+ */
+export const encodeWav = (parts: Int16Array[], sampleRate: number, chapters: ChapterMarker[]): Blob => {
+  const dataBytes = parts.reduce((sum, p) => sum + p.byteLength, 0);
+  const markerChunks = buildWavMarkerChunks(chapters, sampleRate);
+  const markerBytes = markerChunks.reduce((sum, c) => sum + c.length, 0);
+
+  const header = new DataView(new ArrayBuffer(44));
+  writeAscii(header, 0, 'RIFF');
+  header.setUint32(4, 36 + dataBytes + markerBytes, true);
+  writeAscii(header, 8, 'WAVE');
+  writeAscii(header, 12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Byte rate
+  header.setUint16(32, 2, true); // Block align
+  header.setUint16(34, 16, true); // Bits per sample
+  writeAscii(header, 36, 'data');
+  header.setUint32(40, dataBytes, true);
+
+  return new Blob([header.buffer, ...parts, ...markerChunks], { type: 'audio/wav' });
+};
+
+// --- MP3 ---
+
+/**
+ * Helper: Encodes an ID3v2 syncsafe integer (7 bits per byte)
+ */
+const syncsafe = (value: number): number[] => [
+  (value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f,
+];
+
+const id3Frame = (id: string, body: Uint8Array): Uint8Array => {
+  const frame = new Uint8Array(10 + body.length);
+  const view = new DataView(frame.buffer);
+  writeAscii(view, 0, id);
+  view.setUint32(4, body.length); // v2.3 frame sizes are plain big-endian, not syncsafe
+  frame.set(body, 10);
+  return frame;
+};
+
+// v2.3 has no UTF-8, so titles (often CJK) are written as UTF-16LE with BOM
+const id3Text = (text: string): Uint8Array => {
+  const body = new Uint8Array(3 + text.length * 2);
+  body[0] = 0x01;
+  body[1] = 0xff;
+  body[2] = 0xfe;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    body[3 + i * 2] = code & 0xff;
+    body[4 + i * 2] = code >> 8;
+  }
+  return body;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const asciiZ = (text: string): Uint8Array => new TextEncoder().encode(`${text}\0`);
+
+/**
+ * Builds an ID3v2.3 tag with a title, a table of contents and one CHAP frame per chapter
+ */
+const buildId3Tag = (title: string, chapters: ChapterMarker[]): Uint8Array => {
+  const capped = chapters.slice(0, MAX_ID3_CHAPTERS);
+  const frames: Uint8Array[] = [id3Frame('TIT2', id3Text(title))];
+
+  if (capped.length > 0) {
+    const ids = capped.map((_, i) => `ch${i}`);
+    frames.push(id3Frame('CTOC', concatBytes([
+      asciiZ('toc'),
+      new Uint8Array([0x03, capped.length]), // Top-level + ordered, entry count
+      ...ids.map(asciiZ),
+    ])));
+
+    capped.forEach((chapter, i) => {
+      const times = new DataView(new ArrayBuffer(16));
+      times.setUint32(0, Math.round(chapter.startTime * 1000));
+      times.setUint32(4, Math.round(chapter.endTime * 1000));
+      times.setUint32(8, 0xffffffff); // Byte offsets unused
+      times.setUint32(12, 0xffffffff);
+      frames.push(id3Frame('CHAP', concatBytes([
+        asciiZ(ids[i]),
+        new Uint8Array(times.buffer),
+        id3Frame('TIT2', id3Text(chapter.title)),
+      ])));
+    });
+  }
+
+  const body = concatBytes(frames);
+  return concatBytes([
+    new Uint8Array([0x49, 0x44, 0x33, 0x03, 0x00, 0x00, ...syncsafe(body.length)]), // "ID3" v2.3
+    body,
+  ]);
+};
+
+export interface Mp3Writer {
+  write: (samples: Int16Array) => void;
+  finish: (title: string, chapters: ChapterMarker[]) => Blob;
+}
+
+/**
+ * Creates an incremental MP3 encoder so pages can be encoded (and their PCM released)
+ * as soon as they are synthesized. The encoder is loaded on demand.
+ */
+export const createMp3Writer = async (sampleRate: number, kbps: number = 64): Promise<Mp3Writer> => {
+  const { Mp3Encoder } = await import('@breezystack/lamejs');
+  const encoder = new Mp3Encoder(1, sampleRate, kbps);
+  const frames: Uint8Array[] = [];
+
+  return {
+    write: (samples) => {
+      for (let i = 0; i < samples.length; i += MP3_FRAME_SAMPLES * 16) {
+        const out = encoder.encodeBuffer(samples.subarray(i, i + MP3_FRAME_SAMPLES * 16));
+        if (out.length > 0) frames.push(new Uint8Array(out));
+      }
+    },
+    finish: (title, chapters) => {
+      const out = encoder.flush();
+      if (out.length > 0) frames.push(new Uint8Array(out));
+      return new Blob([buildId3Tag(title, chapters), ...frames], { type: 'audio/mpeg' });
+    },
+  };
+};
@@ -0,0 +1,30 @@
+import { PageAudio, SpeechChunk, SpokenText, TextChunk } from '../types';
+
+/**
+ * Joins per-chunk buffers into one page buffer so playback is gapless and a single
+ * source node can be paused, rate-adjusted and ended as one logical page.
+ */
+export const assemblePageAudio = (parts: Array<{ chunk: TextChunk; spoken?: SpokenText; buffer: AudioBuffer }>): PageAudio => {
+  if (parts.length === 0) throw new Error('No audio chunks to assemble');
+
+  const { sampleRate, numberOfChannels } = parts[0].buffer;
+  const length = parts.reduce((sum, p) => sum + p.buffer.length, 0);
+  const buffer = new AudioBuffer({ length, sampleRate, numberOfChannels });
+
+  const chunks: SpeechChunk[] = [];
+  let offset = 0;
+  for (const { chunk, spoken, buffer: part } of parts) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      buffer.copyToChannel(part.getChannelData(Math.min(channel, part.numberOfChannels - 1)), channel, offset);
+    }
+    chunks.push({
+      ...chunk,
+      startTime: offset / sampleRate,
+      duration: part.length / sampleRate,
+      spoken,
+    });
+    offset += part.length;
+  }
+
+  return { buffer, chunks };
+};
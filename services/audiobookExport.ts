@@ -0,0 +1,135 @@
+import { OutlineItem } from '../types';
+import { flattenOutline } from './pdfService';
+import { ChapterMarker, audioBufferToInt16, encodeWav, createMp3Writer, Mp3Writer } from './audioEncoders';
+
+export type AudiobookFormat = 'wav' | 'mp3';
+export type ChapterSource = 'pages' | 'outline';
+
+export interface AudiobookProgress {
+  pageNumber: number; // Page currently being synthesized
+  completed: number; // Pages finished so far
+  total: number;
+}
+
+export interface AudiobookExportOptions {
+  title: string;
+  fromPage: number;
+  toPage: number;
+  silenceSeconds: number; // Inserted between pages
+  format: AudiobookFormat;
+  chapterSource: ChapterSource;
+  outline: OutlineItem[];
+  // Returns the page's speech (from cache or freshly synthesized), or null for pages without text
+  loadPageAudio: (pageNumber: number) => Promise<AudioBuffer | null>;
+  onProgress: (progress: AudiobookProgress) => void;
+  signal: AbortSignal;
+}
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw new DOMException('Export canceled', 'AbortError');
+};
+
+/**
+ * Helper: Turns page start times into chapter markers. With the outline as source, a chapter
+ * starts at the first page its entry points to; pages before the first entry get a leading chapter.
+ */
+const buildChapters = (
+  pageStarts: Map<number, number>,
+  totalDuration: number,
+  options: AudiobookExportOptions
+): ChapterMarker[] => {
+  const starts: Array<{ title: string; startTime: number }> = [];
+
+  if (options.chapterSource === 'outline') {
+    for (const entry of flattenOutline(options.outline)) {
+      const startTime = pageStarts.get(entry.pageNumber);
+      if (startTime === undefined) continue;
+      // Several entries on one page collapse into the first
+      if (starts.some(s => s.startTime === startTime)) continue;
+      starts.push({ title: entry.title, startTime });
+    }
+    starts.sort((a, b) => a.startTime - b.startTime);
+    if (starts.length > 0 && starts[0].startTime > 0) {
+      starts.unshift({ title: `Page ${options.fromPage}`, startTime: 0 });
+    }
+  }
+
+  // Fall back to page chapters when the outline has nothing in range
+  if (starts.length === 0) {
+    for (const [pageNumber, startTime] of pageStarts) {
+      starts.push({ title: `Page ${pageNumber}`, startTime });
+    }
+  }
+
+  return starts.map((start, i) => ({
+    ...start,
+    endTime: i + 1 < starts.length ? starts[i + 1].startTime : totalDuration,
+  }));
+};
+
+/**
+ * Synthesizes a page range into one audio file with chapter markers.
+ * Pages are converted to 16-bit PCM (and, for MP3, encoded) as they arrive so
+ * only one page of float audio is held at a time. Rejects with an AbortError when canceled.
+ */
+export const exportAudiobook = async (options: AudiobookExportOptions): Promise<Blob> => {
+  const { fromPage, toPage, silenceSeconds, format, signal, onProgress } = options;
+  const total = toPage - fromPage + 1;
+
+  const pcmParts: Int16Array[] = [];
+  const pageStarts = new Map<number, number>();
+  let mp3Writer: Mp3Writer | null = null;
+  let sampleRate = 0;
+  let totalSamples = 0;
+
+  const append = (samples: Int16Array) => {
+    if (mp3Writer) mp3Writer.write(samples);
+    else pcmParts.push(samples);
+    totalSamples += samples.length;
+  };
+
+  for (let pageNumber = fromPage; pageNumber <= toPage; pageNumber++) {
+    throwIfAborted(signal);
+    onProgress({ pageNumber, completed: pageNumber - fromPage, total });
+
+    const buffer = await options.loadPageAudio(pageNumber);
+    throwIfAborted(signal);
+    if (!buffer) continue; // Empty or scanned page
+
+    if (sampleRate === 0) {
+      sampleRate = buffer.sampleRate;
+      if (format === 'mp3') mp3Writer = await createMp3Writer(sampleRate);
+    } else if (buffer.sampleRate !== sampleRate) {
+      throw new Error(`Page ${pageNumber} has a different sample rate (${buffer.sampleRate}Hz vs ${sampleRate}Hz)`);
+    }
+
+    if (totalSamples > 0 && silenceSeconds > 0) {
+      append(new Int16Array(Math.round(silenceSeconds * sampleRate)));
+    }
+    pageStarts.set(pageNumber, totalSamples / sampleRate);
+    append(audioBufferToInt16(buffer));
+  }
+
+  onProgress({ pageNumber: toPage, completed: total, total });
+  if (totalSamples === 0) throw new Error('No readable text in the selected pages');
+
+  const chapters = buildChapters(pageStarts, totalSamples / sampleRate, options);
+  return mp3Writer
+    ? mp3Writer.finish(options.title, chapters)
+    : encodeWav(pcmParts, sampleRate, chapters);
+};
+
+/**
+ * Triggers a browser download for a generated file
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
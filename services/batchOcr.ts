@@ -0,0 +1,148 @@
+import { PDFDocumentProxy } from '../types';
+import { loadPageText, renderPageToCanvas, getCanvasAsBase64 } from './pdfService';
+import { performOCR, performLayoutOCR } from './geminiService';
+import { GeminiError, GeminiRequestOptions } from './geminiClient';
+import { StoredOcrPage } from './ocrStore';
+
+export type OcrPageStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchOcrProgress {
+  phase: 'detecting' | 'recognizing';
+  checkedPages: number; // Pages inspected for missing text so far
+  totalPages: number;
+  pages: Record<number, OcrPageStatus>; // Scanned pages found so far and their state
+}
+
+export interface BatchOcrOptions {
+  doc: PDFDocumentProxy;
+  knownPages: Set<number>; // Pages that already have OCR text and are skipped
+  concurrency?: number;
+  maxRetries?: number;
+  onProgress: (progress: BatchOcrProgress) => void;
+  onPageDone: (pageNumber: number, result: StoredOcrPage) => void;
+  signal: AbortSignal;
+}
+
+// Rendering scale for OCR; higher than on-screen so small print stays legible
+const OCR_RENDER_SCALE = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw new DOMException('Scan canceled', 'AbortError');
+};
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Scan canceled', 'AbortError'));
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Helper: Retries a task with exponential backoff and jitter (1s, 2s, 4s, ...).
+ * Gemini errors are not retried here: the client already retried those that can succeed later.
+ */
+const withRetry = async <T>(task: () => Promise<T>, maxRetries: number, signal: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (attempt >= maxRetries || signal.aborted || err instanceof GeminiError) throw err;
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      console.warn(`[BatchOCR] Attempt ${attempt + 1} failed, retrying in ${delay.toFixed(0)}ms`, err);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+/**
+ * Renders a page to an off-screen canvas at OCR resolution and returns it as base64 JPEG
+ */
+export const renderPageImage = async (doc: PDFDocumentProxy, pageNumber: number): Promise<string> => {
+  const page = await doc.getPage(pageNumber);
+  const canvas = document.createElement('canvas');
+  await renderPageToCanvas(page, canvas, OCR_RENDER_SCALE);
+  const base64 = getCanvasAsBase64(canvas);
+  // Release the bitmap right away instead of waiting for GC
+  canvas.width = 0;
+  canvas.height = 0;
+  return base64;
+};
+
+/**
+ * OCRs a page image with line/word positions, falling back to plain text when the
+ * structured response is unusable (invalid JSON or no valid boxes)
+ */
+export const recognizePageImage = async (imageBase64: string, options: GeminiRequestOptions = {}): Promise<StoredOcrPage> => {
+  try {
+    const layout = await performLayoutOCR(imageBase64, options);
+    return { text: layout.text, layout };
+  } catch (err) {
+    if (!(err instanceof SyntaxError)) throw err;
+    console.warn('[OCR] Structured response unusable, falling back to plain text', err);
+    return { text: await performOCR(imageBase64, options), layout: null };
+  }
+};
+
+/**
+ * OCRs every scanned page of a document that has no OCR text yet.
+ * First finds pages without extractable text, then recognizes them with a bounded
+ * number of parallel requests. Pages that still fail after retries are marked 'failed'
+ * and the job continues; it rejects with an AbortError when canceled.
+ */
+export const runBatchOcr = async (options: BatchOcrOptions): Promise<BatchOcrProgress> => {
+  const { doc, knownPages, concurrency = 2, maxRetries = 3, onProgress, onPageDone, signal } = options;
+  const progress: BatchOcrProgress = { phase: 'detecting', checkedPages: 0, totalPages: doc.numPages, pages: {} };
+  const report = () => onProgress({ ...progress, pages: { ...progress.pages } });
+
+  const scannedPages: number[] = [];
+  for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+    throwIfAborted(signal);
+    if (!knownPages.has(pageNumber)) {
+      const extracted = await loadPageText(doc, pageNumber);
+      if (extracted.isScanned) {
+        scannedPages.push(pageNumber);
+        progress.pages[pageNumber] = 'pending';
+      }
+    }
+    progress.checkedPages = pageNumber;
+    report();
+  }
+
+  progress.phase = 'recognizing';
+  report();
+
+  let next = 0;
+  const worker = async () => {
+    while (next < scannedPages.length) {
+      throwIfAborted(signal);
+      const pageNumber = scannedPages[next++];
+      progress.pages[pageNumber] = 'running';
+      report();
+
+      try {
+        const result = await withRetry(
+          async () => recognizePageImage(await renderPageImage(doc, pageNumber), { signal, background: true }),
+          maxRetries,
+          signal
+        );
+        throwIfAborted(signal);
+        onPageDone(pageNumber, result);
+        progress.pages[pageNumber] = 'done';
+      } catch (err: any) {
+        if (err?.name === 'AbortError') throw err;
+        console.error(`[BatchOCR] Page ${pageNumber} failed`, err);
+        progress.pages[pageNumber] = 'failed';
+      }
+      report();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, scannedPages.length) }, worker));
+  return { ...progress, pages: { ...progress.pages } };
+};
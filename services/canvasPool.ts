@@ -0,0 +1,27 @@
+/**
+ * Recycles canvases for pages that scroll in and out of view, so continuous scrolling does
+ * not create (and garbage-collect) a canvas and its bitmap for every page passed.
+ */
+export interface CanvasPool {
+  acquire: () => HTMLCanvasElement;
+  release: (canvas: HTMLCanvasElement) => void;
+}
+
+export const createCanvasPool = (maxIdle: number = 6): CanvasPool => {
+  const idle: HTMLCanvasElement[] = [];
+
+  return {
+    acquire: () => idle.pop() ?? document.createElement('canvas'),
+
+    release: (canvas) => {
+      canvas.remove();
+      if (idle.length < maxIdle) {
+        idle.push(canvas);
+      } else {
+        // Release the bitmap right away instead of waiting for GC
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+    },
+  };
+};
@@ -0,0 +1,80 @@
+/**
+ * Shared IndexedDB connection for everything the app persists locally.
+ * Each service owns one object store; schema changes go through upgrade() below.
+ */
+
+const DB_NAME = 'ai-smart-reader';
+const DB_VERSION = 5;
+
+export const STORES = {
+  AUDIO: 'audio', // Synthesized speech chunks (audioCacheService)
+  DOCUMENTS: 'documents', // Per-document reading state and bookmarks (documentStore)
+  OCR: 'ocr', // Recognized text of scanned pages (ocrStore)
+  SUMMARIES: 'summaries', // Page, chapter and document summaries (summaryStore)
+  TRANSLATIONS: 'translations', // Translated page text per target language (translationStore)
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Helper: Creates stores and indexes added since oldVersion
+ */
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const audio = db.createObjectStore(STORES.AUDIO, { keyPath: 'key' });
+    audio.createIndex('lastAccessed', 'lastAccessed');
+    // Lets stats be computed with a key cursor, without loading the audio payloads
+    audio.createIndex('size', 'size');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.DOCUMENTS, { keyPath: 'docHash' });
+  }
+  if (oldVersion < 3) {
+    // Compound key, so all pages of a document can be read with one key range
+    db.createObjectStore(STORES.OCR, { keyPath: ['docHash', 'pageNumber'] });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.SUMMARIES, { keyPath: ['docHash', 'id'] });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.TRANSLATIONS, { keyPath: ['docHash', 'targetLang', 'pageNumber'] });
+  }
+};
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Helper: Wraps an IDBRequest in a Promise
+ */
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Helper: Resolves once a transaction has committed
+ */
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
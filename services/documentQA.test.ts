@@ -0,0 +1,84 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Passage } from '../types';
+import { askDocument, parseCitations } from './documentQA';
+import { createSearchIndex } from './searchIndex';
+
+const passage = (pageNumber: number, text: string): Passage => ({ pageNumber, start: 0, end: text.length, text });
+
+describe('parseCitations', () => {
+  const passages = [passage(1, 'One'), passage(4, 'Two'), passage(9, 'Three')];
+
+  it('maps [n] markers to the nth passage, in order of first mention', () => {
+    expect(parseCitations('Second [2], then first [1], second again [2].', passages)).toEqual([
+      { ...passages[1], marker: 2 },
+      { ...passages[0], marker: 1 },
+    ]);
+  });
+
+  it('reads lists of markers', () => {
+    expect(parseCitations('Both [3, 1] and [2][3].', passages).map(c => c.marker)).toEqual([3, 1, 2]);
+  });
+
+  it('ignores markers without a passage', () => {
+    expect(parseCitations('Nothing [0] or [4] here, nor [x].', passages)).toEqual([]);
+  });
+});
+
+describe('askDocument', () => {
+  let server: Server;
+  // Prompts the stub received, to check what was sent
+  const prompts: string[] = [];
+
+  beforeAll(async () => {
+    // Stands in for the Gemini REST API: cites whichever numbered passage mentions 1954
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const { contents } = JSON.parse(body);
+        const prompt: string = contents[contents.length - 1].parts[0].text;
+        prompts.push(prompt);
+        const marker = prompt.match(/\[(\d+)\] \(page \d+\)\n[^\n]*1954/)?.[1];
+        const text = marker ? `The first practical cell was shown in 1954 [${marker}].` : 'The passages do not say.';
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ candidates: [{ content: { parts: [{ text }] }, finishReason: 'STOP' }] }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env.API_KEY = 'test-key';
+    process.env.GEMINI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.API_KEY;
+    delete process.env.GEMINI_BASE_URL;
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('returns the answer with its citations mapped to the passages sent', async () => {
+    const index = createSearchIndex();
+    index.setPageText(1, 'Solar cells turn sunlight into electricity.');
+    index.setPageText(2, 'Bell Labs demonstrated a practical silicon solar cell in 1954.');
+    index.setPageText(3, 'Wind turbines are another source of power.');
+
+    const answer = await askDocument('When was the first solar cell made?', [], index);
+
+    expect(answer.text).toBe(`The first practical cell was shown in 1954 [${answer.citations[0].marker}].`);
+    expect(answer.citations).toHaveLength(1);
+    expect(answer.citations[0].pageNumber).toBe(2);
+    expect(answer.citations[0].text).toContain('Bell Labs');
+    expect(prompts[prompts.length - 1]).toContain('Question: When was the first solar cell made?');
+  });
+
+  it('has no citations when the answer has no markers', async () => {
+    const index = createSearchIndex();
+    index.setPageText(1, 'Wind turbines are another source of power.');
+
+    const answer = await askDocument('Who built the turbines?', [], index);
+
+    expect(answer).toEqual({ text: 'The passages do not say.', citations: [] });
+  });
+});
@@ -0,0 +1,66 @@
+import { ChatMessage, Citation, Passage } from '../types';
+import { SearchIndex } from './searchIndex';
+import { answerQuestion } from './geminiService';
+import { GeminiRequestOptions } from './geminiClient';
+
+// Earlier messages sent along for follow-up questions
+const MAX_HISTORY_MESSAGES = 6;
+// Below this many passages, a follow-up is retried with the previous question's keywords
+const MIN_PASSAGES = 3;
+const MAX_PASSAGES = 8;
+
+// [3] or [1, 4]
+const CITATION_MARKERS = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Helper: Passages for the question; follow-ups ("and the second one?") often lack the
+ * keywords, so the previous question fills up a thin result
+ */
+const retrievePassages = (index: SearchIndex, question: string, history: ChatMessage[]): Passage[] => {
+  const passages = index.retrieve(question, MAX_PASSAGES);
+  const previousQuestion = [...history].reverse().find(message => message.role === 'user')?.text;
+  if (passages.length >= MIN_PASSAGES || !previousQuestion) return passages;
+
+  const seen = new Set(passages.map(p => `${p.pageNumber}:${p.start}`));
+  for (const passage of index.retrieve(`${question} ${previousQuestion}`, MAX_PASSAGES)) {
+    if (passages.length >= MAX_PASSAGES) break;
+    if (!seen.has(`${passage.pageNumber}:${passage.start}`)) passages.push(passage);
+  }
+  return passages;
+};
+
+/**
+ * Passages an answer cites, in order of first mention; markers without a passage are ignored
+ */
+export const parseCitations = (answer: string, passages: Passage[]): Citation[] => {
+  const citations: Citation[] = [];
+  for (const match of answer.matchAll(CITATION_MARKERS)) {
+    for (const marker of match[1].split(',').map(n => parseInt(n, 10))) {
+      const passage = passages[marker - 1];
+      if (passage && !citations.some(c => c.marker === marker)) citations.push({ ...passage, marker });
+    }
+  }
+  return citations;
+};
+
+/**
+ * Answers a question about the open document from the passages of the search index that
+ * match it best (pages not indexed yet, e.g. unscanned ones, are not searched)
+ */
+export const askDocument = async (
+  question: string,
+  history: ChatMessage[],
+  index: SearchIndex,
+  options: GeminiRequestOptions = {}
+): Promise<Pick<ChatMessage, 'text' | 'citations'>> => {
+  const passages = retrievePassages(index, question, history);
+  const turns = history
+    .filter(message => !message.isError)
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(({ role, text }) => ({ role, text }));
+  // The conversation sent must open with a question
+  while (turns[0]?.role === 'assistant') turns.shift();
+
+  const text = await answerQuestion(question, passages, turns, options);
+  return { text, citations: parseCitations(text, passages) };
+};
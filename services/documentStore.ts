@@ -0,0 +1,52 @@
+import { DocumentState, ReaderMode } from '../types';
+import { openDB, promisify, transactionDone, STORES } from './db';
+
+/**
+ * Per-document reading state (last position, mode, rate, bookmarks), keyed by content hash
+ * so a renamed or re-downloaded copy of the same PDF resumes where it left off.
+ */
+
+const STORE_NAME = STORES.DOCUMENTS;
+
+const DEFAULT_STATE: Omit<DocumentState, 'docHash' | 'updatedAt'> = {
+  name: '',
+  lastPage: 1,
+  charOffset: 0,
+  readerMode: ReaderMode.IDLE,
+  providerId: '',
+  playbackRate: 1.0,
+  bookmarks: [],
+};
+
+export const loadDocumentState = async (docHash: string): Promise<DocumentState | null> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const state = await promisify<DocumentState | undefined>(tx.objectStore(STORE_NAME).get(docHash));
+  return state ?? null;
+};
+
+/**
+ * Merges a partial update into the stored state. The read and write share one
+ * transaction, so concurrent updates (position vs. bookmarks) do not clobber each other.
+ */
+export const updateDocumentState = async (
+  docHash: string,
+  patch: Partial<Omit<DocumentState, 'docHash' | 'updatedAt'>>
+): Promise<DocumentState> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+
+  const existing = await promisify<DocumentState | undefined>(store.get(docHash));
+  const next: DocumentState = {
+    ...DEFAULT_STATE,
+    ...existing,
+    ...patch,
+    docHash,
+    updatedAt: Date.now(),
+  };
+  store.put(next);
+  await transactionDone(tx);
+
+  return next;
+};
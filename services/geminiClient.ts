@@ -0,0 +1,266 @@
+import { ApiError, FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { createRequestLimiter } from "./requestLimiter";
+
+/**
+ * Shared Gemini client: one SDK instance, a global limit on parallel requests,
+ * retries with exponential backoff on rate limits and server errors, cancellation,
+ * and errors classified into the types below. With GEMINI_PROXY_URL set, speech and
+ * OCR requests go to the proxy server (server/) through the same machinery.
+ */
+
+export interface GeminiRequestOptions {
+  signal?: AbortSignal;
+  background?: boolean; // Prefetching and batch jobs; yields to requests the user is waiting for
+}
+
+// --- Errors ---
+
+// Also sent by the proxy server, so its errors arrive as the same types
+export type GeminiErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'empty' | 'request';
+
+export class GeminiError extends Error {
+  readonly kind: GeminiErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(message: string, retryable = false, status?: number, kind: GeminiErrorKind = 'request') {
+    super(message);
+    this.name = 'GeminiError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+/** Missing, invalid or unauthorized API key */
+export class GeminiAuthError extends GeminiError {
+  constructor(message = 'The Gemini API key is missing or not valid', status?: number) {
+    super(message, false, status, 'auth');
+    this.name = 'GeminiAuthError';
+  }
+}
+
+/** Rate limit or quota exhausted; retried, and only surfaced once retries run out */
+export class GeminiQuotaError extends GeminiError {
+  readonly retryAfterMs?: number; // Delay the server asked for, when it said
+
+  constructor(message = 'The Gemini quota is used up; try again later', retryAfterMs?: number) {
+    super(message, true, 429, 'quota');
+    this.name = 'GeminiQuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** The prompt or the response was blocked by safety filters; retrying will not help */
+export class GeminiSafetyError extends GeminiError {
+  constructor(message = 'Gemini declined this content') {
+    super(message, false, undefined, 'safety');
+    this.name = 'GeminiSafetyError';
+  }
+}
+
+/** Connection failures and server errors (5xx) */
+export class GeminiNetworkError extends GeminiError {
+  constructor(message = 'Could not reach Gemini; check the network connection', status?: number) {
+    super(message, true, status, 'network');
+    this.name = 'GeminiNetworkError';
+  }
+}
+
+/** A successful response without the expected audio or text */
+export class GeminiEmptyResponseError extends GeminiError {
+  constructor(message = 'Gemini returned an empty response') {
+    super(message, false, undefined, 'empty');
+    this.name = 'GeminiEmptyResponseError';
+  }
+}
+
+// --- Client ---
+
+const MAX_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+const limiter = createRequestLimiter({ maxConcurrent: 3, minIntervalMs: 200 });
+
+let cachedClient: { key: string; ai: GoogleGenAI } | null = null;
+
+// GEMINI_BASE_URL points every call at another server speaking the Gemini REST API (e.g. a mock)
+const getClient = (): GoogleGenAI => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) throw new GeminiAuthError('No Gemini API key is configured');
+  const baseUrl = process.env.GEMINI_BASE_URL;
+  const key = `${apiKey}|${baseUrl ?? ''}`;
+  if (cachedClient?.key !== key) {
+    cachedClient = { key, ai: new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined }) };
+  }
+  return cachedClient.ai;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isAbortError = (err: unknown): boolean => err instanceof Error && err.name === 'AbortError';
+
+/**
+ * Helper: Reads the message and retry delay out of the JSON error body the SDK puts in ApiError.message
+ */
+const parseErrorBody = (raw: string): { message: string; reason?: string; retryAfterMs?: number } => {
+  try {
+    const body: unknown = JSON.parse(raw);
+    const error = isObject(body) && isObject(body.error) ? body.error : {};
+    const details = Array.isArray(error.details) ? error.details.filter(isObject) : [];
+    const reason = details.map(d => d.reason).find((r): r is string => typeof r === 'string');
+    const delay = details.map(d => d.retryDelay).find((d): d is string => typeof d === 'string');
+    const seconds = delay ? parseFloat(delay) : NaN;
+    return {
+      message: typeof error.message === 'string' ? error.message : raw,
+      reason,
+      retryAfterMs: Number.isFinite(seconds) ? seconds * 1000 : undefined,
+    };
+  } catch {
+    return { message: raw };
+  }
+};
+
+/**
+ * Maps anything thrown by the SDK or fetch to a GeminiError. AbortErrors are passed
+ * through untouched so callers can keep telling cancellation apart from failure.
+ */
+export const toGeminiError = (err: unknown): unknown => {
+  if (err instanceof GeminiError || isAbortError(err)) return err;
+
+  if (err instanceof ApiError) {
+    const { message, reason, retryAfterMs } = parseErrorBody(err.message);
+    if (err.status === 401 || err.status === 403 || reason === 'API_KEY_INVALID') {
+      return new GeminiAuthError(`The Gemini API key was rejected: ${message}`, err.status);
+    }
+    if (err.status === 429) return new GeminiQuotaError(undefined, retryAfterMs);
+    if (err.status >= 500) return new GeminiNetworkError(`Gemini is unavailable right now (${err.status})`, err.status);
+    return new GeminiError(message, false, err.status);
+  }
+
+  // fetch rejects with a TypeError when the connection fails
+  if (err instanceof TypeError) return new GeminiNetworkError();
+  return err;
+};
+
+const BLOCKED_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII,
+];
+
+/**
+ * Throws a GeminiSafetyError when the prompt or the only candidate was blocked
+ */
+export const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new GeminiSafetyError(`Gemini declined this content (${blockReason.toLowerCase()})`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new GeminiSafetyError(`Gemini declined this content (${finishReason.toLowerCase()})`);
+  }
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Request canceled', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Helper: Runs a request through the shared limiter, retrying rate limits and server errors
+ * with exponential backoff and jitter. The slot is given up while waiting to retry.
+ */
+const withRetries = async <T>(
+  request: () => Promise<T>,
+  { signal, background = false }: GeminiRequestOptions
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    const release = await limiter.acquire(signal, background);
+    try {
+      return await request();
+    } catch (raw) {
+      const err = toGeminiError(raw);
+      if (!(err instanceof GeminiError) || !err.retryable || attempt >= MAX_RETRIES || signal?.aborted) throw err;
+      // Waiting out a daily quota is pointless; say so instead
+      if (err instanceof GeminiQuotaError && (err.retryAfterMs ?? 0) > RETRY_MAX_DELAY_MS) throw err;
+
+      const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS) * (0.75 + Math.random() * 0.5);
+      const delay = Math.max(backoff, err instanceof GeminiQuotaError ? err.retryAfterMs ?? 0 : 0);
+      // A rate limit applies to every request, so hold them all back, not just this one
+      if (err instanceof GeminiQuotaError) limiter.pause(delay);
+      console.warn(`[Gemini] ${err.name} on attempt ${attempt + 1}, retrying in ${delay.toFixed(0)}ms`, err);
+      release();
+      await sleep(delay, signal);
+    } finally {
+      release();
+    }
+  }
+};
+
+/**
+ * Runs a generateContent request with the shared limits and retries. Throws GeminiError
+ * subclasses, or an AbortError when `signal` fires (in-flight requests are aborted too).
+ */
+export const generateContent = (
+  params: GenerateContentParameters,
+  options: GeminiRequestOptions = {}
+): Promise<GenerateContentResponse> => withRetries(async () => {
+  const response = await getClient().models.generateContent({
+    ...params,
+    config: { ...params.config, abortSignal: options.signal },
+  });
+  throwIfBlocked(response);
+  return response;
+}, options);
+
+// --- Proxy ---
+
+export const getGeminiProxyUrl = (): string | null => process.env.GEMINI_PROXY_URL || null;
+
+/**
+ * Helper: Rebuilds the typed error the proxy server sent as `{ error: { kind, message } }`
+ */
+const fromProxyError = async (response: Response): Promise<GeminiError> => {
+  const body = await response.json().catch(() => null);
+  const kind: GeminiErrorKind | undefined = body?.error?.kind;
+  const message: string = body?.error?.message || `Proxy request failed: ${response.status} ${response.statusText}`;
+  const retryAfter = parseFloat(response.headers.get('Retry-After') ?? '');
+
+  if (kind === 'auth') return new GeminiAuthError(message, response.status);
+  if (kind === 'quota' || response.status === 429) {
+    return new GeminiQuotaError(message, Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined);
+  }
+  if (kind === 'safety') return new GeminiSafetyError(message);
+  if (kind === 'empty') return new GeminiEmptyResponseError(message);
+  if (kind === 'network' || response.status >= 500) return new GeminiNetworkError(message, response.status);
+  return new GeminiError(message, false, response.status);
+};
+
+/**
+ * POSTs a JSON body to an endpoint of the proxy server, with the same limits, retries and
+ * typed errors as direct requests. Resolves with the successful response, body unread.
+ */
+export const fetchFromProxy = (
+  path: string,
+  body: unknown,
+  options: GeminiRequestOptions = {}
+): Promise<Response> => withRetries(async () => {
+  const proxyUrl = getGeminiProxyUrl();
+  if (!proxyUrl) throw new GeminiError('No Gemini proxy is configured');
+  const response = await fetch(new URL(path, proxyUrl), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+  if (!response.ok) throw await fromProxyError(response);
+  return response;
+}, options);
@@ -0,0 +1,74 @@
+import { GenerateContentParameters, Modality, Type } from "@google/genai";
+
+/**
+ * Speech and OCR requests as sent to Gemini, shared by the browser (direct mode) and the
+ * proxy server (server/), so both produce the same results.
+ */
+
+// Bounding boxes use Gemini's native convention: [ymin, xmin, ymax, xmax] on a 0-1000 grid
+const BOX_SCHEMA = { type: Type.ARRAY, items: { type: Type.NUMBER } };
+
+const OCR_LAYOUT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    lines: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          box: BOX_SCHEMA,
+          words: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { text: { type: Type.STRING }, box: BOX_SCHEMA },
+              required: ['text', 'box'],
+            },
+          },
+        },
+        required: ['text', 'box'],
+      },
+    },
+  },
+  required: ['lines'],
+};
+
+export const buildSpeechRequest = (text: string, voiceName: string, stylePrompt: string): GenerateContentParameters => ({
+  model: "gemini-2.5-flash-preview-tts",
+  contents: [{ parts: [{ text: `${stylePrompt}: ${text}` }] }],
+  config: {
+    responseModalities: [Modality.AUDIO],
+    speechConfig: {
+      voiceConfig: {
+        prebuiltVoiceConfig: { voiceName },
+      },
+    },
+  },
+});
+
+/**
+ * Plain OCR returns the page text; layout OCR returns JSON lines with bounding boxes
+ * (see parseOcrLayout)
+ */
+export const buildOcrRequest = (imageBase64: string, withLayout: boolean): GenerateContentParameters => ({
+  model: "gemini-2.5-flash",
+  contents: {
+    parts: [
+      {
+          inlineData: {
+              mimeType: 'image/jpeg',
+              data: imageBase64
+          }
+      },
+      {
+          text: withLayout
+            ? "Extract all readable text from this document page, line by line in reading order. " +
+              "For every line give its text and bounding box, and the bounding box of each word. " +
+              "Boxes are [ymin, xmin, ymax, xmax] normalized to 0-1000."
+            : "Extract all readable text from this document page. Output ONLY the text content. Preserve the paragraph structure."
+      }
+    ]
+  },
+  config: withLayout ? { responseMimeType: 'application/json', responseSchema: OCR_LAYOUT_SCHEMA } : undefined,
+});
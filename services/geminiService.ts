@@ -1,10 +1,25 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { Type } from "@google/genai";
+import { OcrPageLayout, Passage } from "../types";
+import { parseOcrLayout } from "./ocrLayout";
+import { generateContent, fetchFromProxy, getGeminiProxyUrl, GeminiEmptyResponseError, GeminiRequestOptions } from "./geminiClient";
+import { buildSpeechRequest, buildOcrRequest } from "./geminiRequests";
 
-const getAI = () => {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) throw new Error("API Key not found");
-    return new GoogleGenAI({ apiKey });
-}
+// Gemini TTS returns 16-bit mono PCM at this rate
+export const GEMINI_TTS_SAMPLE_RATE = 24000;
+export const DEFAULT_GEMINI_VOICE = 'Fenrir';
+
+// Prebuilt voices accepted by the TTS models
+export const GEMINI_VOICES = [
+  'Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede', 'Callirrhoe', 'Autonoe',
+  'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina', 'Erinome', 'Algenib', 'Rasalgethi',
+  'Laomedeia', 'Achernar', 'Alnilam', 'Schedar', 'Gacrux', 'Pulcherrima', 'Achird',
+  'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia', 'Sadaltager', 'Sulafat',
+];
+
+export const hasGeminiApiKey = (): boolean => !!process.env.API_KEY;
+
+// Through the proxy server only speech and OCR are available; everything else needs the key
+export const hasGeminiSpeechAndOcr = (): boolean => hasGeminiApiKey() || !!getGeminiProxyUrl();
 
 /**
  * Helper: Decodes base64 string to Uint8Array
@@ -26,13 +41,13 @@ const decodeBase64 = (base64: string): Uint8Array => {
  */
 const pcmToAudioBuffer = (
   data: Uint8Array,
-  ctx: AudioContext,
   sampleRate: number = 24000,
   numChannels: number = 1
 ): AudioBuffer => {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const frameCount = Math.floor(dataInt16.length / numChannels);
+  // The AudioBuffer constructor needs no AudioContext, so decoding many chunks stays cheap
+  const buffer = new AudioBuffer({ numberOfChannels: numChannels, length: frameCount, sampleRate });
 
   for (let channel = 0; channel < numChannels; channel++) {
     const channelData = buffer.getChannelData(channel);
@@ -45,71 +60,165 @@ const pcmToAudioBuffer = (
 };
 
 /**
- * Generates Speech using Gemini 2.5 Flash TTS
+ * Generates Speech using Gemini 2.5 Flash TTS and returns the raw PCM bytes.
+ * Callers that persist audio (see audioCacheService) store this directly.
+ * Long page text must be split first (see chunkTextForSpeech); one request per chunk.
+ * Goes through the proxy server when one is configured.
  */
-export const generateSpeech = async (text: string): Promise<AudioBuffer> => {
-  const ai = getAI();
-  
-  // Truncate text to avoid timeouts or token limits for a single generation request
-  const safeText = text.substring(0, 2000); 
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: `Read this text clearly and naturally: ${safeText}` }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Fenrir' }, // Options: Puck, Charon, Kore, Fenrir, Zephyr
-        },
-      },
-    },
-  });
+export const generateSpeechPCM = async (
+  text: string,
+  voiceName: string = DEFAULT_GEMINI_VOICE,
+  stylePrompt: string = 'Read this text clearly and naturally',
+  options: GeminiRequestOptions = {}
+): Promise<Uint8Array> => {
+  if (getGeminiProxyUrl()) {
+    const response = await fetchFromProxy('/tts', { text, voice: voiceName, style: stylePrompt }, options);
+    const pcmData = new Uint8Array(await response.arrayBuffer());
+    if (pcmData.length === 0) throw new GeminiEmptyResponseError("No audio data returned from the proxy");
+    return pcmData;
+  }
+
+  const response = await generateContent(buildSpeechRequest(text, voiceName, stylePrompt), options);
 
   const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
 
   if (!base64Audio) {
-    throw new Error("No audio data returned from Gemini");
+    throw new GeminiEmptyResponseError("No audio data returned from Gemini");
   }
 
   // Decode base64 to raw binary
-  const pcmData = decodeBase64(base64Audio);
+  return decodeBase64(base64Audio);
+};
 
-  // Use a temporary context to create the buffer. 
+/**
+ * Converts Gemini PCM (fresh or from cache) into a playable AudioBuffer
+ */
+export const decodeSpeechPCM = (pcmData: Uint8Array): AudioBuffer => {
   // The sample rate here (24000) MUST match the model's output.
-  const tempCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-  const buffer = pcmToAudioBuffer(pcmData, tempCtx, 24000);
-  
-  // We don't need to keep tempCtx open, we just needed its factory method
-  if (tempCtx.state !== 'closed') {
-      tempCtx.close().catch(() => {}); 
+  return pcmToAudioBuffer(pcmData, GEMINI_TTS_SAMPLE_RATE);
+};
+
+/**
+ * Helper: Runs an OCR request directly or through the proxy server and returns the response text
+ */
+const recognizeText = async (imageBase64: string, withLayout: boolean, options: GeminiRequestOptions): Promise<string> => {
+  if (getGeminiProxyUrl()) {
+    const response = await fetchFromProxy('/ocr', { image: imageBase64, layout: withLayout }, options);
+    const { text } = await response.json();
+    return typeof text === 'string' ? text : '';
   }
-  
-  return buffer;
+  const response = await generateContent(buildOcrRequest(imageBase64, withLayout), options);
+  return response.text || '';
 };
 
 /**
  * Performs OCR on a scanned PDF page image
  */
-export const performOCR = async (imageBase64: string): Promise<string> => {
-  const ai = getAI();
-  
-  const response = await ai.models.generateContent({
+export const performOCR = async (imageBase64: string, options: GeminiRequestOptions = {}): Promise<string> => {
+  return (await recognizeText(imageBase64, false, options)) || "Could not extract text.";
+};
+
+/**
+ * Performs OCR with line and word positions, for a selectable text layer over scanned pages.
+ * The returned boxes are validated and normalized to fractions of the image.
+ */
+export const performLayoutOCR = async (imageBase64: string, options: GeminiRequestOptions = {}): Promise<OcrPageLayout> => {
+  const layout = parseOcrLayout((await recognizeText(imageBase64, true, options)) || '{}');
+  // Treated like malformed JSON by callers, which fall back to plain OCR
+  if (!layout.text) throw new SyntaxError('OCR returned no positioned text');
+  return layout;
+};
+
+/**
+ * Generates a plain-text summary of `text` following `instructions` (scope, length, audience).
+ * The summary is written in the language of the text.
+ */
+export const generateSummary = async (
+  text: string,
+  instructions: string,
+  options: GeminiRequestOptions = {}
+): Promise<string> => {
+  const response = await generateContent({
     model: "gemini-2.5-flash",
     contents: {
       parts: [
         {
-            inlineData: {
-                mimeType: 'image/jpeg',
-                data: imageBase64
-            }
-        },
+            text: `${instructions} Write in the same language as the text. ` +
+              "Output ONLY the summary as plain prose, without headings, lists or markdown.\n\n" + text
+        }
+      ]
+    },
+  }, options);
+
+  const summary = response.text?.trim();
+  if (!summary) throw new GeminiEmptyResponseError("No summary returned from Gemini");
+  return summary;
+};
+
+/**
+ * Answers a question about a document from retrieved passages only. The answer cites
+ * passages inline as [n], where n is the passage's 1-based position in `passages`.
+ * `history` holds earlier turns of the conversation, oldest first, for follow-up questions.
+ */
+export const answerQuestion = async (
+  question: string,
+  passages: Passage[],
+  history: Array<{ role: 'user' | 'assistant'; text: string }> = [],
+  options: GeminiRequestOptions = {}
+): Promise<string> => {
+  const context = passages
+    .map((passage, i) => `[${i + 1}] (page ${passage.pageNumber})\n${passage.text}`)
+    .join('\n\n');
+
+  const response = await generateContent({
+    model: "gemini-2.5-flash",
+    contents: [
+      ...history.map(turn => ({ role: turn.role === 'user' ? 'user' : 'model', parts: [{ text: turn.text }] })),
+      { role: 'user', parts: [{ text: `Passages:\n\n${context || '(none found)'}\n\nQuestion: ${question}` }] },
+    ],
+    config: {
+      systemInstruction:
+        "You answer questions about a document using ONLY the numbered passages given with each question. " +
+        "Cite every statement with the passage numbers it comes from, like [2] or [1][3]. " +
+        "If the passages do not contain the answer, say so briefly instead of guessing. " +
+        "Answer in the language of the question, in plain prose without markdown.",
+    },
+  }, options);
+
+  const answer = response.text?.trim();
+  if (!answer) throw new GeminiEmptyResponseError("No answer returned from Gemini");
+  return answer;
+};
+
+/**
+ * Translates paragraphs into `targetLanguage` (an English language name), one translation
+ * per paragraph in the same order. Throws if the model merges or splits paragraphs.
+ */
+export const translateParagraphs = async (
+  paragraphs: string[],
+  targetLanguage: string,
+  options: GeminiRequestOptions = {}
+): Promise<string[]> => {
+  const response = await generateContent({
+    model: "gemini-2.5-flash",
+    contents: {
+      parts: [
         {
-            text: "Extract all readable text from this document page. Output ONLY the text content. Preserve the paragraph structure."
+            text: `Translate each paragraph in the JSON array below into ${targetLanguage}. ` +
+              "Return a JSON array with exactly one translated string per input paragraph, in the same order. " +
+              "Translate faithfully for reading aloud; do not add notes or explanations.\n\n" + JSON.stringify(paragraphs)
         }
       ]
-    }
-  });
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+  }, options);
 
-  return response.text || "Could not extract text.";
-};
\ No newline at end of file
+  const translated = JSON.parse(response.text || '[]');
+  if (!Array.isArray(translated) || translated.length !== paragraphs.length || translated.some(t => typeof t !== 'string')) {
+    throw new SyntaxError('Translation does not match the paragraphs');
+  }
+  return translated;
+};
@@ -0,0 +1,27 @@
+import { AudioTTSProvider } from '../types';
+import { getSpeechStyle } from '../data/speechStyles';
+import { generateSpeechPCM, decodeSpeechPCM, hasGeminiSpeechAndOcr, DEFAULT_GEMINI_VOICE, GEMINI_VOICES } from './geminiService';
+
+export const geminiTTSProvider: AudioTTSProvider = {
+  kind: 'audio',
+  id: 'gemini',
+  label: 'Gemini AI Voice',
+  defaultVoice: DEFAULT_GEMINI_VOICE,
+  capabilities: {
+    wordBoundaries: false,
+    cacheable: true,
+    maxChunkChars: 1500,
+    requiresNetwork: true,
+    styles: true,
+  },
+
+  isAvailable: hasGeminiSpeechAndOcr,
+
+  // Prebuilt voices are multilingual, so no lang is reported
+  getVoices: async () => GEMINI_VOICES.map(name => ({ id: name, name })),
+
+  synthesize: (text, { voice, style, signal, background }) =>
+    generateSpeechPCM(text, voice || DEFAULT_GEMINI_VOICE, getSpeechStyle(style).prompt, { signal, background }),
+
+  decode: async (data) => decodeSpeechPCM(data),
+};
@@ -0,0 +1,37 @@
+/**
+ * Generation tokens: work started for one document (or one playback request) captures the
+ * current generation; starting the next one aborts the previous generation's requests and
+ * lets results that still arrive see that they are stale and drop them.
+ */
+
+export interface Generation {
+  readonly signal: AbortSignal; // Aborted as soon as a newer generation starts
+  isCurrent: () => boolean;
+}
+
+export interface GenerationCounter {
+  current: () => Generation;
+  next: () => Generation; // Supersedes the current generation
+}
+
+export const createGenerationCounter = (): GenerationCounter => {
+  let controller = new AbortController();
+  let id = 0;
+
+  const make = (): Generation => {
+    const mine = id;
+    return { signal: controller.signal, isCurrent: () => mine === id };
+  };
+  let current = make();
+
+  return {
+    current: () => current,
+    next: () => {
+      controller.abort(new DOMException('Superseded', 'AbortError'));
+      controller = new AbortController();
+      id++;
+      current = make();
+      return current;
+    },
+  };
+};
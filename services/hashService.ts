@@ -0,0 +1,33 @@
+/**
+ * Content hashing helpers (SHA-256 via Web Crypto).
+ * Used to identify documents and page texts independently of file names.
+ */
+
+const toHex = (digest: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Hashes raw bytes (e.g. the contents of an uploaded PDF)
+ */
+export const hashBytes = async (data: ArrayBuffer | Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return toHex(digest);
+};
+
+/**
+ * Hashes a string as UTF-8
+ */
+export const hashText = async (text: string): Promise<string> => {
+  return hashBytes(new TextEncoder().encode(text));
+};
+
+/**
+ * Hashes the full content of a File. Reads the file separately from loadPDF,
+ * because pdf.js transfers (detaches) the buffer it is given to its worker.
+ */
+export const hashFile = async (file: File): Promise<string> => {
+  return hashBytes(await file.arrayBuffer());
+};
@@ -0,0 +1,116 @@
+import { AudioTTSProvider, TTSProviderSettings } from '../types';
+
+/**
+ * Generic HTTP speech backend, configured at runtime from the provider settings dialog.
+ *
+ * - 'openai': OpenAI-compatible `POST /v1/audio/speech` (OpenAI, kokoro-fastapi, openedai-speech, ...)
+ * - 'plain':  `POST { text, voice }` returning a WAV file (e.g. Piper's http_server)
+ */
+
+export type HttpTTSApiStyle = 'openai' | 'plain';
+
+export interface HttpTTSConfig {
+  endpoint: string;
+  apiStyle: HttpTTSApiStyle;
+  apiKey: string;
+  model: string;
+  voices: string; // Comma separated; the first one is the default
+}
+
+const STORAGE_KEY = 'ai-reader.httpTTS';
+
+// Decoded audio is resampled to the same rate as Gemini so cached pages assemble uniformly
+const DECODE_SAMPLE_RATE = 24000;
+
+const DEFAULT_CONFIG: HttpTTSConfig = {
+  endpoint: '',
+  apiStyle: 'openai',
+  apiKey: '',
+  model: 'tts-1',
+  voices: 'alloy, echo, fable, onyx, nova, shimmer',
+};
+
+export const loadHttpTTSConfig = (): HttpTTSConfig => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_CONFIG, ...JSON.parse(raw) } : { ...DEFAULT_CONFIG };
+  } catch {
+    return { ...DEFAULT_CONFIG };
+  }
+};
+
+export const saveHttpTTSConfig = (config: HttpTTSConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+const voiceList = (config: HttpTTSConfig): string[] => {
+  return config.voices.split(',').map(v => v.trim()).filter(Boolean);
+};
+
+const buildRequest = (config: HttpTTSConfig, text: string, voice: string): RequestInit => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+  const body = config.apiStyle === 'openai'
+    ? { model: config.model, input: text, voice, response_format: 'wav' }
+    : { text, voice: voice || undefined };
+
+  return { method: 'POST', headers, body: JSON.stringify(body) };
+};
+
+const settings: TTSProviderSettings = {
+  fields: [
+    { key: 'endpoint', label: 'Endpoint URL', type: 'text', placeholder: 'http://localhost:5000/v1/audio/speech' },
+    { key: 'apiStyle', label: 'API style', type: 'select', options: ['openai', 'plain'], hint: "'plain' posts { text, voice } and expects WAV back (Piper)" },
+    { key: 'apiKey', label: 'API key (optional)', type: 'password' },
+    { key: 'model', label: 'Model', type: 'text', hint: 'Only used by the openai style' },
+    { key: 'voices', label: 'Voices', type: 'text', hint: 'Comma separated, first is the default' },
+  ],
+  load: () => ({ ...loadHttpTTSConfig() }),
+  save: (values) => saveHttpTTSConfig({ ...loadHttpTTSConfig(), ...values } as HttpTTSConfig),
+};
+
+export const httpTTSProvider: AudioTTSProvider = {
+  kind: 'audio',
+  id: 'http',
+  label: 'Custom HTTP Voice',
+  get defaultVoice() {
+    return voiceList(loadHttpTTSConfig())[0] || '';
+  },
+  capabilities: {
+    wordBoundaries: false,
+    cacheable: true,
+    maxChunkChars: 1500,
+    requiresNetwork: true,
+    styles: false,
+  },
+  settings,
+
+  isAvailable: () => !!loadHttpTTSConfig().endpoint,
+
+  getVoices: async () => voiceList(loadHttpTTSConfig()).map(v => ({ id: v, name: v })),
+
+  // Another server or model speaks differently; the API key does not change the audio
+  cacheVariant: () => {
+    const { endpoint, apiStyle, model } = loadHttpTTSConfig();
+    return JSON.stringify([endpoint, apiStyle, apiStyle === 'openai' ? model : '']);
+  },
+
+  synthesize: async (text, { voice, signal }) => {
+    const config = loadHttpTTSConfig();
+    if (!config.endpoint) throw new Error('HTTP voice endpoint is not configured');
+
+    const request = buildRequest(config, text, voice || voiceList(config)[0] || '');
+    const response = await fetch(config.endpoint, { ...request, signal });
+    if (!response.ok) {
+      throw new Error(`HTTP voice request failed: ${response.status} ${response.statusText}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  },
+
+  decode: async (data) => {
+    const ctx = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+    // decodeAudioData detaches its input, so hand it a copy and keep the cached bytes intact
+    return ctx.decodeAudioData(data.slice().buffer);
+  },
+};
@@ -0,0 +1,79 @@
+/**
+ * Lightweight script-based language detection for page text.
+ * Good enough to pick a matching speech voice; not a general-purpose identifier.
+ */
+
+const SCRIPT_PATTERNS: Array<{ lang: string; regex: RegExp }> = [
+  { lang: 'ja', regex: /[぀-ヿ]/g }, // Hiragana / Katakana (checked before Han)
+  { lang: 'ko', regex: /[가-힯]/g },
+  { lang: 'zh', regex: /[一-鿿㐀-䶿]/g },
+  { lang: 'ru', regex: /[Ѐ-ӿ]/g },
+  { lang: 'ar', regex: /[؀-ۿ]/g },
+  { lang: 'el', regex: /[Ͱ-Ͽ]/g },
+  { lang: 'he', regex: /[֐-׿]/g },
+  { lang: 'th', regex: /[฀-๿]/g },
+  { lang: 'hi', regex: /[ऀ-ॿ]/g },
+];
+
+const LATIN_REGEX = /[A-Za-zÀ-ɏ]/g;
+
+// Common function words for telling Latin-script languages apart
+const LATIN_STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'with'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'ein'],
+  fr: ['le', 'la', 'les', 'et', 'des', 'est', 'une', 'dans'],
+  es: ['el', 'los', 'las', 'y', 'que', 'del', 'una', 'por'],
+  it: ['il', 'che', 'della', 'per', 'una', 'sono', 'gli', 'non'],
+  pt: ['o', 'os', 'que', 'não', 'uma', 'com', 'para', 'dos'],
+};
+
+const SAMPLE_LENGTH = 2000;
+
+const countMatches = (text: string, regex: RegExp): number => (text.match(regex) || []).length;
+
+const detectLatinLanguage = (text: string): string => {
+  const words = text.toLowerCase().split(/[^a-zà-ÿ]+/).filter(Boolean);
+  let best = 'en';
+  let bestScore = 0;
+  for (const [lang, stopwords] of Object.entries(LATIN_STOPWORDS)) {
+    const set = new Set(stopwords);
+    const score = words.reduce((n, w) => n + (set.has(w) ? 1 : 0), 0);
+    if (score > bestScore) {
+      best = lang;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Returns a primary language subtag (e.g. 'zh', 'en'), or null for empty text.
+ * Kana beats Han because Japanese text mixes both.
+ */
+export const detectLanguage = (text: string): string | null => {
+  const sample = text.substring(0, SAMPLE_LENGTH);
+  if (!sample.trim()) return null;
+
+  const latinCount = countMatches(sample, LATIN_REGEX);
+  let best: { lang: string; count: number } | null = null;
+
+  for (const { lang, regex } of SCRIPT_PATTERNS) {
+    const count = countMatches(sample, regex);
+    // A few kana are enough to mark Japanese, even in Han-heavy text
+    if (lang === 'ja' && count > 5) return 'ja';
+    if (count > 0 && (!best || count > best.count)) best = { lang, count };
+  }
+
+  // CJK characters carry roughly a word each, Latin letters a fifth of one
+  if (best && best.count * (best.lang === 'zh' || best.lang === 'ko' ? 5 : 1) >= latinCount) {
+    return best.lang;
+  }
+  return latinCount > 0 ? detectLatinLanguage(sample) : null;
+};
+
+/**
+ * True if a BCP 47 tag (e.g. 'zh-CN') belongs to a primary language ('zh')
+ */
+export const matchesLanguage = (tag: string, lang: string): boolean => {
+  return tag.toLowerCase().replace('_', '-').split('-')[0] === lang.toLowerCase();
+};
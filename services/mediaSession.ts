@@ -0,0 +1,81 @@
+import { encodeWav } from './audioEncoders';
+
+/**
+ * Thin wrappers over navigator.mediaSession (OS media widget, headset buttons and media keys).
+ * Every call is a no-op where the API is missing, and unsupported actions are skipped,
+ * since browsers throw for actions they do not know.
+ */
+
+export interface MediaMetadataInfo {
+  title: string;
+  artist: string;
+  album: string;
+}
+
+// Length of the silent keep-alive loop; some platforms ignore media shorter than 5s
+const KEEP_ALIVE_SECONDS = 10;
+const KEEP_ALIVE_SAMPLE_RATE = 8000;
+
+const isSupported = () => typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+export const setMediaMetadata = (info: MediaMetadataInfo | null) => {
+  if (!isSupported()) return;
+  navigator.mediaSession.metadata = info ? new MediaMetadata(info) : null;
+};
+
+export const setMediaPlaybackState = (state: MediaSessionPlaybackState) => {
+  if (!isSupported()) return;
+  navigator.mediaSession.playbackState = state;
+};
+
+/**
+ * Reports the position within the current page so the OS widget can show and extrapolate
+ * progress. Pass null to clear it (e.g. while no page text is loaded).
+ */
+export const setMediaPositionState = (state: { duration: number; position: number; playbackRate: number } | null) => {
+  if (!isSupported() || !navigator.mediaSession.setPositionState) return;
+  try {
+    if (!state || !(state.duration > 0)) {
+      navigator.mediaSession.setPositionState();
+      return;
+    }
+    navigator.mediaSession.setPositionState({
+      duration: state.duration,
+      position: Math.max(0, Math.min(state.position, state.duration)),
+      playbackRate: state.playbackRate,
+    });
+  } catch (err) {
+    console.warn('[MediaSession] Failed to set position state', err);
+  }
+};
+
+/**
+ * Routes the given actions to one handler; returns a function that removes them again
+ */
+export const setMediaActionHandlers = (
+  actions: MediaSessionAction[],
+  handle: (action: MediaSessionAction, details: MediaSessionActionDetails) => void
+): (() => void) => {
+  if (!isSupported()) return () => {};
+  const installed: MediaSessionAction[] = [];
+  for (const action of actions) {
+    try {
+      navigator.mediaSession.setActionHandler(action, details => handle(action, details));
+      installed.push(action);
+    } catch {
+      // Action not supported by this browser
+    }
+  }
+  return () => installed.forEach(action => navigator.mediaSession.setActionHandler(action, null));
+};
+
+/**
+ * Browsers only route media keys to a page that is playing a media element; neither Web Speech
+ * nor Web Audio counts. This looping silent <audio> stands in for them while reading.
+ */
+export const createMediaKeepAlive = (): HTMLAudioElement => {
+  const silence = new Int16Array(KEEP_ALIVE_SECONDS * KEEP_ALIVE_SAMPLE_RATE);
+  const audio = new Audio(URL.createObjectURL(encodeWav([silence], KEEP_ALIVE_SAMPLE_RATE, [])));
+  audio.loop = true;
+  return audio;
+};
@@ -0,0 +1,30 @@
+import { SpeechNormalizationSettings } from '../types';
+
+/**
+ * Speech normalization settings and the global pronunciation dictionary, persisted in
+ * localStorage. Dictionary entries for a single document live in its DocumentState.
+ */
+
+const STORAGE_KEY = 'ai-reader.speechNormalization';
+
+export const DEFAULT_NORMALIZATION_SETTINGS: SpeechNormalizationSettings = {
+  fixLigatures: true,
+  stripCitations: true,
+  stripUrls: true,
+  expandAbbreviations: true,
+  expandNumbers: true,
+  pronunciations: [],
+};
+
+export const loadNormalizationSettings = (): SpeechNormalizationSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_NORMALIZATION_SETTINGS, ...JSON.parse(raw) } : { ...DEFAULT_NORMALIZATION_SETTINGS };
+  } catch {
+    return { ...DEFAULT_NORMALIZATION_SETTINGS };
+  }
+};
+
+export const saveNormalizationSettings = (settings: SpeechNormalizationSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { hasNumberWords, spellNumber, spellDigits, spellOrdinal, spellYear, spellDate } from './numberWords';
+
+describe('spellNumber', () => {
+  it('spells English cardinals', () => {
+    expect(spellNumber(0, 'en')).toBe('zero');
+    expect(spellNumber(42, 'en')).toBe('forty-two');
+    expect(spellNumber(105, 'en')).toBe('one hundred five');
+    expect(spellNumber(1234567, 'en')).toBe('one million two hundred thirty-four thousand five hundred sixty-seven');
+  });
+
+  it('spells German cardinals as compounds', () => {
+    expect(spellNumber(21, 'de')).toBe('einundzwanzig');
+    expect(spellNumber(1999, 'de')).toBe('eintausendneunhundertneunundneunzig');
+    expect(spellNumber(2000000, 'de')).toBe('zwei Millionen');
+    expect(spellNumber(1, 'de', true)).toBe('ein');
+  });
+
+  it('spells French cardinals', () => {
+    expect(spellNumber(71, 'fr')).toBe('soixante et onze');
+    expect(spellNumber(80, 'fr')).toBe('quatre-vingts');
+    expect(spellNumber(200, 'fr')).toBe('deux cents');
+    expect(spellNumber(80000, 'fr')).toBe('quatre-vingt mille');
+  });
+
+  it('spells Spanish cardinals, shortened before nouns', () => {
+    expect(spellNumber(100, 'es')).toBe('cien');
+    expect(spellNumber(21000, 'es')).toBe('veintiún mil');
+    expect(spellNumber(21, 'es')).toBe('veintiuno');
+    expect(spellNumber(21, 'es', true)).toBe('veintiún');
+  });
+
+  it('spells Chinese cardinals by ten thousands, with 零 for skipped places', () => {
+    expect(spellNumber(12, 'zh')).toBe('十二');
+    expect(spellNumber(110, 'zh')).toBe('一百一十');
+    expect(spellNumber(1005, 'zh')).toBe('一千零五');
+    expect(spellNumber(10500, 'zh')).toBe('一万零五百');
+    expect(spellNumber(100000000, 'zh')).toBe('一亿');
+    expect(spellNumber(2, 'zh', true)).toBe('两');
+  });
+
+  it('returns null for other languages and numbers it does not spell', () => {
+    expect(hasNumberWords('ja')).toBe(false);
+    expect(spellNumber(5, 'ja')).toBeNull();
+    expect(spellNumber(5, null)).toBeNull();
+    expect(spellNumber(1.5, 'en')).toBeNull();
+    expect(spellNumber(-3, 'en')).toBeNull();
+    expect(spellNumber(1e12, 'en')).toBeNull();
+  });
+});
+
+describe('spellDigits', () => {
+  it('spells digits one by one', () => {
+    expect(spellDigits('05', 'en')).toBe('zero five');
+    expect(spellDigits('14', 'zh')).toBe('一四');
+    expect(spellDigits('14', 'ja')).toBeNull();
+  });
+});
+
+describe('spellOrdinal', () => {
+  it('spells ordinals per language', () => {
+    expect(spellOrdinal(1, 'en')).toBe('first');
+    expect(spellOrdinal(22, 'en')).toBe('twenty-second');
+    expect(spellOrdinal(40, 'en')).toBe('fortieth');
+    expect(spellOrdinal(3, 'de')).toBe('dritter');
+    expect(spellOrdinal(20, 'de')).toBe('zwanzigster');
+    expect(spellOrdinal(1, 'fr')).toBe('premier');
+    expect(spellOrdinal(3, 'zh')).toBe('第三');
+  });
+});
+
+describe('spellYear', () => {
+  it('reads years the way each language says them', () => {
+    expect(spellYear(1984, 'en')).toBe('nineteen eighty-four');
+    expect(spellYear(1905, 'en')).toBe('nineteen oh five');
+    expect(spellYear(1900, 'en')).toBe('nineteen hundred');
+    expect(spellYear(2005, 'en')).toBe('two thousand five');
+    expect(spellYear(2024, 'en')).toBe('twenty twenty-four');
+    expect(spellYear(1999, 'de')).toBe('neunzehnhundertneunundneunzig');
+    expect(spellYear(2024, 'zh')).toBe('二零二四');
+  });
+});
+
+describe('spellDate', () => {
+  it('puts day, month and year in each language order', () => {
+    expect(spellDate(2024, 3, 15, 'en')).toBe('March fifteenth, twenty twenty-four');
+    expect(spellDate(1999, 3, 1, 'de')).toBe('erster März neunzehnhundertneunundneunzig');
+    expect(spellDate(2024, 3, 1, 'es')).toBe('primero de marzo de dos mil veinticuatro');
+    expect(spellDate(2024, 3, 15, 'zh')).toBe('二零二四年三月十五日');
+  });
+});
@@ -0,0 +1,329 @@
+import { getSpeechLanguage } from '../data/speechExpansions';
+
+/**
+ * Numbers spelled out as words, for the languages whose voices otherwise stumble over
+ * years, ordinals and numbers next to units. Other languages return null and keep digits.
+ * Handles whole numbers below one trillion, which covers what documents put in running text.
+ */
+
+const MAX_SPELLED = 1e12;
+
+type Speller = (n: number) => string;
+
+// --- English ---
+
+const EN_ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const EN_SCALES: Array<[number, string]> = [[1e9, 'billion'], [1e6, 'million'], [1e3, 'thousand']];
+const EN_IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+};
+
+const enBelow100 = (n: number): string =>
+  n < 20 ? EN_ONES[n] : EN_TENS[Math.floor(n / 10)] + (n % 10 ? `-${EN_ONES[n % 10]}` : '');
+
+const enBelow1000 = (n: number): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const parts: string[] = [];
+  if (hundreds) parts.push(`${EN_ONES[hundreds]} hundred`);
+  if (rest || !hundreds) parts.push(enBelow100(rest));
+  return parts.join(' ');
+};
+
+const spellEnglish: Speller = (n) => {
+  if (n < 1000) return enBelow1000(n);
+  const parts: string[] = [];
+  let rest = n;
+  for (const [scale, name] of EN_SCALES) {
+    if (rest >= scale) {
+      parts.push(`${enBelow1000(Math.floor(rest / scale))} ${name}`);
+      rest %= scale;
+    }
+  }
+  if (rest) parts.push(enBelow1000(rest));
+  return parts.join(' ');
+};
+
+const englishOrdinal = (n: number): string => {
+  const cardinal = spellEnglish(n);
+  const [, head, last] = cardinal.match(/^(.*?)([a-z]+)$/)!;
+  const ordinal = EN_IRREGULAR_ORDINALS[last] ?? (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return head + ordinal;
+};
+
+// Years are read in pairs: 1984 "nineteen eighty-four", 1905 "nineteen oh five", 2024 "twenty twenty-four"
+const englishYear = (n: number): string => {
+  if (n < 1100 || n > 2099 || (n >= 2000 && n < 2010)) return spellEnglish(n);
+  const high = Math.floor(n / 100);
+  const low = n % 100;
+  if (low === 0) return `${enBelow100(high)} hundred`;
+  return `${enBelow100(high)} ${low < 10 ? `oh ${EN_ONES[low]}` : enBelow100(low)}`;
+};
+
+// --- German ---
+
+const DE_ONES = [
+  'null', 'eins', 'zwei', 'drei', 'vier', 'fünf', 'sechs', 'sieben', 'acht', 'neun', 'zehn',
+  'elf', 'zwölf', 'dreizehn', 'vierzehn', 'fünfzehn', 'sechzehn', 'siebzehn', 'achtzehn', 'neunzehn',
+];
+const DE_TENS = ['', 'zehn', 'zwanzig', 'dreißig', 'vierzig', 'fünfzig', 'sechzig', 'siebzig', 'achtzig', 'neunzig'];
+
+// "eins" becomes "ein" inside compounds and before nouns
+const deCompound = (words: string): string => words.replace(/eins$/, 'ein');
+
+const deBelow100 = (n: number): string => {
+  if (n < 20) return DE_ONES[n];
+  const unit = n % 10;
+  const tens = DE_TENS[Math.floor(n / 10)];
+  return unit ? `${deCompound(DE_ONES[unit])}und${tens}` : tens;
+};
+
+const deBelow1000 = (n: number): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (!hundreds) return deBelow100(rest);
+  return `${deCompound(DE_ONES[hundreds])}hundert${rest ? deBelow100(rest) : ''}`;
+};
+
+const spellGerman: Speller = (n) => {
+  const parts: string[] = [];
+  let rest = n;
+  const billions = Math.floor(rest / 1e9);
+  if (billions) parts.push(billions === 1 ? 'eine Milliarde' : `${deCompound(deBelow1000(billions))} Milliarden`);
+  rest %= 1e9;
+  const millions = Math.floor(rest / 1e6);
+  if (millions) parts.push(millions === 1 ? 'eine Million' : `${deCompound(deBelow1000(millions))} Millionen`);
+  rest %= 1e6;
+  const thousands = Math.floor(rest / 1e3);
+  rest %= 1e3;
+  const small = `${thousands ? `${deCompound(deBelow1000(thousands))}tausend` : ''}${rest ? deBelow1000(rest) : ''}`;
+  if (small) parts.push(small);
+  return parts.length ? parts.join(' ') : DE_ONES[0];
+};
+
+// Masculine nominative, as in dates: "erster", "dritter", "zwanzigster"
+const germanOrdinal = (n: number): string => {
+  const irregular: Record<number, string> = { 1: 'erster', 3: 'dritter', 7: 'siebter', 8: 'achter' };
+  if (irregular[n]) return irregular[n];
+  return `${spellGerman(n)}${n % 100 < 20 && n % 100 !== 0 ? 'ter' : 'ster'}`;
+};
+
+// Years before 2000 are read in hundreds: 1999 "neunzehnhundertneunundneunzig"
+const germanYear = (n: number): string => {
+  if (n < 1100 || n > 1999) return spellGerman(n);
+  const low = n % 100;
+  return `${deBelow100(Math.floor(n / 100))}hundert${low ? deBelow100(low) : ''}`;
+};
+
+// --- French ---
+
+const FR_ONES = [
+  'zéro', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf', 'dix',
+  'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize', 'dix-sept', 'dix-huit', 'dix-neuf',
+];
+const FR_TENS = ['', 'dix', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante'];
+
+const frBelow100 = (n: number): string => {
+  if (n < 20) return FR_ONES[n];
+  if (n < 70) {
+    const unit = n % 10;
+    const tens = FR_TENS[Math.floor(n / 10)];
+    if (!unit) return tens;
+    return unit === 1 ? `${tens} et un` : `${tens}-${FR_ONES[unit]}`;
+  }
+  if (n < 80) return n === 71 ? 'soixante et onze' : `soixante-${FR_ONES[n - 60]}`;
+  return n === 80 ? 'quatre-vingts' : `quatre-vingt-${FR_ONES[n - 80]}`;
+};
+
+const frBelow1000 = (n: number): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (!hundreds) return frBelow100(rest);
+  const head = hundreds === 1 ? 'cent' : `${FR_ONES[hundreds]} cent${rest ? '' : 's'}`;
+  return rest ? `${head} ${frBelow100(rest)}` : head;
+};
+
+// "quatre-vingts" and "deux cents" lose their plural s before another number word
+const frMultiplier = (n: number): string => frBelow1000(n).replace(/(vingt|cent)s$/, '$1');
+
+const spellFrench: Speller = (n) => {
+  const parts: string[] = [];
+  let rest = n;
+  const billions = Math.floor(rest / 1e9);
+  if (billions) parts.push(billions === 1 ? 'un milliard' : `${frMultiplier(billions)} milliards`);
+  rest %= 1e9;
+  const millions = Math.floor(rest / 1e6);
+  if (millions) parts.push(millions === 1 ? 'un million' : `${frMultiplier(millions)} millions`);
+  rest %= 1e6;
+  const thousands = Math.floor(rest / 1e3);
+  if (thousands) parts.push(thousands === 1 ? 'mille' : `${frMultiplier(thousands)} mille`);
+  rest %= 1e3;
+  if (rest || parts.length === 0) parts.push(frBelow1000(rest));
+  return parts.join(' ');
+};
+
+// --- Spanish ---
+
+const ES_BELOW_30 = [
+  'cero', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez',
+  'once', 'doce', 'trece', 'catorce', 'quince', 'dieciséis', 'diecisiete', 'dieciocho', 'diecinueve', 'veinte',
+  'veintiuno', 'veintidós', 'veintitrés', 'veinticuatro', 'veinticinco', 'veintiséis', 'veintisiete', 'veintiocho', 'veintinueve',
+];
+const ES_TENS = ['', '', '', 'treinta', 'cuarenta', 'cincuenta', 'sesenta', 'setenta', 'ochenta', 'noventa'];
+const ES_HUNDREDS = [
+  '', 'ciento', 'doscientos', 'trescientos', 'cuatrocientos', 'quinientos', 'seiscientos', 'setecientos', 'ochocientos', 'novecientos',
+];
+
+// "uno" is shortened before nouns and "mil"/"millones": "un kilómetro", "veintiún mil"
+const esApocope = (words: string): string => words.replace(/veintiuno$/, 'veintiún').replace(/uno$/, 'un');
+
+const esBelow100 = (n: number): string => {
+  if (n < 30) return ES_BELOW_30[n];
+  const unit = n % 10;
+  const tens = ES_TENS[Math.floor(n / 10)];
+  return unit ? `${tens} y ${ES_BELOW_30[unit]}` : tens;
+};
+
+const esBelow1000 = (n: number): string => {
+  if (n === 100) return 'cien';
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (!hundreds) return esBelow100(rest);
+  return rest ? `${ES_HUNDREDS[hundreds]} ${esBelow100(rest)}` : ES_HUNDREDS[hundreds];
+};
+
+const esBelowMillion = (n: number): string => {
+  const thousands = Math.floor(n / 1000);
+  const rest = n % 1000;
+  const parts: string[] = [];
+  if (thousands) parts.push(thousands === 1 ? 'mil' : `${esApocope(esBelow1000(thousands))} mil`);
+  if (rest || !thousands) parts.push(esBelow1000(rest));
+  return parts.join(' ');
+};
+
+// Spanish counts in millions of millions ("mil millones"), so millions go up to 999 999
+const spellSpanish: Speller = (n) => {
+  const millions = Math.floor(n / 1e6);
+  const rest = n % 1e6;
+  const parts: string[] = [];
+  if (millions) parts.push(millions === 1 ? 'un millón' : `${esApocope(esBelowMillion(millions))} millones`);
+  if (rest || !millions) parts.push(esBelowMillion(rest));
+  return parts.join(' ');
+};
+
+// --- Chinese ---
+
+const ZH_DIGITS = ['零', '一', '二', '三', '四', '五', '六', '七', '八', '九'];
+const ZH_PLACES: Array<[number, string]> = [[1000, '千'], [100, '百'], [10, '十'], [1, '']];
+
+// One group of four digits; a skipped place is read as a single 零: 1005 "一千零五"
+const zhBelow10000 = (n: number): string => {
+  let words = '';
+  let skipped = false;
+  for (const [place, name] of ZH_PLACES) {
+    const digit = Math.floor(n / place) % 10;
+    if (!digit) {
+      if (words) skipped = true;
+      continue;
+    }
+    if (skipped) words += ZH_DIGITS[0];
+    words += ZH_DIGITS[digit] + name;
+    skipped = false;
+  }
+  return words;
+};
+
+// Grouped by ten thousands (万) and hundred millions (亿): 10500 "一万零五百"
+const spellChinese: Speller = (n) => {
+  if (n === 0) return ZH_DIGITS[0];
+  let words = '';
+  let skipped = false;
+  for (const [scale, name] of [[1e8, '亿'], [1e4, '万'], [1, '']] as Array<[number, string]>) {
+    const group = Math.floor(n / scale) % 1e4;
+    if (!group) {
+      if (words) skipped = true;
+      continue;
+    }
+    if (words && (skipped || group < 1000)) words += ZH_DIGITS[0];
+    words += zhBelow10000(group) + name;
+    skipped = false;
+  }
+  // 12 is "十二", not "一十二"
+  return words.replace(/^一十/, '十');
+};
+
+const spellers: Record<string, Speller> = {
+  en: spellEnglish,
+  de: spellGerman,
+  fr: spellFrench,
+  es: spellSpanish,
+  zh: spellChinese,
+};
+
+export const hasNumberWords = (lang: string | null): boolean => !!lang && !!spellers[lang];
+
+/**
+ * Spells a whole number. Before a noun (a unit or currency), German and Spanish use the
+ * shortened "ein"/"un" forms, and Chinese counts two as "两".
+ */
+export const spellNumber = (n: number, lang: string | null, beforeNoun: boolean = false): string | null => {
+  const speller = lang ? spellers[lang] : undefined;
+  if (!speller || !Number.isInteger(n) || n < 0 || n >= MAX_SPELLED) return null;
+  const words = speller(n);
+  if (!beforeNoun) return words;
+  if (lang === 'de') return deCompound(words);
+  if (lang === 'es') return esApocope(words);
+  if (lang === 'zh' && n === 2) return '两';
+  return words;
+};
+
+/**
+ * Spells digits one by one, as for the fractional part of a decimal number
+ */
+export const spellDigits = (digits: string, lang: string | null): string | null => {
+  const words = digits.split('').map(d => spellNumber(Number(d), lang));
+  return words.every(Boolean) ? words.join(lang === 'zh' ? '' : ' ') : null;
+};
+
+/**
+ * Ordinal, for English "21st" and for days in dates
+ */
+export const spellOrdinal = (n: number, lang: string | null): string | null => {
+  if (spellNumber(n, lang) === null) return null;
+  if (lang === 'en') return englishOrdinal(n);
+  if (lang === 'de') return germanOrdinal(n);
+  if (lang === 'fr') return n === 1 ? 'premier' : spellFrench(n);
+  if (lang === 'es') return n === 1 ? 'primero' : spellSpanish(n);
+  if (lang === 'zh') return `第${spellChinese(n)}`;
+  return null;
+};
+
+/**
+ * A number that stands for a year, read the way years are said in the language
+ */
+export const spellYear = (n: number, lang: string | null): string | null => {
+  if (spellNumber(n, lang) === null) return null;
+  if (lang === 'en') return englishYear(n);
+  if (lang === 'de') return germanYear(n);
+  // Chinese reads years digit by digit: 2024 "二零二四"
+  if (lang === 'zh') return spellDigits(String(n), lang);
+  return spellNumber(n, lang);
+};
+
+/**
+ * A calendar date (month 1-12), in the language's usual spoken order
+ */
+export const spellDate = (year: number, month: number, day: number, lang: string | null): string | null => {
+  if (lang === 'zh') return `${spellYear(year, lang)}年${spellChinese(month)}月${spellChinese(day)}日`;
+  const monthName = getSpeechLanguage(lang)?.months[month - 1];
+  const dayWords = spellOrdinal(day, lang);
+  const yearWords = spellYear(year, lang);
+  if (!monthName || !dayWords || !yearWords) return null;
+  if (lang === 'en') return `${monthName} ${dayWords}, ${yearWords}`;
+  if (lang === 'es') return `${dayWords} de ${monthName} de ${yearWords}`;
+  return `${dayWords} ${monthName} ${yearWords}`;
+};
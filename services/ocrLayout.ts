@@ -0,0 +1,96 @@
+import { OcrPageLayout, PositionedText, TextBox } from '../types';
+
+/**
+ * Validation and normalization of structured OCR output.
+ *
+ * The model reports boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid over the image it
+ * was given (the canvas from renderPageToCanvas). They are checked, clamped and converted
+ * to page fractions, and the lines are joined into page text so every line and word knows
+ * its character offsets for highlighting.
+ */
+
+export interface RawOcrWord {
+  text: string;
+  box: number[];
+}
+
+export interface RawOcrLine extends RawOcrWord {
+  words?: RawOcrWord[];
+}
+
+const GRID_SIZE = 1000;
+// A vertical gap larger than this many line heights starts a new paragraph
+const PARAGRAPH_GAP_LINES = 1.2;
+
+/**
+ * Helper: Converts a [ymin, xmin, ymax, xmax] grid box to page fractions, or null if unusable
+ */
+const normalizeBox = (box: unknown): TextBox | null => {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    return null;
+  }
+  const clamp = (v: number) => Math.min(GRID_SIZE, Math.max(0, v)) / GRID_SIZE;
+  // Some responses swap min and max; order them rather than dropping the box
+  const [y0, y1] = [clamp(box[0]), clamp(box[2])].sort((a, b) => a - b);
+  const [x0, x1] = [clamp(box[1]), clamp(box[3])].sort((a, b) => a - b);
+  if (x1 - x0 <= 0 || y1 - y0 <= 0) return null;
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+const cleanText = (text: unknown): string => typeof text === 'string' ? text.replace(/\s+/g, ' ').trim() : '';
+
+/**
+ * Builds the page layout from parsed model output. Lines without text or a valid box are
+ * dropped; words are kept only where they can be found inside their line's text.
+ */
+export const buildOcrLayout = (rawLines: unknown): OcrPageLayout => {
+  const lines = (Array.isArray(rawLines) ? rawLines : [])
+    .map((line: RawOcrLine) => ({ raw: line, text: cleanText(line?.text), box: normalizeBox(line?.box) }))
+    .filter((line): line is { raw: RawOcrLine; text: string; box: TextBox } => !!line.text && !!line.box);
+
+  const medianHeight = [...lines.map(l => l.box.height)].sort((a, b) => a - b)[Math.floor(lines.length / 2)] ?? 0;
+
+  let text = '';
+  const positionedLines: PositionedText[] = [];
+  const words: PositionedText[] = [];
+
+  lines.forEach((line, i) => {
+    if (i > 0) {
+      const prev = lines[i - 1].box;
+      const gap = line.box.y - (prev.y + prev.height);
+      text += gap > medianHeight * PARAGRAPH_GAP_LINES ? '\n\n' : ' ';
+    }
+    const start = text.length;
+    text += line.text;
+    positionedLines.push({ text: line.text, start, end: text.length, box: line.box });
+
+    // Locate each word in the line text in order, so offsets stay exact even if spacing differs
+    let cursor = 0;
+    for (const rawWord of line.raw.words ?? []) {
+      const wordText = cleanText(rawWord?.text);
+      const box = normalizeBox(rawWord?.box);
+      if (!wordText || !box) continue;
+      const index = line.text.indexOf(wordText, cursor);
+      if (index < 0) continue;
+      words.push({ text: wordText, start: start + index, end: start + index + wordText.length, box });
+      cursor = index + wordText.length;
+    }
+  });
+
+  return { text, lines: positionedLines, words };
+};
+
+/**
+ * Parses the JSON text of a structured OCR response ({ lines: [...] })
+ */
+export const parseOcrLayout = (json: string): OcrPageLayout => {
+  const parsed = JSON.parse(json);
+  return buildOcrLayout(parsed?.lines);
+};
+
+/**
+ * Positioned items for highlighting read text: words, or lines when the model gave no word boxes
+ */
+export const getOcrPageItems = (layout: OcrPageLayout): PositionedText[] => {
+  return layout.words.length > 0 ? layout.words : layout.lines;
+};
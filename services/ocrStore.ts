@@ -0,0 +1,38 @@
+import { OcrPageLayout } from '../types';
+import { openDB, promisify, transactionDone, STORES } from './db';
+
+/**
+ * Persistent OCR results, so scanned pages are only recognized once per document
+ */
+
+const STORE_NAME = STORES.OCR;
+
+export interface StoredOcrPage {
+  text: string;
+  layout: OcrPageLayout | null; // Null for text-only OCR
+}
+
+interface OcrRecord extends StoredOcrPage {
+  docHash: string;
+  pageNumber: number;
+  createdAt: number;
+}
+
+/**
+ * Loads every stored OCR page of a document, keyed by page number
+ */
+export const getOcrPages = async (docHash: string): Promise<Map<number, StoredOcrPage>> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const range = IDBKeyRange.bound([docHash, 0], [docHash, Infinity]);
+  const records = await promisify<OcrRecord[]>(tx.objectStore(STORE_NAME).getAll(range));
+  return new Map(records.map(record => [record.pageNumber, { text: record.text, layout: record.layout ?? null }]));
+};
+
+export const putOcrPage = async (docHash: string, pageNumber: number, page: StoredOcrPage): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const record: OcrRecord = { docHash, pageNumber, ...page, createdAt: Date.now() };
+  tx.objectStore(STORE_NAME).put(record);
+  await transactionDone(tx);
+};
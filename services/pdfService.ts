@@ -1,5 +1,6 @@
 import * as pdfjsLib from 'pdfjs-dist';
-import { PDFDocumentProxy, PDFPageProxy, PDFPageText } from '../types';
+import { PDFDocumentProxy, PDFPageProxy, PDFPageText, PDFOutlineNode, OutlineItem, FlatOutlineItem, ChapterRange, TextBox } from '../types';
+import { buildTextLines, linesToText, getMarginSignatures, findRunningLines, PageBoxMapper } from './textLayout';
 
 // We use a fixed version string here to match the importmap in index.html.
 // This ensures the worker is exactly compatible with the main library.
@@ -24,6 +25,84 @@ export const loadPDF = async (file: File): Promise<PDFDocumentProxy> => {
   return loadingTask.promise as unknown as PDFDocumentProxy;
 };
 
+/**
+ * Helper: Resolves an outline destination (named or explicit) to a 1-based page number
+ */
+const resolveDestinationPage = async (doc: PDFDocumentProxy, dest: PDFOutlineNode['dest']): Promise<number | null> => {
+  try {
+    const explicitDest = typeof dest === 'string' ? await doc.getDestination(dest) : dest;
+    if (!Array.isArray(explicitDest) || explicitDest.length === 0) return null;
+
+    const target = explicitDest[0];
+    // The target is either a page reference object or (rarely) a 0-based page index
+    const pageIndex = typeof target === 'number' ? target : await doc.getPageIndex(target);
+    return pageIndex + 1;
+  } catch (err) {
+    console.warn('Failed to resolve outline destination', dest, err);
+    return null;
+  }
+};
+
+const resolveOutlineNodes = async (doc: PDFDocumentProxy, nodes: PDFOutlineNode[]): Promise<OutlineItem[]> => {
+  return Promise.all(nodes.map(async node => ({
+    title: node.title,
+    pageNumber: await resolveDestinationPage(doc, node.dest),
+    items: await resolveOutlineNodes(doc, node.items || []),
+  })));
+};
+
+/**
+ * Loads the document outline (bookmarks) with destinations resolved to page numbers.
+ * Returns an empty array for documents without an outline.
+ */
+export const loadOutline = async (doc: PDFDocumentProxy): Promise<OutlineItem[]> => {
+  const outline = await doc.getOutline();
+  if (!outline) return [];
+  return resolveOutlineNodes(doc, outline);
+};
+
+/**
+ * Flattens the outline tree in reading order, keeping only entries that point at a page
+ */
+export const flattenOutline = (items: OutlineItem[], depth: number = 0): FlatOutlineItem[] => {
+  return items.flatMap(item => [
+    ...(item.pageNumber !== null ? [{ ...item, pageNumber: item.pageNumber, depth }] : []),
+    ...flattenOutline(item.items, depth + 1),
+  ]);
+};
+
+/**
+ * Finds the innermost outline entry whose section contains the page
+ * (the entry with the latest start page at or before it; deeper entries win ties)
+ */
+export const findOutlineEntryAtPage = (entries: FlatOutlineItem[], pageNumber: number): FlatOutlineItem | null => {
+  let current: FlatOutlineItem | null = null;
+  for (const entry of entries) {
+    if (entry.pageNumber <= pageNumber && (!current || entry.pageNumber >= current.pageNumber)) {
+      current = entry;
+    }
+  }
+  return current;
+};
+
+/**
+ * Page range of a flattened outline entry. The chapter ends before the page where the next
+ * entry at the same or a higher level starts, or at the end of the document. Sub-sections
+ * are part of their chapter, and entries sharing the start page do not end it.
+ */
+export const getChapterRange = (entries: FlatOutlineItem[], index: number, totalPages: number): ChapterRange => {
+  const entry = entries[index];
+  const next = entries
+    .slice(index + 1)
+    .find(e => e.depth <= entry.depth && e.pageNumber > entry.pageNumber);
+
+  return {
+    title: entry.title,
+    startPage: entry.pageNumber,
+    endPage: next ? next.pageNumber - 1 : totalPages,
+  };
+};
+
 export const renderPageToCanvas = async (
   page: PDFPageProxy,
   canvas: HTMLCanvasElement,
@@ -44,21 +123,147 @@ export const renderPageToCanvas = async (
   await page.render(renderContext).promise;
 };
 
-export const extractTextFromPage = async (page: PDFPageProxy, pageNumber: number): Promise<PDFPageText> => {
+// Upper bound for a display canvas bitmap; beyond this browsers fail to allocate or slow to a crawl
+const MAX_CANVAS_PIXELS = 16_777_216;
+
+export interface PageRender {
+  promise: Promise<void>; // Rejects with a RenderingCancelledException when canceled
+  cancel: () => void;
+}
+
+/**
+ * Renders a page for display at `scale` CSS pixels per PDF point. The bitmap is `pixelRatio`
+ * times denser (capped for very large zooms) so text stays sharp on HiDPI screens. Drawing
+ * happens off-screen and is copied over when done, so the previous render stays visible meanwhile.
+ */
+export const renderPageForDisplay = (
+  page: PDFPageProxy,
+  canvas: HTMLCanvasElement,
+  scale: number,
+  pixelRatio: number = window.devicePixelRatio || 1
+): PageRender => {
+  const viewport = page.getViewport({ scale });
+  const ratio = Math.min(pixelRatio, Math.sqrt(MAX_CANVAS_PIXELS / (viewport.width * viewport.height)));
+
+  const buffer = document.createElement('canvas');
+  buffer.width = Math.floor(viewport.width * ratio);
+  buffer.height = Math.floor(viewport.height * ratio);
+  const canvasContext = buffer.getContext('2d');
+  if (!canvasContext) throw new Error('Canvas context not found');
+
+  const task = page.render({
+    canvasContext,
+    viewport,
+    transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+  });
+
+  const promise = (task.promise as Promise<void>)
+    .then(() => {
+      // Resizing reallocates the bitmap, so a reused canvas of the right size is left alone
+      // (the page is opaque and covers it completely)
+      if (canvas.width !== buffer.width) canvas.width = buffer.width;
+      if (canvas.height !== buffer.height) canvas.height = buffer.height;
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+      canvas.getContext('2d')?.drawImage(buffer, 0, 0);
+    })
+    .finally(() => {
+      // Release the bitmap right away instead of waiting for GC
+      buffer.width = 0;
+      buffer.height = 0;
+    });
+
+  return { promise, cancel: () => task.cancel() };
+};
+
+/**
+ * Size of a page in PDF points (scale 1), accounting for its rotation
+ */
+export const getPageSize = (page: PDFPageProxy): { width: number; height: number } => {
+  const { width, height } = page.getViewport({ scale: 1 });
+  return { width, height };
+};
+
+/**
+ * Helper: Maps PDF user-space rectangles to fractions of the rendered page, so boxes
+ * hold at any render scale and respect page rotation
+ */
+const createPageBoxMapper = (page: PDFPageProxy): PageBoxMapper => {
+  const viewport = page.getViewport({ scale: 1 });
+  return (rect: number[]): TextBox => {
+    const [x0, y0, x1, y1] = viewport.convertToViewportRectangle(rect);
+    return {
+      x: Math.min(x0, x1) / viewport.width,
+      y: Math.min(y0, y1) / viewport.height,
+      width: Math.abs(x1 - x0) / viewport.width,
+      height: Math.abs(y1 - y0) / viewport.height,
+    };
+  };
+};
+
+/**
+ * Extracts page text in reading order with paragraphs separated by blank lines.
+ * Margin lines whose signature is in `runningLines` (see detectRunningLines) are skipped,
+ * as are page numbers. `items` maps ranges of the text back to boxes on the page.
+ */
+export const extractTextFromPage = async (
+  page: PDFPageProxy,
+  pageNumber: number,
+  runningLines: Set<string> = new Set()
+): Promise<PDFPageText> => {
   const textContent = await page.getTextContent();
-  // Join text items. Sometimes items are just spaces, so filter if needed, but ' ' join usually works well.
-  const textItems = textContent.items.map((item: any) => item.str).join(' ');
+  const { text, items } = linesToText(buildTextLines(textContent.items, page.view, createPageBoxMapper(page)), runningLines);
   
   // Heuristic: If text length is extremely low but page is not empty, it might be scanned/image-based
-  const isScanned = textItems.trim().length < 5; 
+  const isScanned = text.length < 5; 
 
   return {
     pageNumber,
-    text: textItems,
+    text,
+    items,
     isScanned,
   };
 };
 
+// Number of pages sampled when looking for running headers/footers
+const RUNNING_LINE_SAMPLE_PAGES = 12;
+const runningLinesCache = new WeakMap<PDFDocumentProxy, Promise<Set<string>>>();
+
+/**
+ * Finds running headers/footers by sampling pages spread over the document.
+ * Computed once per document; failures just disable header/footer removal.
+ */
+export const detectRunningLines = (doc: PDFDocumentProxy): Promise<Set<string>> => {
+  let cached = runningLinesCache.get(doc);
+  if (!cached) {
+    cached = (async () => {
+      const sampleCount = Math.min(doc.numPages, RUNNING_LINE_SAMPLE_PAGES);
+      const pageNumbers = new Set(
+        Array.from({ length: sampleCount }, (_, i) => 1 + Math.floor((i * doc.numPages) / sampleCount))
+      );
+      const signatures = await Promise.all([...pageNumbers].map(async pageNumber => {
+        const page = await doc.getPage(pageNumber);
+        const textContent = await page.getTextContent();
+        return getMarginSignatures(buildTextLines(textContent.items, page.view, createPageBoxMapper(page)));
+      }));
+      return findRunningLines(signatures);
+    })().catch(err => {
+      console.warn('Failed to detect running headers/footers', err);
+      return new Set<string>();
+    });
+    runningLinesCache.set(doc, cached);
+  }
+  return cached;
+};
+
+/**
+ * Loads a page and extracts its text with the document's running headers/footers removed
+ */
+export const loadPageText = async (doc: PDFDocumentProxy, pageNumber: number): Promise<PDFPageText> => {
+  const page = await doc.getPage(pageNumber);
+  return extractTextFromPage(page, pageNumber, await detectRunningLines(doc));
+};
+
 export const getCanvasAsBase64 = (canvas: HTMLCanvasElement): string => {
   // Returns clean base64 data (removes "data:image/png;base64," prefix)
   return canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
@@ -0,0 +1,91 @@
+/**
+ * Bounds how many requests run at once and how quickly they start. Background work
+ * (prefetching, batch jobs) waits behind anything the user is waiting for right now.
+ */
+
+export interface RequestLimiterOptions {
+  maxConcurrent: number;
+  minIntervalMs: number; // Minimum time between two request starts
+}
+
+export interface RequestLimiter {
+  /** Resolves with a release function once a slot is free; rejects with an AbortError when canceled */
+  acquire: (signal?: AbortSignal, background?: boolean) => Promise<() => void>;
+  /** Holds back every request start until `ms` from now, e.g. after the server asked to slow down */
+  pause: (ms: number) => void;
+}
+
+interface Waiter {
+  grant: () => void;
+  background: boolean;
+}
+
+export const createRequestLimiter = ({ maxConcurrent, minIntervalMs }: RequestLimiterOptions): RequestLimiter => {
+  const queue: Waiter[] = [];
+  let active = 0;
+  let nextStartAt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const release = () => {
+    active--;
+    pump();
+  };
+
+  // Starts queued requests while slots are free and the start interval allows
+  const pump = () => {
+    if (timer) return;
+    while (active < maxConcurrent && queue.length > 0) {
+      const wait = nextStartAt - Date.now();
+      if (wait > 0) {
+        timer = setTimeout(() => {
+          timer = null;
+          pump();
+        }, wait);
+        return;
+      }
+      const index = queue.findIndex(waiter => !waiter.background);
+      const [waiter] = queue.splice(index === -1 ? 0 : index, 1);
+      active++;
+      nextStartAt = Date.now() + minIntervalMs;
+      waiter.grant();
+    }
+  };
+
+  const acquire = (signal?: AbortSignal, background = false) => new Promise<() => void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request canceled', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      const index = queue.indexOf(waiter);
+      if (index !== -1) queue.splice(index, 1);
+      reject(new DOMException('Request canceled', 'AbortError'));
+    };
+    const waiter: Waiter = {
+      background,
+      grant: () => {
+        signal?.removeEventListener('abort', onAbort);
+        let released = false;
+        resolve(() => {
+          if (released) return;
+          released = true;
+          release();
+        });
+      },
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(waiter);
+    pump();
+  });
+
+  const pause = (ms: number) => {
+    nextStartAt = Math.max(nextStartAt, Date.now() + ms);
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    pump();
+  };
+
+  return { acquire, pause };
+};
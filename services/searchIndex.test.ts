@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createSearchIndex } from './searchIndex';
+
+const pagesOf = (index: ReturnType<typeof createSearchIndex>, query: string) => index.retrieve(query).map(p => p.pageNumber);
+
+describe('retrieve', () => {
+  it('ranks passages by BM25, rare terms over common ones', () => {
+    const index = createSearchIndex();
+    index.setPageText(1, 'The reactor report covers the cooling loop and the pumps.');
+    index.setPageText(2, 'The reactor report lists every reactor shutdown since the reactor opened.');
+    index.setPageText(3, 'The report mentions the turbine once.');
+    index.setPageText(4, 'Unrelated notes about the cafeteria menu.');
+
+    // "reactor" is repeated on page 2; "turbine" is rarer than "report", so page 3 beats page 1
+    expect(pagesOf(index, 'reactor')).toEqual([2, 1]);
+    expect(pagesOf(index, 'report turbine')[0]).toBe(3);
+    expect(pagesOf(index, 'cafeteria')).toEqual([4]);
+  });
+
+  it('favours the shorter passage when the counts are equal', () => {
+    const index = createSearchIndex();
+    index.setPageText(1, 'Glaciers retreat. ' + 'Other words fill up this long paragraph about nothing much. '.repeat(5));
+    index.setPageText(2, 'Glaciers retreat quickly.');
+    expect(pagesOf(index, 'glaciers')).toEqual([2, 1]);
+  });
+
+  it('matches CJK text through character bigrams', () => {
+    const index = createSearchIndex();
+    index.setPageText(1, '太阳能电池板把阳光转换成电能。');
+    index.setPageText(2, '风力发电机利用风能发电。');
+    index.setPageText(3, '电池的寿命取决于充电次数。');
+
+    // No spaces to split on: "电池板" is the bigrams 电池 and 池板; page 3 only has 电池
+    expect(pagesOf(index, '电池板')).toEqual([1, 3]);
+    expect(pagesOf(index, '风力发电')[0]).toBe(2);
+    // A single character that is not part of any indexed bigram finds nothing
+    expect(index.retrieve('阳')).toEqual([]);
+  });
+
+  it('returns passage offsets into the page text', () => {
+    const index = createSearchIndex();
+    const text = 'Intro line.\n\n  Mitochondria make energy for the cell.';
+    index.setPageText(7, text);
+    const [passage] = index.retrieve('mitochondria');
+    expect(passage.pageNumber).toBe(7);
+    expect(text.substring(passage.start, passage.end)).toBe(passage.text);
+  });
+
+  it('finds nothing for queries without terms', () => {
+    const index = createSearchIndex();
+    index.setPageText(1, 'Some text.');
+    expect(index.retrieve('  ? ')).toEqual([]);
+  });
+});
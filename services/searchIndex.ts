@@ -0,0 +1,245 @@
+import { PDFDocumentProxy, SearchHit, Passage } from '../types';
+import { loadPageText } from './pdfService';
+import { paragraphRanges, sentenceRanges } from './sentenceSegmenter';
+
+/**
+ * In-memory full-text index over page text.
+ *
+ * Matching is plain substring search on folded text (case, width and diacritics removed),
+ * so it works the same for CJK, where there are no spaces to split words on.
+ * Each page keeps a map from folded positions back to the original text, so hits
+ * carry offsets that can be highlighted and read from directly.
+ *
+ * For questions about the document, pages are also split into paragraph-sized passages
+ * ranked by BM25 over words (character bigrams for CJK), see retrieve().
+ */
+
+// Characters of context shown on each side of a hit
+const SNIPPET_CONTEXT = 40;
+const DEFAULT_MAX_HITS = 200;
+const DEFAULT_MAX_PASSAGES = 8;
+// Short paragraphs are merged up to this length; longer ones are split at sentences
+const PASSAGE_TARGET_CHARS = 600;
+const PASSAGE_MAX_CHARS = 1200;
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+interface IndexedPassage extends Passage {
+  termCounts: Map<string, number>;
+  length: number; // In terms
+}
+
+interface IndexedPage {
+  text: string;
+  folded: string;
+  // folded[i] came from text[offsets[i]]
+  offsets: number[];
+  passages: IndexedPassage[];
+}
+
+/**
+ * Helper: Folds text for matching while recording where every folded character came from.
+ * NFKD splits accented letters and full-width forms, then combining marks are dropped.
+ */
+const foldWithOffsets = (text: string): { folded: string; offsets: number[] } => {
+  let folded = '';
+  const offsets: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    // Keep surrogate pairs (e.g. rare CJK ideographs) together
+    const isPair = code >= 0xd800 && code <= 0xdbff && i + 1 < text.length;
+    const char = isPair ? text.substring(i, i + 2) : text[i];
+
+    // Whitespace runs (e.g. paragraph breaks) fold to a single space
+    const piece = /\s/.test(char)
+      ? (folded.endsWith(' ') ? '' : ' ')
+      : char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    for (let j = 0; j < piece.length; j++) {
+      folded += piece[j];
+      offsets.push(i);
+    }
+    if (isPair) i++;
+  }
+
+  return { folded, offsets };
+};
+
+/**
+ * Folds a query the same way as page text, collapsing whitespace
+ */
+const foldQuery = (query: string): string => foldWithOffsets(query.trim().replace(/\s+/g, ' ')).folded;
+
+// Han, Hiragana, Katakana and Hangul runs, which are indexed as character bigrams
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]+/;
+
+/**
+ * Helper: Splits folded text into terms: words, and overlapping character pairs within CJK runs
+ */
+const tokenize = (folded: string): string[] => {
+  const terms: string[] = [];
+  for (const [word] of folded.matchAll(/[\p{L}\p{N}]+/gu)) {
+    for (const part of word.split(new RegExp(`(${CJK_RUN.source})`))) {
+      if (!part) continue;
+      if (!CJK_RUN.test(part)) {
+        // Single letters and digits carry no meaning on their own
+        if (part.length > 1) terms.push(part);
+      } else if (part.length === 1) {
+        terms.push(part);
+      } else {
+        for (let i = 0; i < part.length - 1; i++) terms.push(part.substring(i, i + 2));
+      }
+    }
+  }
+  return terms;
+};
+
+/**
+ * Helper: Cuts page text into passages: paragraphs, with short ones merged and long ones
+ * split at sentence boundaries
+ */
+const splitPassages = (text: string): Array<[number, number]> => {
+  const pieces = paragraphRanges(text).flatMap(([start, end]) =>
+    end - start > PASSAGE_MAX_CHARS ? sentenceRanges(text, start, end) : [[start, end] as [number, number]]
+  );
+
+  const passages: Array<[number, number]> = [];
+  for (const [start, end] of pieces) {
+    const last = passages[passages.length - 1];
+    if (last && end - last[0] <= PASSAGE_TARGET_CHARS) last[1] = end;
+    else passages.push([start, end]);
+  }
+  return passages.filter(([start, end]) => text.substring(start, end).trim());
+};
+
+/**
+ * Helper: Passages of a page with the term counts BM25 needs
+ */
+const indexPassages = (pageNumber: number, text: string): IndexedPassage[] => {
+  return splitPassages(text).map(([start, end]) => {
+    const passageText = text.substring(start, end).trim();
+    const terms = tokenize(foldWithOffsets(passageText).folded);
+    const termCounts = new Map<string, number>();
+    terms.forEach(term => termCounts.set(term, (termCounts.get(term) ?? 0) + 1));
+    // Offsets of the trimmed text
+    const leading = text.substring(start, end).search(/\S/);
+    return { pageNumber, start: start + leading, end: start + leading + passageText.length, text: passageText, termCounts, length: terms.length };
+  });
+};
+
+const buildSnippet = (text: string, start: number, end: number): Pick<SearchHit, 'snippet' | 'snippetMatchStart' | 'snippetMatchEnd'> => {
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+  const prefix = from > 0 ? '…' : '';
+  const suffix = to < text.length ? '…' : '';
+
+  return {
+    snippet: prefix + text.substring(from, to) + suffix,
+    snippetMatchStart: prefix.length + start - from,
+    snippetMatchEnd: prefix.length + end - from,
+  };
+};
+
+export interface SearchIndex {
+  setPageText: (pageNumber: number, text: string) => void;
+  hasPage: (pageNumber: number) => boolean;
+  search: (query: string, maxHits?: number) => SearchHit[];
+  // Passages most relevant to a free-text question, best first
+  retrieve: (query: string, maxPassages?: number) => Passage[];
+  clear: () => void;
+}
+
+export const createSearchIndex = (): SearchIndex => {
+  const pages = new Map<number, IndexedPage>();
+
+  return {
+    setPageText: (pageNumber, text) => {
+      pages.set(pageNumber, { text, ...foldWithOffsets(text), passages: indexPassages(pageNumber, text) });
+    },
+
+    hasPage: (pageNumber) => pages.has(pageNumber),
+
+    search: (query, maxHits = DEFAULT_MAX_HITS) => {
+      const needle = foldQuery(query);
+      if (!needle) return [];
+
+      const hits: SearchHit[] = [];
+      const pageNumbers = [...pages.keys()].sort((a, b) => a - b);
+
+      for (const pageNumber of pageNumbers) {
+        const page = pages.get(pageNumber)!;
+        let from = 0;
+        let index: number;
+        while ((index = page.folded.indexOf(needle, from)) !== -1) {
+          const start = page.offsets[index];
+          // End at the source character after the last matched folded one
+          const end = Math.max(start + 1, page.offsets[index + needle.length - 1] + 1);
+          hits.push({ pageNumber, start, end, ...buildSnippet(page.text, start, end) });
+          if (hits.length >= maxHits) return hits;
+          from = index + needle.length;
+        }
+      }
+      return hits;
+    },
+
+    retrieve: (query, maxPassages = DEFAULT_MAX_PASSAGES) => {
+      const queryTerms = [...new Set(tokenize(foldQuery(query)))];
+      if (queryTerms.length === 0) return [];
+
+      const passages = [...pages.values()].flatMap(page => page.passages);
+      if (passages.length === 0) return [];
+      const averageLength = passages.reduce((sum, p) => sum + p.length, 0) / passages.length || 1;
+
+      const idf = new Map<string, number>();
+      for (const term of queryTerms) {
+        const containing = passages.filter(p => p.termCounts.has(term)).length;
+        idf.set(term, Math.log(1 + (passages.length - containing + 0.5) / (containing + 0.5)));
+      }
+
+      return passages
+        .map(passage => {
+          let score = 0;
+          for (const term of queryTerms) {
+            const count = passage.termCounts.get(term);
+            if (!count) continue;
+            const norm = BM25_K1 * (1 - BM25_B + BM25_B * (passage.length / averageLength));
+            score += idf.get(term)! * (count * (BM25_K1 + 1)) / (count + norm);
+          }
+          return { passage, score };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxPassages)
+        .map(({ passage: { termCounts, length, ...passage } }) => passage);
+    },
+
+    clear: () => pages.clear(),
+  };
+};
+
+/**
+ * Extracts and indexes every page not yet in the index, yielding to the UI between pages.
+ * Scanned pages are skipped; they get indexed once OCR text is available.
+ */
+export const indexDocument = async (
+  doc: PDFDocumentProxy,
+  index: SearchIndex,
+  onProgress: (indexedPages: number) => void,
+  signal: AbortSignal
+): Promise<void> => {
+  for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+    if (signal.aborted) return;
+    if (!index.hasPage(pageNumber)) {
+      try {
+        const extracted = await loadPageText(doc, pageNumber);
+        if (signal.aborted) return;
+        if (!extracted.isScanned) index.setPageText(pageNumber, extracted.text);
+      } catch (err) {
+        console.warn(`[Search] Failed to index page ${pageNumber}`, err);
+      }
+    }
+    onProgress(pageNumber);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+};
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  sentenceRanges,
+  getSentenceRanges,
+  findSentenceRange,
+  findParagraphRange,
+  findAdjacentSentenceStart,
+} from './sentenceSegmenter';
+
+const sentences = (text: string) => getSentenceRanges(text).map(([start, end]) => text.substring(start, end));
+
+describe('getSentenceRanges', () => {
+  it('breaks after CJK full stops, exclamation and question marks', () => {
+    expect(sentences('我们走吧！真的吗？好的。再见。')).toEqual(['我们走吧！', '真的吗？', '好的。', '再见。']);
+  });
+
+  it('does not break after abbreviations, initials or dotted initialisms', () => {
+    expect(sentences('See e.g. the appendix. Dr. Smith agreed. J. K. Rowling wrote it. The U.S. Army left.')).toEqual([
+      'See e.g. the appendix. ',
+      'Dr. Smith agreed. ',
+      'J. K. Rowling wrote it. ',
+      'The U.S. Army left.',
+    ]);
+  });
+
+  it('keeps closing quotes and brackets with their sentence', () => {
+    expect(sentences('He said "Stop." Then he left. (This is an aside.) Done.')).toEqual([
+      'He said "Stop." ',
+      'Then he left. ',
+      '(This is an aside.) ',
+      'Done.',
+    ]);
+    expect(sentences('他说：“今天下雨。”我们走吧！')).toEqual(['他说：“今天下雨。”', '我们走吧！']);
+  });
+
+  it('splits mixed Chinese and English paragraphs', () => {
+    expect(sentences('我们使用 Intl.Segmenter 来分句。This is English. 然后继续中文！End?')).toEqual([
+      '我们使用 Intl.Segmenter 来分句。',
+      'This is English. ',
+      '然后继续中文！',
+      'End?',
+    ]);
+  });
+
+  it('covers the whole text without crossing paragraph breaks', () => {
+    const text = 'First paragraph. Second sentence.\n\nNew paragraph here.';
+    const ranges = getSentenceRanges(text);
+    expect(sentences(text)).toEqual(['First paragraph. ', 'Second sentence.\n\n', 'New paragraph here.']);
+    expect(ranges[0][0]).toBe(0);
+    expect(ranges[ranges.length - 1][1]).toBe(text.length);
+  });
+});
+
+describe('sentenceRanges', () => {
+  it('only segments the requested part of the text', () => {
+    const text = 'Skipped. One here. Two here. Skipped too.';
+    const from = text.indexOf('One');
+    const to = text.indexOf('Skipped too');
+    expect(sentenceRanges(text, from, to, 'en').map(([s, e]) => text.substring(s, e))).toEqual(['One here. ', 'Two here. ']);
+    expect(sentenceRanges(text, 5, 5, 'en')).toEqual([]);
+  });
+
+  describe('without Intl.Segmenter', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('falls back to punctuation, with the same abbreviation handling', () => {
+      vi.stubGlobal('Intl', {});
+      const text = 'Dr. Smith arrived. Was it late? 我们走吧！真的吗？';
+      expect(sentenceRanges(text, 0, text.length, 'en').map(([s, e]) => text.substring(s, e))).toEqual([
+        'Dr. Smith arrived. ',
+        'Was it late? ',
+        '我们走吧！',
+        '真的吗？',
+      ]);
+    });
+
+    it('keeps closing quotes with their sentence', () => {
+      vi.stubGlobal('Intl', {});
+      const text = 'He said "Stop." Then he left.';
+      expect(sentenceRanges(text, 0, text.length, 'en').map(([s, e]) => text.substring(s, e))).toEqual([
+        'He said "Stop." ',
+        'Then he left.',
+      ]);
+    });
+  });
+});
+
+describe('findSentenceRange', () => {
+  const text = 'First one. Dr. Who is second.\n\n第三句。第四句！';
+
+  it('returns the trimmed sentence around an offset', () => {
+    const [start, end] = findSentenceRange(text, text.indexOf('Who'));
+    expect(text.substring(start, end)).toBe('Dr. Who is second.');
+    const [cjkStart, cjkEnd] = findSentenceRange(text, text.indexOf('四'));
+    expect(text.substring(cjkStart, cjkEnd)).toBe('第四句！');
+  });
+
+  it('returns an empty range past the end of the text', () => {
+    expect(findSentenceRange(text, text.length + 5)).toEqual([text.length + 5, text.length + 5]);
+  });
+});
+
+describe('findParagraphRange', () => {
+  it('returns the paragraph around an offset without the blank lines', () => {
+    const text = 'One. Two.\n\n  Three. Four.\n\nFive.';
+    const [start, end] = findParagraphRange(text, text.indexOf('Four'));
+    expect(text.substring(start, end)).toBe('Three. Four.');
+  });
+});
+
+describe('findAdjacentSentenceStart', () => {
+  const text = 'Alpha one. Beta two.\n\n伽马三。Delta four.';
+
+  it('finds the next and previous sentence, across paragraphs', () => {
+    expect(findAdjacentSentenceStart(text, 0, 1)).toBe(text.indexOf('Beta'));
+    expect(findAdjacentSentenceStart(text, text.indexOf('two'), 1)).toBe(text.indexOf('伽马'));
+    expect(findAdjacentSentenceStart(text, text.indexOf('伽马'), 1)).toBe(text.indexOf('Delta'));
+    expect(findAdjacentSentenceStart(text, text.indexOf('Delta'), -1)).toBe(text.indexOf('伽马'));
+  });
+
+  it('returns null at either end of the text', () => {
+    expect(findAdjacentSentenceStart(text, 0, -1)).toBeNull();
+    expect(findAdjacentSentenceStart(text, text.length - 1, 1)).toBeNull();
+  });
+});
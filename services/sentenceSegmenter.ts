@@ -0,0 +1,191 @@
+import { getAbbreviations } from '../data/abbreviations';
+import { detectLanguage } from './languageDetect';
+
+/**
+ * Sentence and paragraph segmentation shared by highlighting, speech chunking and
+ * sentence navigation, so all three agree on where a sentence starts and ends.
+ *
+ * Sentences come from Intl.Segmenter (Unicode sentence boundaries, which know CJK
+ * punctuation and keep closing quotes/brackets with their sentence), with a regex fallback
+ * for browsers without it. Breaks after abbreviations and initials ("e.g.", "Dr.", "J.")
+ * are then undone. Paragraphs are separated by blank lines and sentences never cross them.
+ */
+
+// Fallback sentence = run of text up to and including terminal punctuation (plus closing quotes/brackets)
+const SENTENCE_REGEX = /[^.!?。！？]+(?:[.!?。！？]+["'”’)\]」』]*|$)\s*/g;
+// A sentence that really ended: terminal punctuation, optionally followed by closing quotes/brackets
+const TERMINAL_END = /[.!?。！？．｡…‼⁇⁈⁉؟।]["'”’»)\]}」』〕】》〉）]*$/;
+// Last word before a final period, without opening quotes/brackets
+const LAST_WORD_BEFORE_PERIOD = /(?:^|[\s"'“‘«(\[{])([^\s"'“‘«(\[{]+)\.$/;
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+const getSegmenter = (lang: string | null): Intl.Segmenter | null => {
+  if (typeof Intl === 'undefined' || !('Segmenter' in Intl)) return null;
+  const key = lang ?? '';
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    try {
+      segmenter = new Intl.Segmenter(lang ?? undefined, { granularity: 'sentence' });
+    } catch {
+      // Unknown locale tag
+      segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+    }
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+};
+
+/**
+ * Finds [start, end) ranges of paragraphs (separated by blank lines).
+ * Ranges are contiguous; each keeps the blank lines that end it.
+ */
+export const paragraphRanges = (text: string): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  const regex = /\n\s*\n/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    ranges.push([last, match.index + match[0].length]);
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) ranges.push([last, text.length]);
+  return ranges;
+};
+
+/**
+ * Helper: Raw sentence end offsets within text[from, to), before abbreviation handling
+ */
+const rawSentenceEnds = (text: string, from: number, to: number, lang: string | null): number[] => {
+  const slice = text.substring(from, to);
+  const segmenter = getSegmenter(lang);
+  if (segmenter) {
+    return Array.from(segmenter.segment(slice), segment => from + segment.index + segment.segment.length);
+  }
+
+  const ends: number[] = [];
+  let match: RegExpExecArray | null;
+  SENTENCE_REGEX.lastIndex = 0;
+  while ((match = SENTENCE_REGEX.exec(slice)) !== null) {
+    if (match[0].length === 0) {
+      SENTENCE_REGEX.lastIndex++;
+      continue;
+    }
+    ends.push(from + match.index + match[0].length);
+  }
+  if (ends[ends.length - 1] !== to) ends.push(to);
+  return ends;
+};
+
+/**
+ * Helper: Whether a break after this sentence is false: no terminal punctuation (a line
+ * break inside the paragraph), an abbreviation or initial, or a next sentence that starts
+ * in lowercase
+ */
+const continuesSentence = (sentence: string, next: string, abbreviations: Set<string>): boolean => {
+  const body = sentence.trimEnd();
+  if (!TERMINAL_END.test(body)) return true;
+  if (/^\s*\p{Ll}/u.test(next) && body.endsWith('.')) return true;
+
+  const word = body.match(LAST_WORD_BEFORE_PERIOD)?.[1];
+  if (!word) return false;
+  // Initials (J. K.) and dotted initialisms (U.S.) rarely end a sentence
+  return abbreviations.has(word.toLowerCase()) || /^\p{Lu}$/u.test(word) || /^(?:\p{L}\.)+\p{L}$/u.test(word);
+};
+
+/**
+ * Finds [start, end) ranges of sentences within text[from, to), which should not span a
+ * paragraph break. Ranges are contiguous and include trailing whitespace.
+ */
+export const sentenceRanges = (text: string, from: number, to: number, lang: string | null = detectLanguage(text)): Array<[number, number]> => {
+  if (to <= from) return [];
+  const abbreviations = getAbbreviations(lang);
+  const ranges: Array<[number, number]> = [];
+  let start = from;
+  const ends = rawSentenceEnds(text, from, to, lang);
+  ends.forEach((end, i) => {
+    // Whitespace left over after a break (e.g. a line break) belongs to the sentence before it
+    if (ranges.length > 0 && !text.substring(start, end).trim()) {
+      ranges[ranges.length - 1][1] = end;
+      start = end;
+      return;
+    }
+    const next = ends[i + 1];
+    if (next !== undefined && continuesSentence(text.substring(start, end), text.substring(end, next), abbreviations)) return;
+    ranges.push([start, end]);
+    start = end;
+  });
+  return ranges;
+};
+
+// Segmenting a page is cheap but not free; the highlight asks for the same text on every word
+let cachedText: string | null = null;
+let cachedRanges: Array<[number, number]> = [];
+
+/**
+ * Sentence ranges covering the whole text, paragraph by paragraph
+ */
+export const getSentenceRanges = (text: string): Array<[number, number]> => {
+  if (text !== cachedText) {
+    const lang = detectLanguage(text);
+    cachedRanges = paragraphRanges(text).flatMap(([start, end]) => sentenceRanges(text, start, end, lang));
+    cachedText = text;
+  }
+  return cachedRanges;
+};
+
+/**
+ * Helper: Trims surrounding whitespace off a range
+ */
+const trimRange = (text: string, start: number, end: number): [number, number] => {
+  const part = text.substring(start, end);
+  const leading = Math.max(0, part.search(/\S/));
+  return [start + leading, Math.max(start + leading, start + part.trimEnd().length)];
+};
+
+/**
+ * Returns the [start, end) range of the sentence containing `index`, without surrounding whitespace
+ */
+export const findSentenceRange = (text: string, index: number): [number, number] => {
+  const sentence = getSentenceRanges(text).find(([, end]) => index < end);
+  return sentence ? trimRange(text, sentence[0], sentence[1]) : [index, index];
+};
+
+/**
+ * Returns the offset where the sentence containing `index` begins
+ */
+export const findSentenceStart = (text: string, index: number): number => {
+  return findSentenceRange(text, index)[0];
+};
+
+/**
+ * Returns the [start, end) range of the paragraph containing `index`, without surrounding whitespace
+ */
+export const findParagraphRange = (text: string, index: number): [number, number] => {
+  const paragraph = paragraphRanges(text).find(([, end]) => index < end);
+  return paragraph ? trimRange(text, paragraph[0], paragraph[1]) : [index, index];
+};
+
+/**
+ * Helper: Start of the range after (direction 1) or before (-1) the one containing `index`,
+ * or null at either end of the text
+ */
+const findAdjacentStart = (text: string, ranges: Array<[number, number]>, index: number, direction: 1 | -1): number | null => {
+  const current = ranges.findIndex(([, end]) => index < end);
+  const target = ranges[(current === -1 ? ranges.length : current) + direction];
+  return target ? trimRange(text, target[0], target[1])[0] : null;
+};
+
+/**
+ * Start of the next (direction 1) or previous (-1) sentence, or null when there is none on this page
+ */
+export const findAdjacentSentenceStart = (text: string, index: number, direction: 1 | -1): number | null => {
+  return findAdjacentStart(text, getSentenceRanges(text), index, direction);
+};
+
+/**
+ * Start of the next (direction 1) or previous (-1) paragraph, or null when there is none on this page
+ */
+export const findAdjacentParagraphStart = (text: string, index: number, direction: 1 | -1): number | null => {
+  return findAdjacentStart(text, paragraphRanges(text), index, direction);
+};
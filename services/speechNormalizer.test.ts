@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { SpeechNormalizationSettings } from '../types';
+import { DEFAULT_NORMALIZATION_SETTINGS } from './normalizationSettings';
+import { createSpeechNormalizer, compilePronunciationRule, toOriginalOffset, toSpokenOffset } from './speechNormalizer';
+
+const normalize = createSpeechNormalizer(DEFAULT_NORMALIZATION_SETTINGS);
+const say = (text: string, lang: string | null = 'en') => normalize(text, lang).text;
+
+describe('numbers', () => {
+  it('spells cardinals, ordinals and decades in English', () => {
+    expect(say('We saw 42 birds.')).toBe('We saw forty-two birds.');
+    expect(say('The 21st and 103rd runs')).toBe('The twenty-first and one hundred third runs');
+    expect(say('In the 1990s and 80s')).toBe('In the nineteen nineties and eighties');
+    expect(say('1,234,567 people')).toBe('one million two hundred thirty-four thousand five hundred sixty-seven people');
+  });
+
+  it('reads decimals and signs with the language decimal point', () => {
+    expect(say('It grew 3.14 times, to -2.5.')).toBe('It grew three point one four times, to minus two point five.');
+    expect(say('Es waren 3,5 Tage.', 'de')).toBe('Es waren drei Komma fünf Tage.');
+    expect(say('Il y a 1 000 000 habitants.', 'fr')).toBe('Il y a un million habitants.');
+  });
+
+  it('spells currencies and units with the right number', () => {
+    expect(say('It costs $5.99, or $1.')).toBe('It costs five dollars ninety-nine, or one dollar.');
+    expect(say('We ran 1 km, then 21.5 km at 12%.')).toBe('We ran one kilometer, then twenty-one point five kilometers at twelve percent.');
+    expect(say('Es kostet 1.234,50 € bei 21 °C.', 'de')).toBe('Es kostet eintausendzweihundertvierunddreißig Euro fünfzig bei einundzwanzig Grad Celsius.');
+    expect(say('Cuesta 21 € y mide 1 km.', 'es')).toBe('Cuesta veintiún euros y mide un kilómetro.');
+  });
+
+  it('spells dates', () => {
+    expect(say('On 2024-03-15 and March 3, 1850.')).toBe('On March fifteenth, twenty twenty-four and March third, eighteen fifty.');
+    expect(say('Am 15. März 1999', 'de')).toBe('Am fünfzehnten März neunzehnhundertneunundneunzig');
+  });
+
+  it('reads ranges', () => {
+    expect(say('pages 3–5 and 10-20, from 1990-1995')).toBe('pages three to five and ten to twenty, from nineteen ninety to nineteen ninety-five');
+  });
+
+  it('leaves other languages and disabled settings alone', () => {
+    expect(say('42 ist 42', null)).toBe('42 ist 42');
+    expect(say('42 です', 'ja')).toBe('42 です');
+    const off: SpeechNormalizationSettings = { ...DEFAULT_NORMALIZATION_SETTINGS, expandNumbers: false };
+    expect(createSpeechNormalizer(off)('We saw 42 birds.', 'en').text).toBe('We saw 42 birds.');
+  });
+
+  describe('dotted and hyphenated digit runs', () => {
+    it('leaves section numbers, versions and addresses as written', () => {
+      expect(say('Section 4.2.3, version 3.2.1 at 192.168.1.1.')).toBe('Section 4.2.3, version 3.2.1 at 192.168.1.1.');
+      expect(say('Abschnitt 4.2.3 und 192.168.1.1', 'de')).toBe('Abschnitt 4.2.3 und 192.168.1.1');
+    });
+
+    it('leaves phone and ID numbers as written', () => {
+      expect(say('call 555-1234 or 1-800-555-1234')).toBe('call 555-1234 or 1-800-555-1234');
+      expect(say('ISBN 978-3-16-148410-0')).toBe('ISBN 978-3-16-148410-0');
+    });
+
+    it('still reads a number that ends a sentence', () => {
+      expect(say('It was 4.2. Then 7.')).toBe('It was four point two. Then seven.');
+    });
+  });
+
+  describe('years', () => {
+    it('reads four-digit numbers as years only in year contexts', () => {
+      expect(say('In 1999 we had 1999 patients.')).toBe('In nineteen ninety-nine we had one thousand nine hundred ninety-nine patients.');
+      expect(say('The study (2019) ran since 2001, until March 2020.'))
+        .toBe('The study (twenty nineteen) ran since two thousand one, until March twenty twenty.');
+      expect(say('It weighs 1850 grams and cost 2024 dollars')).toBe('It weighs one thousand eight hundred fifty grams and cost two thousand twenty-four dollars');
+    });
+
+    it('does not read implausible years as years', () => {
+      expect(say('in 3000 cases')).toBe('in three thousand cases');
+    });
+
+    it('uses the cue words of each language', () => {
+      expect(say('im Jahr 1985 und 1985 Mal', 'de')).toBe('im Jahr neunzehnhundertfünfundachtzig und eintausendneunhundertfünfundachtzig Mal');
+    });
+  });
+
+  describe('Chinese', () => {
+    it('spells amounts, percentages and currencies', () => {
+      expect(say('价格是 1,234 元，增长 12%。', 'zh')).toBe('价格是 一千二百三十四元，增长 百分之十二。');
+      expect(say('花了2元和$5，约 ¥5.99', 'zh')).toBe('花了两元和五美元，约 五点九九元');
+      expect(say('温度 -3.5°C，共 10500 人，5km长', 'zh')).toBe('温度 负三点五摄氏度，共 一万零五百 人，五公里长');
+    });
+
+    it('reads years digit by digit and spells dates', () => {
+      expect(say('2024年3月15日，2019–2024年', 'zh')).toBe('二零二四年三月十五日，二零一九至二零二四年');
+      expect(say('2024-03-15', 'zh')).toBe('二零二四年三月十五日');
+    });
+
+    it('spells numbers inside words and leaves digit runs alone', () => {
+      expect(say('第3章，版本 4.2.3，电话 138-0013-8000', 'zh')).toBe('第三章，版本 4.2.3，电话 138-0013-8000');
+    });
+  });
+});
+
+describe('offsets', () => {
+  const text = 'It costs $5.99 [12] in 1999, see www.example.com/page.';
+  const spoken = normalize(text, 'en');
+
+  it('produces the expected spoken text', () => {
+    expect(spoken.text).toBe('It costs five dollars ninety-nine in nineteen ninety-nine, see example.com.');
+  });
+
+  it('maps unchanged text both ways', () => {
+    for (const word of ['It ', ' costs ', ' in ', ' see ']) {
+      const original = text.indexOf(word);
+      const inSpoken = spoken.text.indexOf(word);
+      expect(toOriginalOffset(spoken, inSpoken)).toBe(original);
+      expect(toSpokenOffset(spoken, original)).toBe(inSpoken);
+    }
+  });
+
+  it('maps replacement words to the start of what they replaced', () => {
+    expect(toOriginalOffset(spoken, spoken.text.indexOf('dollars'))).toBe(text.indexOf('$'));
+    expect(toOriginalOffset(spoken, spoken.text.indexOf('ninety-nine,'))).toBe(text.indexOf('1999'));
+    expect(toSpokenOffset(spoken, text.indexOf('$'))).toBe(spoken.text.indexOf('five'));
+  });
+
+  it('maps removed text to what follows it', () => {
+    const inCitation = text.indexOf('12]');
+    expect(toSpokenOffset(spoken, inCitation)).toBe(spoken.text.indexOf(' in'));
+  });
+
+  it('maps the ends and clamps positions outside the text', () => {
+    expect(toOriginalOffset(spoken, spoken.text.length)).toBe(text.length);
+    expect(toOriginalOffset(spoken, spoken.text.length + 10)).toBe(text.length);
+    expect(toOriginalOffset(spoken, -5)).toBe(0);
+    expect(toSpokenOffset(spoken, 0)).toBe(0);
+    expect(toSpokenOffset(spoken, text.length)).toBe(spoken.text.length);
+  });
+
+  it('round-trips every spoken position to a non-decreasing original offset', () => {
+    const originals = Array.from({ length: spoken.text.length + 1 }, (_, i) => toOriginalOffset(spoken, i));
+    originals.forEach((offset, i) => {
+      if (i > 0) expect(offset).toBeGreaterThanOrEqual(originals[i - 1]);
+      expect(toOriginalOffset(spoken, toSpokenOffset(spoken, offset))).toBe(offset);
+    });
+  });
+});
+
+describe('pronunciations', () => {
+  it('applies dictionary entries with group references, document entries first', () => {
+    const rule = (id: string, pattern: string, replacement: string) => ({ id, pattern, replacement, caseSensitive: false });
+    const withRules = createSpeechNormalizer(
+      { ...DEFAULT_NORMALIZATION_SETTINGS, pronunciations: [rule('g', 'SQL', 'sequel')] },
+      [rule('d', 'SQL', 'S Q L'), rule('e', '(\\w+)@', '$1 at ')]
+    );
+    expect(withRules('SQL via me@', 'en').text).toBe('S Q L via me at ');
+  });
+
+  it('ignores entries that are empty or not valid patterns', () => {
+    expect(compilePronunciationRule({ id: 'x', pattern: '', replacement: '', caseSensitive: false })).toBeNull();
+    expect(compilePronunciationRule({ id: 'y', pattern: '(', replacement: '', caseSensitive: false })).toBeNull();
+  });
+});
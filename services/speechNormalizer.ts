@@ -0,0 +1,387 @@
+import { SpokenText, PronunciationRule, SpeechNormalizationSettings } from '../types';
+import { getSpeechLanguage, SpeechLanguage } from '../data/speechExpansions';
+import { hasNumberWords, spellNumber, spellDigits, spellOrdinal, spellYear, spellDate } from './numberWords';
+
+/**
+ * Rewrites page text into what a voice should say: ligatures fixed, citations and URLs
+ * dropped, abbreviations, numbers, dates and units spelled out, and the user's
+ * pronunciation dictionary applied. Every step records where its output came from, so
+ * positions reported by the voice map back onto the page text for highlighting.
+ */
+
+// Normalizes one text; `lang` (primary subtag) selects the number and abbreviation rules
+export type SpeechNormalizer = (text: string, lang: string | null) => SpokenText;
+
+type Replacer = (match: RegExpExecArray, text: string) => string;
+
+const LIGATURES: Record<string, string> = {
+  '\uFB00': 'ff', '\uFB01': 'fi', '\uFB02': 'fl', '\uFB03': 'ffi', '\uFB04': 'ffl', '\uFB05': 'st', '\uFB06': 'st',
+};
+// Ligatures, plus soft hyphens and zero-width characters that voices spell out or stop at
+const LIGATURE_PATTERN = /[\uFB00-\uFB06\u00AD\u200B-\u200D\u2060\uFEFF]/g;
+
+const DOI_PATTERN = /\s*\b(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)10\.\d{4,9}\/\S+/gi;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"'()[\]]+/gi;
+const TRAILING_PUNCTUATION = /[.,;:!?]+$/;
+// What follows an abbreviation that ended its sentence: the end of the text, a line break or a capital
+const SENTENCE_BREAK_PATTERN = /\s*$|[ \t]*\n|\s+\p{Lu}/uy;
+
+// [12], [3, 5-7], [4; 9]
+const NUMERIC_CITATION_PATTERN = /\s*\[\d+(?:\s*[,;–-]\s*\d+)*\]/g;
+// (Smith et al., 2019), (Smith & Jones 2020; Lee 2021a), (see Lee, 2018, p. 4)
+const AUTHOR_YEAR_CITATION_PATTERN = /\s*\((?:see\s+|e\.g\.,?\s+|cf\.\s+)?\p{Lu}[^()\d]{0,80}?,?\s(?:1[5-9]|20)\d{2}[a-z]?(?:[,;][^()]{0,120})?\)/gu;
+// The year after a name in running text: Smith et al. (2019) showed...
+const NARRATIVE_YEAR_PATTERN = /(?<=\p{Lu}[\p{L}'-]*(?: et al\.)?)\s*\((?:1[5-9]|20)\d{2}[a-z]?\)/gu;
+// Superscript note numbers after a word or punctuation; short words before them are more likely units (m², cm³)
+const SUPERSCRIPT_CITATION_PATTERN = /(?<=\p{L}{3}|[.,;:)\]])[⁰¹²³⁴⁵⁶⁷⁸⁹]+(?:[,–-][⁰¹²³⁴⁵⁶⁷⁸⁹]+)*/gu;
+
+// Four-digit numbers outside this range are never read as years
+const MIN_YEAR = 1000;
+const MAX_YEAR = 2099;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isLetter = (char: string | undefined): boolean => !!char && /\p{L}/u.test(char);
+
+/**
+ * Helper: Text mapped onto itself
+ */
+const identity = (text: string): SpokenText => ({
+  text,
+  sourceOffsets: Array.from({ length: text.length + 1 }, (_, i) => i),
+});
+
+/**
+ * Helper: Replaces every match of a global pattern. Replacement characters map to the start
+ * of what they replaced; a replacer returning the match unchanged leaves it alone.
+ */
+const replaceMatches = (spoken: SpokenText, pattern: RegExp, replace: Replacer): SpokenText => {
+  const { text, sourceOffsets } = spoken;
+  let out = '';
+  const offsets: number[] = [];
+  let last = 0;
+  let changed = false;
+  pattern.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    const replacement = replace(match, text);
+    if (replacement === match[0]) continue;
+
+    const start = match.index;
+    out += text.slice(last, start);
+    for (let i = last; i < start; i++) offsets.push(sourceOffsets[i]);
+    out += replacement;
+    for (let i = 0; i < replacement.length; i++) offsets.push(sourceOffsets[start]);
+    last = start + match[0].length;
+    changed = true;
+  }
+  if (!changed) return spoken;
+
+  out += text.slice(last);
+  for (let i = last; i <= text.length; i++) offsets.push(sourceOffsets[i]);
+  return { text: out, sourceOffsets: offsets };
+};
+
+/**
+ * Helper: Keeps the trailing punctuation of a URL-like match out of what is replaced
+ */
+const splitTrailingPunctuation = (match: string): [string, string] => {
+  const trimmed = match.replace(TRAILING_PUNCTUATION, '');
+  return [trimmed, match.slice(trimmed.length)];
+};
+
+/**
+ * Compiles a dictionary entry, or returns null when its pattern is empty or not a valid
+ * regular expression (so an entry being typed never breaks reading)
+ */
+export const compilePronunciationRule = (rule: PronunciationRule): RegExp | null => {
+  if (!rule.pattern) return null;
+  try {
+    return new RegExp(rule.pattern, rule.caseSensitive ? 'g' : 'gi');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Helper: Expands $1, $& and $$ in a dictionary replacement, like String.replace
+ */
+const expandReplacement = (replacement: string, match: RegExpExecArray): string =>
+  replacement.replace(/\$(\d{1,2}|&|\$)/g, (_, ref: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    return match[Number(ref)] ?? '';
+  });
+
+/**
+ * Helper: Adds spaces where spelled-out words would otherwise run into letters ("3b", "H2O")
+ */
+const padWords = (words: string, text: string, start: number, end: number): string =>
+  `${isLetter(text[start - 1]) ? ' ' : ''}${words}${isLetter(text[end]) ? ' ' : ''}`;
+
+/**
+ * Helper: "1990s" -> "nineteen nineties", "80s" -> "eighties"
+ */
+const pluralizeEnglish = (words: string): string => words.endsWith('y') ? `${words.slice(0, -1)}ies` : `${words}s`;
+
+interface LanguagePatterns {
+  abbreviations: Array<{ pattern: RegExp; replace: Replacer }>;
+  numbers: Array<{ pattern: RegExp; replace: Replacer }>;
+}
+
+/**
+ * Helper: Builds the abbreviation and number rules for one language
+ */
+const buildLanguagePatterns = (lang: string, language: SpeechLanguage): LanguagePatterns => {
+  const abbreviations = language.abbreviations.map(entry => {
+    // Parts separated by a space in the table may be written with or without it
+    const body = entry.abbreviation.split(/\s+/).map(escapeRegExp).join('\\s?');
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${body}${entry.beforeNumber ? '(?=\\s?\\d)' : ''}`, 'giu');
+    const replace: Replacer = (match, text) => {
+      const first = match[0][0];
+      let expansion = first === first.toUpperCase() && first !== first.toLowerCase()
+        ? entry.expansion[0].toUpperCase() + entry.expansion.slice(1)
+        : entry.expansion;
+      if (entry.endsSentences && match[0].endsWith('.')) {
+        SENTENCE_BREAK_PATTERN.lastIndex = match.index + match[0].length;
+        if (SENTENCE_BREAK_PATTERN.test(text)) expansion += '.';
+      }
+      return padWords(expansion, text, match.index, match.index + match[0].length);
+    };
+    return { pattern, replace };
+  });
+
+  if (!hasNumberWords(lang)) return { abbreviations, numbers: [] };
+
+  const numbers: LanguagePatterns['numbers'] = [];
+  const monthAlternation = language.months.map(escapeRegExp).join('|');
+
+  // ISO dates: 2024-03-15
+  numbers.push({
+    pattern: /(?<!\d)(\d{4})-(\d{2})-(\d{2})(?!\d)/g,
+    replace: (match) => {
+      const [, year, month, day] = match.map(Number);
+      if (month < 1 || month > 12 || day < 1 || day > 31) return match[0];
+      return spellDate(year, month, day, lang) ?? match[0];
+    },
+  });
+
+  // Days next to a month name are ordinals in English ("March 15") and German ("15. März")
+  if (lang === 'en') {
+    numbers.push({
+      pattern: new RegExp(`\\b(${monthAlternation})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'g'),
+      replace: (match) => {
+        const day = Number(match[2]);
+        return day >= 1 && day <= 31 ? `${match[1]} ${spellOrdinal(day, lang)}` : match[0];
+      },
+    });
+  } else if (lang === 'de') {
+    numbers.push({
+      pattern: new RegExp(`(?<!\\d)(\\d{1,2})\\.\\s?(${monthAlternation})\\b`, 'g'),
+      replace: (match, text) => {
+        const day = Number(match[1]);
+        if (day < 1 || day > 31) return match[0];
+        // "am 15. März" takes the dative: "am fünfzehnten März"
+        const isDative = /\b(?:am|vom|zum|dem)\s+$/i.test(text.slice(Math.max(0, match.index - 8), match.index));
+        const ordinal = spellOrdinal(day, lang)!;
+        return `${isDative ? ordinal.replace(/er$/, 'en') : ordinal} ${match[2]}`;
+      },
+    });
+  }
+
+  const space = language.wordSeparator;
+  const joinWords = (...words: string[]): string => words.join(space);
+
+  // Ranges: 3–5, 1990—1995
+  numbers.push({
+    pattern: /(?<=\d)\s?[–—]\s?(?=[-−]?\d)/g,
+    replace: () => joinWords('', language.rangeTo, ''),
+  });
+  // With a hyphen only when it reads as one (3-5, 1990-1995); 555-1234 and ISBNs stay as written
+  numbers.push({
+    pattern: /(?<=(?<![\d.-])(\d+))-(?=(\d+)(?![\d.-]))/g,
+    replace: (match) => {
+      const [, from, to] = match;
+      return from.length === to.length && Number(from) < Number(to) ? joinWords('', language.rangeTo, '') : match[0];
+    },
+  });
+
+  if (lang === 'en') {
+    // Decades: 1990s, 80s
+    numbers.push({
+      pattern: /\b(\d{2}|\d{4})s\b/g,
+      replace: (match) => {
+        const value = Number(match[1]);
+        if (value % 10 !== 0) return match[0];
+        const words = match[1].length === 4 ? spellYear(value, lang) : spellNumber(value, lang);
+        return words ? pluralizeEnglish(words) : match[0];
+      },
+    });
+    // Ordinals: 1st, 22nd, 103rd
+    numbers.push({
+      pattern: /\b(\d+)(?:st|nd|rd|th)\b/g,
+      replace: (match) => spellOrdinal(Number(match[1]), lang) ?? match[0],
+    });
+  }
+
+  // Four-digit numbers are years in parentheses, after a cue word ("in 1999") or a month
+  // ("March 15, 1850", "15. März 1999"), before a year marker (2024年), and on either side
+  // of a range of years
+  const cueBefore = new RegExp(`(?:^|[^\\p{L}])(?:${language.yearCues.map(escapeRegExp).join('|')})\\s+$`, 'iu');
+  const monthBefore = new RegExp(`(?:^|[^\\p{L}])(?:${monthAlternation})\\.?(?:\\s+[\\p{L}\\d-]+)?,?\\s+$`, 'iu');
+  const rangeTo = escapeRegExp(language.rangeTo);
+  const yearBefore = new RegExp(`(?<!\\d)\\d{4}\\s*${rangeTo}\\s*$`, 'u');
+  const yearAfter = new RegExp(`^\\s*${rangeTo}\\s*\\d{4}(?!\\d)`, 'u');
+  const markerAfter = language.yearMarker ? new RegExp(`^\\s?${escapeRegExp(language.yearMarker)}`) : null;
+  const isYear = (value: number, text: string, start: number, end: number): boolean => {
+    if (value < MIN_YEAR || value > MAX_YEAR) return false;
+    if (text[start - 1] === '(' && text[end] === ')') return true;
+    const before = text.slice(Math.max(0, start - 40), start);
+    const after = text.slice(end, end + 40);
+    return cueBefore.test(before) || monthBefore.test(before) || yearBefore.test(before)
+      || yearAfter.test(after) || !!markerAfter?.test(after);
+  };
+
+  // Numbers with their sign, decimals, unit or currency. Runs of dotted or hyphenated digit
+  // groups (4.2.3, 192.168.1.1, 555-1234) are versions, addresses and phone numbers: no part
+  // of them is expanded, so the voice reads them as written.
+  const separator = language.thousandsSeparator === ' ' ? '[ \\u00A0\\u202F]' : escapeRegExp(language.thousandsSeparator);
+  const decimal = language.thousandsSeparator === ',' ? '\\.' : ',';
+  const currencies = Object.keys(language.currencies).map(escapeRegExp).join('');
+  // Longest first, so "km/h" wins over "km" and "ms" over "m"
+  const units = Object.keys(language.units).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  // Chinese runs words together, so only Latin letters next to a number continue a word
+  const wordChar = space ? '[\\p{L}\\p{N}]' : '[A-Za-z\\p{N}]';
+  numbers.push({
+    pattern: new RegExp(
+      `([${currencies}])?(?:(?<!${wordChar})([-−]))?(?<!\\p{N}|\\d[.-])(\\d{1,3}(?:${separator}\\d{3})+(?!\\d)|\\d+)` +
+      `(?:${decimal}(\\d+))?(?!\\d|[.-]\\d)(?:\\s?(${units}|[${currencies}])(?!${wordChar}))?`,
+      'gu'
+    ),
+    replace: (match, text) => {
+      const [whole, currencyBefore, sign, integer, fraction, suffix] = match;
+      const digits = integer.replace(/\D/g, '');
+      // Identifiers, phone and ISBN numbers are better left to the voice
+      if (digits.length > 12) return whole;
+      const value = Number(digits);
+
+      const currency = currencyBefore ?? (suffix && language.currencies[suffix] ? suffix : undefined);
+      const unit = suffix && !language.currencies[suffix] ? language.units[suffix] : undefined;
+      const noun = currency ? language.currencies[currency] : unit;
+      // A dangling currency symbol with a unit after it ("$5 %") is not worth untangling
+      if (currencyBefore && suffix && suffix !== currencyBefore && !unit) return whole;
+
+      // Two-digit fractions of a currency are cents: "$5.99" is "five dollars ninety-nine".
+      // Chinese reads prices as decimals: 五点九九元
+      const cents = currency && fraction?.length === 2 && lang !== 'zh' ? Number(fraction) : null;
+
+      let words: string | null;
+      if (!sign && !fraction && !noun && /^\d{4}$/.test(integer) && isYear(value, text, match.index, match.index + whole.length)) {
+        words = spellYear(value, lang);
+      } else {
+        words = spellNumber(value, lang, !!noun);
+        if (words && fraction && cents === null) {
+          const fractionWords = spellDigits(fraction, lang);
+          words = fractionWords ? joinWords(words, language.decimalPoint, fractionWords) : null;
+        }
+      }
+      if (!words) return whole;
+
+      if (sign) words = joinWords(language.minus, words);
+      if (noun) {
+        const singular = lang === 'fr' ? value < 2 : value === 1 && (!fraction || cents !== null);
+        const nounWords = singular ? noun[0] : noun[1];
+        // Chinese says the percent first: 百分之十二
+        words = lang === 'zh' && unit && (suffix === '%' || suffix === '％') ? nounWords + words : joinWords(words, nounWords);
+        if (cents) words = joinWords(words, spellNumber(cents, lang)!);
+      }
+      return space ? padWords(words, text, match.index, match.index + whole.length) : words;
+    },
+  });
+
+  return { abbreviations, numbers };
+};
+
+/**
+ * Creates a normalizer for the given settings. Document dictionary entries are applied
+ * before the global ones, so a document can override how a word is said everywhere else.
+ */
+export const createSpeechNormalizer = (
+  settings: SpeechNormalizationSettings,
+  documentRules: PronunciationRule[] = []
+): SpeechNormalizer => {
+  const pronunciations = [...documentRules, ...settings.pronunciations].flatMap(rule => {
+    const pattern = compilePronunciationRule(rule);
+    return pattern ? [{ pattern, rule }] : [];
+  });
+  const languagePatterns = new Map<string, LanguagePatterns | null>();
+
+  const getLanguagePatterns = (lang: string | null): LanguagePatterns | null => {
+    if (!lang) return null;
+    if (!languagePatterns.has(lang)) {
+      const language = getSpeechLanguage(lang);
+      languagePatterns.set(lang, language ? buildLanguagePatterns(lang, language) : null);
+    }
+    return languagePatterns.get(lang)!;
+  };
+
+  return (text, lang) => {
+    let spoken = identity(text);
+
+    if (settings.fixLigatures) {
+      spoken = replaceMatches(spoken, LIGATURE_PATTERN, match => LIGATURES[match[0]] ?? '');
+    }
+    for (const { pattern, rule } of pronunciations) {
+      spoken = replaceMatches(spoken, pattern, match => expandReplacement(rule.replacement, match));
+    }
+    if (settings.stripUrls) {
+      spoken = replaceMatches(spoken, DOI_PATTERN, match => splitTrailingPunctuation(match[0])[1]);
+      spoken = replaceMatches(spoken, URL_PATTERN, match => {
+        const [url, trailing] = splitTrailingPunctuation(match[0]);
+        const host = url.replace(/^https?:\/\//i, '').replace(/^www\./i, '').split(/[/?#:]/)[0];
+        return host + trailing;
+      });
+    }
+    if (settings.stripCitations) {
+      for (const pattern of [NUMERIC_CITATION_PATTERN, AUTHOR_YEAR_CITATION_PATTERN, NARRATIVE_YEAR_PATTERN, SUPERSCRIPT_CITATION_PATTERN]) {
+        spoken = replaceMatches(spoken, pattern, () => '');
+      }
+    }
+
+    const patterns = getLanguagePatterns(lang);
+    if (patterns && settings.expandAbbreviations) {
+      for (const { pattern, replace } of patterns.abbreviations) spoken = replaceMatches(spoken, pattern, replace);
+    }
+    if (patterns && settings.expandNumbers) {
+      for (const { pattern, replace } of patterns.numbers) spoken = replaceMatches(spoken, pattern, replace);
+    }
+
+    return spoken;
+  };
+};
+
+/**
+ * Offset in the original text of a position in the spoken text
+ */
+export const toOriginalOffset = (spoken: SpokenText, offset: number): number =>
+  spoken.sourceOffsets[Math.max(0, Math.min(offset, spoken.text.length))];
+
+/**
+ * First position in the spoken text at or after an offset in the original text
+ */
+export const toSpokenOffset = (spoken: SpokenText, sourceOffset: number): number => {
+  const offsets = spoken.sourceOffsets;
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid] < sourceOffset) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
@@ -0,0 +1,101 @@
+import { PageAudio } from '../types';
+import { toOriginalOffset, toSpokenOffset } from './speechNormalizer';
+
+/**
+ * Timing model for Gemini page audio.
+ *
+ * Gemini returns no word boundaries, so we estimate them: each chunk's start time is
+ * exact (known from assembly), and within a chunk characters are assumed to be spoken
+ * at a constant rate. The estimate is re-anchored at every chunk boundary. When a chunk's
+ * text was normalized, the rate applies to what was spoken ("twelve point five percent",
+ * not "12.5%") and positions are mapped back onto the page text.
+ */
+
+// Snapshot of where the source was at a known AudioContext time, taken on start and on every rate change
+export interface PlaybackAnchor {
+  contextTime: number; // AudioContext.currentTime when the anchor was taken
+  position: number; // Seconds into the page buffer (1x media time) at that moment
+  rate: number; // playbackRate in effect since then
+}
+
+export const createPlaybackAnchor = (contextTime: number, position: number, rate: number): PlaybackAnchor => ({
+  contextTime,
+  position,
+  rate,
+});
+
+/**
+ * Current position in the buffer. The AudioContext clock stops while suspended,
+ * so pausing via ctx.suspend() needs no extra bookkeeping.
+ */
+export const getPlaybackPosition = (anchor: PlaybackAnchor, contextTime: number): number => {
+  return anchor.position + Math.max(0, contextTime - anchor.contextTime) * anchor.rate;
+};
+
+/**
+ * Re-anchors at the current position so a new rate only applies from now on
+ */
+export const reanchorPlayback = (anchor: PlaybackAnchor, contextTime: number, newRate: number): PlaybackAnchor => {
+  return createPlaybackAnchor(contextTime, getPlaybackPosition(anchor, contextTime), newRate);
+};
+
+/**
+ * Estimates the character offset (in page text) being spoken at a buffer position
+ */
+export const charIndexAtTime = (pageAudio: PageAudio, time: number): number => {
+  const { chunks } = pageAudio;
+  if (chunks.length === 0) return 0;
+
+  for (const chunk of chunks) {
+    if (time < chunk.startTime + chunk.duration) {
+      const progress = chunk.duration > 0 ? Math.max(0, time - chunk.startTime) / chunk.duration : 0;
+      if (chunk.spoken) {
+        return chunk.start + toOriginalOffset(chunk.spoken, Math.floor(progress * chunk.spoken.text.length));
+      }
+      return chunk.start + Math.floor(progress * (chunk.end - chunk.start));
+    }
+  }
+
+  const last = chunks[chunks.length - 1];
+  return Math.max(last.start, last.end - 1);
+};
+
+/**
+ * Inverse of charIndexAtTime: buffer position at which a character is expected to be spoken
+ */
+export const timeAtCharIndex = (pageAudio: PageAudio, charIndex: number): number => {
+  const { chunks } = pageAudio;
+  if (chunks.length === 0) return 0;
+
+  for (const chunk of chunks) {
+    if (charIndex < chunk.end) {
+      const offset = Math.max(0, charIndex - chunk.start);
+      let progress = chunk.end > chunk.start ? offset / (chunk.end - chunk.start) : 0;
+      if (chunk.spoken) {
+        progress = chunk.spoken.text.length > 0 ? toSpokenOffset(chunk.spoken, offset) / chunk.spoken.text.length : 0;
+      }
+      return chunk.startTime + progress * chunk.duration;
+    }
+  }
+
+  return pageAudio.buffer.duration;
+};
+
+// Typical speaking rates at 1x, for live voices that report no timing. Scripts without
+// spaces pack far more per character, so they are read at fewer characters per second.
+const ESTIMATED_CHARS_PER_SECOND = 14;
+const ESTIMATED_CJK_CHARS_PER_SECOND = 5;
+
+const charsPerSecond = (lang: string | null): number => {
+  return lang === 'zh' || lang === 'ja' || lang === 'ko' ? ESTIMATED_CJK_CHARS_PER_SECOND : ESTIMATED_CHARS_PER_SECOND;
+};
+
+/**
+ * Estimated seconds (at 1x) to speak a number of characters
+ */
+export const estimateSpeechSeconds = (chars: number, lang: string | null): number => chars / charsPerSecond(lang);
+
+/**
+ * Estimated number of characters spoken in a number of seconds (at 1x)
+ */
+export const estimateSpeechChars = (seconds: number, lang: string | null): number => Math.round(seconds * charsPerSecond(lang));
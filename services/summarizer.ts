@@ -0,0 +1,162 @@
+import { FlatOutlineItem, SummarySection, DocumentSummary } from '../types';
+import { getChapterRange } from './pdfService';
+import { generateSummary } from './geminiService';
+import { hashText } from './hashService';
+import { getSummaries, putSummary, StoredSummary } from './summaryStore';
+
+export interface SummaryProgress {
+  completed: number; // Summaries finished (including cache hits)
+  total: number;
+  label: string; // What is being summarized now
+}
+
+export interface SummarizeOptions {
+  docHash: string;
+  sections: SummarySection[];
+  // Page text after OCR fallback; empty for pages without readable text
+  getPageText: (pageNumber: number) => Promise<string>;
+  // Only use stored summaries; anything missing is left out instead of generated
+  cacheOnly?: boolean;
+  onProgress: (progress: SummaryProgress) => void;
+  onUpdate: (summary: DocumentSummary) => void; // Partial results as they arrive
+  signal: AbortSignal;
+}
+
+// Sections of fixed length for documents without an outline
+const PAGES_PER_SECTION = 10;
+// Pages shorter than this are passed on as they are rather than summarized
+const MIN_SUMMARIZED_PAGE_CHARS = 400;
+
+const PAGE_INSTRUCTIONS = 'Summarize this page of a document in 2-3 sentences, keeping key facts, figures and names.';
+const SECTION_INSTRUCTIONS = 'Below are summaries of consecutive pages of one chapter. ' +
+  'Combine them into a single summary of the chapter in one short paragraph (at most 6 sentences).';
+const DOCUMENT_INSTRUCTIONS = 'Below are summaries of the chapters of a document. ' +
+  'Write an overview of the whole document in one or two short paragraphs: its purpose, main points and conclusions.';
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw new DOMException('Summarizing canceled', 'AbortError');
+};
+
+/**
+ * Splits the document into the sections that get a summary each: the top-level outline
+ * chapters (plus any pages before the first one), or blocks of pages without an outline.
+ */
+export const getSummarySections = (entries: FlatOutlineItem[], numPages: number): SummarySection[] => {
+  const ranges = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => entry.depth === 0)
+    .map(({ index }) => getChapterRange(entries, index, numPages))
+    // Entries on the same page as the next one have no pages of their own
+    .filter(range => range.endPage >= range.startPage);
+
+  if (ranges.length === 0) {
+    for (let start = 1; start <= numPages; start += PAGES_PER_SECTION) {
+      const end = Math.min(numPages, start + PAGES_PER_SECTION - 1);
+      ranges.push({ title: start === end ? `Page ${start}` : `Pages ${start}-${end}`, startPage: start, endPage: end });
+    }
+  } else if (ranges[0].startPage > 1) {
+    ranges.unshift({ title: 'Front matter', startPage: 1, endPage: ranges[0].startPage - 1 });
+  }
+
+  return ranges.map(range => ({ ...range, id: `section:${range.startPage}-${range.endPage}` }));
+};
+
+/**
+ * Map-reduce summary of a document: every page is summarized on its own, the page summaries
+ * of each section are combined into a section summary, and those into a document overview.
+ * Every step is cached per document under a hash of its input, so re-running after a change
+ * (or after a cancel) only redoes what is missing or stale. A step that fails is logged and
+ * left without a summary. Rejects with an AbortError when canceled.
+ */
+export const summarizeDocument = async (options: SummarizeOptions): Promise<DocumentSummary> => {
+  const { docHash, sections, getPageText, cacheOnly, onProgress, onUpdate, signal } = options;
+  const stored = await getSummaries(docHash);
+  const summary: DocumentSummary = { overview: null, sections: {}, pages: {} };
+
+  const pageCount = sections.reduce((sum, section) => sum + section.endPage - section.startPage + 1, 0);
+  const total = pageCount + sections.length + 1;
+  let completed = 0;
+
+  // Reuses the stored summary when its input is unchanged; otherwise generates and stores one
+  const summarize = async (id: string, input: string, instructions: string, label: string): Promise<string | null> => {
+    throwIfAborted(signal);
+    onProgress({ completed, total, label });
+    const sourceHash = await hashText(`${instructions}\n${input}`);
+    const cached = stored.get(id);
+    if (cached?.sourceHash === sourceHash) return cached.text;
+    if (cacheOnly) return null;
+
+    const text = await generateSummary(input, instructions, { signal });
+    throwIfAborted(signal);
+    const record: StoredSummary = { sourceHash, text };
+    stored.set(id, record);
+    putSummary(docHash, id, record)
+      .catch(err => console.warn(`[Summary] Failed to store ${id}`, err));
+    return text;
+  };
+
+  // One failed page, section or overview should not sink the whole summary; it is left out instead
+  const summarizeOrSkip = async (id: string, input: string, instructions: string, label: string): Promise<string | null> => {
+    try {
+      return await summarize(id, input, instructions, label);
+    } catch (err) {
+      if ((err as Error)?.name === 'AbortError') throw err;
+      console.warn(`[Summary] Failed to summarize ${id}`, err);
+      return null;
+    }
+  };
+
+  const sectionInputs: string[] = [];
+  for (const section of sections) {
+    // Map: pages
+    const pageParts: string[] = [];
+    for (let pageNumber = section.startPage; pageNumber <= section.endPage; pageNumber++) {
+      const text = (await getPageText(pageNumber)).trim();
+      let pageSummary: string | null = text.length < MIN_SUMMARIZED_PAGE_CHARS ? text || null : null;
+      if (text.length >= MIN_SUMMARIZED_PAGE_CHARS) {
+        pageSummary = await summarizeOrSkip(`page:${pageNumber}`, text, PAGE_INSTRUCTIONS, `Page ${pageNumber}`);
+      }
+      if (pageSummary) {
+        summary.pages[pageNumber] = pageSummary;
+        pageParts.push(`Page ${pageNumber}: ${pageSummary}`);
+      }
+      completed++;
+      onUpdate({ ...summary });
+    }
+
+    // Reduce: section
+    if (pageParts.length > 0) {
+      const sectionSummary = await summarizeOrSkip(section.id, pageParts.join('\n\n'), SECTION_INSTRUCTIONS, section.title);
+      if (sectionSummary) {
+        summary.sections = { ...summary.sections, [section.id]: sectionSummary };
+        sectionInputs.push(`${section.title}: ${sectionSummary}`);
+      }
+    }
+    completed++;
+    onUpdate({ ...summary });
+  }
+
+  // Reduce: document. A single section already is the overview.
+  if (sectionInputs.length > 0) {
+    summary.overview = sections.length === 1
+      ? summary.sections[sections[0].id] ?? null
+      : await summarizeOrSkip('document', sectionInputs.join('\n\n'), DOCUMENT_INSTRUCTIONS, 'Overview');
+  }
+  completed++;
+  onProgress({ completed, total, label: '' });
+  onUpdate({ ...summary });
+  return summary;
+};
+
+/**
+ * Text of the summary-only audio track: the overview, then each section under its title
+ */
+export const buildSummaryScript = (summary: DocumentSummary, sections: SummarySection[]): string => {
+  const parts = summary.overview ? [summary.overview] : [];
+  for (const section of sections) {
+    const text = summary.sections[section.id];
+    // The title is read as a sentence of its own
+    if (text) parts.push(`${section.title}${/[.!?:]$/.test(section.title) ? '' : '.'}\n\n${text}`);
+  }
+  return parts.join('\n\n');
+};
@@ -0,0 +1,38 @@
+import { openDB, promisify, transactionDone, STORES } from './db';
+
+/**
+ * Persistent summaries, so a document is only summarized once. Each summary remembers a hash
+ * of what it was made from, so it is redone when that changes (e.g. a page gains OCR text).
+ */
+
+const STORE_NAME = STORES.SUMMARIES;
+
+export interface StoredSummary {
+  sourceHash: string;
+  text: string;
+}
+
+interface SummaryRecord extends StoredSummary {
+  docHash: string;
+  id: string; // 'page:N', 'section:S-E' or 'document'
+  createdAt: number;
+}
+
+/**
+ * Loads every stored summary of a document, keyed by summary id
+ */
+export const getSummaries = async (docHash: string): Promise<Map<string, StoredSummary>> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const range = IDBKeyRange.bound([docHash, ''], [docHash, '\uffff']);
+  const records = await promisify<SummaryRecord[]>(tx.objectStore(STORE_NAME).getAll(range));
+  return new Map(records.map(record => [record.id, { sourceHash: record.sourceHash, text: record.text }]));
+};
+
+export const putSummary = async (docHash: string, id: string, summary: StoredSummary): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const record: SummaryRecord = { docHash, id, ...summary, createdAt: Date.now() };
+  tx.objectStore(STORE_NAME).put(record);
+  await transactionDone(tx);
+};
@@ -0,0 +1,81 @@
+import { TextChunk } from '../types';
+import { paragraphRanges, sentenceRanges } from './sentenceSegmenter';
+import { detectLanguage } from './languageDetect';
+
+// Keeps each Gemini TTS request comfortably below the model's practical input limit
+export const DEFAULT_MAX_CHUNK_CHARS = 1500;
+
+/**
+ * Helper: Splits an over-long sentence at the last whitespace before the limit,
+ * or hard-cuts it when there is none (e.g. CJK text without punctuation).
+ */
+const splitLongRange = (text: string, start: number, end: number, maxChars: number): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  let pos = start;
+  while (end - pos > maxChars) {
+    const window = text.substring(pos, pos + maxChars);
+    const lastSpace = window.search(/\s\S*$/);
+    const cut = lastSpace > maxChars / 2 ? pos + lastSpace + 1 : pos + maxChars;
+    ranges.push([pos, cut]);
+    pos = cut;
+  }
+  if (pos < end) ranges.push([pos, end]);
+  return ranges;
+};
+
+/**
+ * Splits page text into speech-sized chunks that end on sentence or paragraph boundaries.
+ * Offsets refer to the original text so chunks can be mapped back for highlighting.
+ */
+export const chunkTextForSpeech = (text: string, maxChars: number = DEFAULT_MAX_CHUNK_CHARS): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  let chunkStart = -1;
+  let chunkEnd = -1;
+
+  const flush = () => {
+    if (chunkStart < 0) return;
+    const raw = text.substring(chunkStart, chunkEnd);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed) {
+      chunks.push({ text: trimmed, start: chunkStart + leading, end: chunkStart + leading + trimmed.length });
+    }
+    chunkStart = -1;
+    chunkEnd = -1;
+  };
+
+  const lang = detectLanguage(text);
+  for (const [pStart, pEnd] of paragraphRanges(text)) {
+    for (const [sStart, sEnd] of sentenceRanges(text, pStart, pEnd, lang)) {
+      for (const [start, end] of splitLongRange(text, sStart, sEnd, maxChars)) {
+        if (chunkStart >= 0 && end - chunkStart > maxChars) flush();
+        if (chunkStart < 0) chunkStart = start;
+        chunkEnd = end;
+      }
+    }
+    // Prefer ending a chunk at a paragraph break once it is reasonably full
+    if (chunkStart >= 0 && chunkEnd - chunkStart > maxChars / 2) flush();
+  }
+  flush();
+
+  return chunks;
+};
+
+/**
+ * Restricts chunks to text[start, end) so reading can begin or stop mid-page.
+ * Chunks fully inside the range are kept as they are (and so still hit the audio cache);
+ * only the chunks at either edge are cut.
+ */
+export const clipChunks = (text: string, chunks: TextChunk[], start: number, end: number): TextChunk[] => {
+  return chunks.flatMap(chunk => {
+    if (chunk.end <= start || chunk.start >= end) return [];
+    if (chunk.start >= start && chunk.end <= end) return [chunk];
+
+    const from = Math.max(chunk.start, start);
+    const raw = text.substring(from, Math.min(chunk.end, end));
+    const trimmed = raw.trim();
+    if (!trimmed) return [];
+    const leading = raw.length - raw.trimStart().length;
+    return [{ text: trimmed, start: from + leading, end: from + leading + trimmed.length }];
+  });
+};
@@ -0,0 +1,75 @@
+import { PositionedText, TextBox } from '../types';
+
+// Letters, digits and joiners that keep a word together (don't, e-mail)
+const WORD_CHAR = /[\p{L}\p{N}\p{M}'\u2019-]/u;
+// Scripts written without spaces; each character is treated as its own word
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+
+/**
+ * Returns the [start, end) range of the word at `index`, or an empty range on whitespace/punctuation
+ */
+export const findWordRange = (text: string, index: number): [number, number] => {
+  const char = text[index];
+  if (!char || !WORD_CHAR.test(char)) return [index, index];
+  if (CJK_CHAR.test(char)) return [index, index + 1];
+
+  const isWordChar = (c: string | undefined) => !!c && WORD_CHAR.test(c) && !CJK_CHAR.test(c);
+  let start = index;
+  let end = index + 1;
+  while (isWordChar(text[start - 1])) start--;
+  while (isWordChar(text[end])) end++;
+  return [start, end];
+};
+
+/**
+ * Helper: Whether two boxes sit on the same line and touch (or nearly), so they can be drawn as one
+ */
+const canMerge = (a: TextBox, b: TextBox): boolean => {
+  const overlap = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  const gap = b.x - (a.x + a.width);
+  return overlap > Math.min(a.height, b.height) * 0.5 && gap > -a.height && gap < Math.max(a.height, b.height);
+};
+
+/**
+ * Boxes covering text[start, end) on the page. Items only partly inside the range are cut
+ * proportionally by character count, and neighbouring boxes on one line are merged.
+ */
+export const getRangeBoxes = (items: PositionedText[], start: number, end: number): TextBox[] => {
+  const boxes: TextBox[] = [];
+  for (const item of items) {
+    if (item.end <= start || item.start >= end || item.end <= item.start) continue;
+
+    const length = item.end - item.start;
+    const from = (Math.max(start, item.start) - item.start) / length;
+    const to = (Math.min(end, item.end) - item.start) / length;
+    const box: TextBox = {
+      x: item.box.x + item.box.width * from,
+      y: item.box.y,
+      width: item.box.width * (to - from),
+      height: item.box.height,
+    };
+
+    const last = boxes[boxes.length - 1];
+    if (last && canMerge(last, box)) {
+      const x0 = Math.min(last.x, box.x);
+      const y0 = Math.min(last.y, box.y);
+      const x1 = Math.max(last.x + last.width, box.x + box.width);
+      const y1 = Math.max(last.y + last.height, box.y + box.height);
+      boxes[boxes.length - 1] = { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+    } else {
+      boxes.push(box);
+    }
+  }
+  return boxes;
+};
+
+/**
+ * Character offset of the text under a point on the page (in page fractions), or null when
+ * there is no text there. Within an item, characters are assumed to be evenly spaced.
+ */
+export const findOffsetAtPoint = (items: PositionedText[], x: number, y: number): number | null => {
+  const item = items.find(({ box }) => x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height);
+  if (!item || item.end <= item.start) return null;
+  const progress = item.box.width > 0 ? (x - item.box.x) / item.box.width : 0;
+  return Math.min(item.end - 1, item.start + Math.floor(progress * (item.end - item.start)));
+};
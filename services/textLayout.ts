@@ -0,0 +1,369 @@
+/**
+ * Layout analysis for pdf.js text content.
+ *
+ * pdf.js returns text items in content-stream order, each with a transform giving its
+ * baseline position and font size. We rebuild visual lines from those positions, detect
+ * column gutters, put lines into reading order (column by column, with full-width lines
+ * such as titles breaking the page into bands), and group them into paragraphs.
+ * Lines in the top/bottom margin that look like page numbers or repeat across pages
+ * (running headers/footers) are dropped.
+ *
+ * Every text item keeps its box (as page fractions) and its character range in the
+ * final text, so spoken positions can be drawn on the rendered page.
+ */
+
+import { PositionedText, TextBox } from '../types';
+
+export type MarginZone = 'top' | 'bottom' | null;
+
+// Part of a line that came from one text item; offsets are into the line text
+interface LinePiece {
+  start: number;
+  end: number;
+  box: TextBox;
+}
+
+export interface LayoutLine {
+  text: string;
+  pieces: LinePiece[];
+  x0: number;
+  x1: number;
+  y: number; // Baseline, PDF user space (grows upwards)
+  fontSize: number;
+  column: number; // Index into the page's columns, -1 for lines spanning several
+  zone: MarginZone;
+}
+
+interface TextFragment {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  box: TextBox;
+}
+
+// Converts a PDF user-space rectangle [x0, y0, x1, y1] to page fractions
+export type PageBoxMapper = (rect: number[]) => TextBox;
+
+// Share of the page height at the top and bottom where headers/footers live
+const MARGIN_ZONE = 0.08;
+// A horizontal gap wider than this (in ems) splits a row into separate lines, e.g. at a column gutter
+const LINE_SPLIT_GAP_EM = 1.2;
+// Columns need at least this many lines, so a few indented lines are not taken for a column
+const MIN_COLUMN_LINES = 3;
+const COLUMN_BINS = 100;
+// A running header/footer must appear on at least this share of the sampled pages
+const RUNNING_LINE_SHARE = 0.3;
+
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+// Arabic or well-formed roman numerals; the lookahead rules out an empty numeral, and words
+// made of the same letters, e.g. "civil" or "mild", are not taken for page numbers
+const PAGE_NUMBER_REGEX = /^(page\s*)?(\d+|(?=[mdclxvi])m{0,3}(?:cm|cd|d?c{0,3})(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3}))(\s*(of|\/)\s*\d+)?$/i;
+const PARAGRAPH_END_REGEX = /[.!?:。！？」』"”]$/;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Helper: Converts pdf.js text items to positioned fragments. Whitespace-only items are
+ * dropped; word spacing is recovered from the gaps between fragments instead.
+ */
+const toFragments = (items: any[], toPageBox: PageBoxMapper): TextFragment[] => {
+  return items
+    .filter(item => typeof item.str === 'string' && item.str.trim())
+    .map(item => {
+      const [, , c, d, e, f] = item.transform;
+      const fontSize = Math.hypot(c, d) || item.height || 10;
+      return {
+        text: item.str,
+        x: e,
+        y: f,
+        width: item.width,
+        fontSize,
+        // Approximate glyph extent: ascenders ~0.8em above the baseline, descenders ~0.2em below
+        box: toPageBox([e, f - fontSize * 0.2, e + item.width, f + fontSize * 0.8]),
+      };
+    });
+};
+
+/**
+ * Helper: Joins the fragments of one line, inserting spaces where the gap looks like one.
+ * Whitespace is collapsed as it goes so each fragment's range in the line stays exact.
+ */
+const joinFragments = (fragments: TextFragment[]): { text: string; pieces: LinePiece[] } => {
+  let text = '';
+  const pieces: LinePiece[] = [];
+  fragments.forEach((fragment, i) => {
+    let part = fragment.text.replace(/\s+/g, ' ');
+    if (i > 0) {
+      const prev = fragments[i - 1];
+      const gap = fragment.x - (prev.x + prev.width);
+      if (gap > prev.fontSize * 0.15 && !text.endsWith(' ') && !part.startsWith(' ')) text += ' ';
+    }
+    if (!text || text.endsWith(' ')) part = part.trimStart();
+    const start = text.length;
+    text += part;
+    pieces.push({ start, end: text.length, box: fragment.box });
+  });
+
+  const trimmed = text.trimEnd();
+  return {
+    text: trimmed,
+    pieces: pieces
+      .map(piece => ({ ...piece, end: Math.min(piece.end, trimmed.length) }))
+      .filter(piece => piece.end > piece.start),
+  };
+};
+
+/**
+ * Helper: Groups fragments into rows by baseline, then splits rows at wide gaps
+ */
+const groupLines = (fragments: TextFragment[]): Array<Omit<LayoutLine, 'column' | 'zone'>> => {
+  const sorted = [...fragments].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: TextFragment[][] = [];
+  for (const fragment of sorted) {
+    const row = rows[rows.length - 1];
+    // Within half an em counts as the same baseline (tolerates sub/superscripts)
+    if (row && Math.abs(row[0].y - fragment.y) < Math.min(row[0].fontSize, fragment.fontSize) * 0.5) {
+      row.push(fragment);
+    } else {
+      rows.push([fragment]);
+    }
+  }
+
+  const lines: Array<Omit<LayoutLine, 'column' | 'zone'>> = [];
+  for (const row of rows) {
+    row.sort((a, b) => a.x - b.x);
+    let start = 0;
+    for (let i = 1; i <= row.length; i++) {
+      const isEnd = i === row.length;
+      const gap = isEnd ? 0 : row[i].x - (row[i - 1].x + row[i - 1].width);
+      if (!isEnd && gap <= row[i - 1].fontSize * LINE_SPLIT_GAP_EM) continue;
+
+      const part = row.slice(start, i);
+      const { text, pieces } = joinFragments(part);
+      if (text) {
+        const last = part[part.length - 1];
+        lines.push({
+          text,
+          pieces,
+          x0: part[0].x,
+          x1: last.x + last.width,
+          y: part[0].y,
+          fontSize: Math.max(...part.map(f => f.fontSize)),
+        });
+      }
+      start = i;
+    }
+  }
+  return lines;
+};
+
+/**
+ * Helper: Finds column boundaries as vertical strips that (almost) no line crosses.
+ * Returns [start, end) x ranges, a single range for one-column pages.
+ */
+const findColumns = (lines: Array<Omit<LayoutLine, 'column' | 'zone'>>): Array<[number, number]> => {
+  const minX = Math.min(...lines.map(l => l.x0));
+  const maxX = Math.max(...lines.map(l => l.x1));
+  const width = maxX - minX;
+  if (lines.length < MIN_COLUMN_LINES * 2 || width <= 0) return [[minX, maxX]];
+
+  const binWidth = width / COLUMN_BINS;
+  const coverage = new Array(COLUMN_BINS).fill(0);
+  for (const line of lines) {
+    const first = Math.floor((line.x0 - minX) / binWidth);
+    const last = Math.min(COLUMN_BINS - 1, Math.ceil((line.x1 - minX) / binWidth) - 1);
+    for (let b = first; b <= last; b++) coverage[b]++;
+  }
+
+  // Full-width titles cross the gutter, so allow a few crossings
+  const threshold = Math.max(1, lines.length * 0.1);
+  const minGutter = median(lines.map(l => l.fontSize));
+  const gutters: number[] = [];
+  let runStart = -1;
+  for (let b = 1; b < COLUMN_BINS - 1; b++) {
+    if (coverage[b] <= threshold) {
+      if (runStart < 0) runStart = b;
+    } else if (runStart >= 0) {
+      if ((b - runStart) * binWidth >= minGutter) gutters.push(minX + ((runStart + b) / 2) * binWidth);
+      runStart = -1;
+    }
+  }
+
+  const bounds = [minX, ...gutters, maxX];
+  const columns = bounds.slice(1).map((end, i): [number, number] => [bounds[i], end]);
+  // Every column must hold enough lines of its own
+  const isReal = columns.every(([start, end]) =>
+    lines.filter(l => l.x0 >= start - 1 && l.x1 <= end + 1).length >= MIN_COLUMN_LINES
+  );
+  return isReal ? columns : [[minX, maxX]];
+};
+
+/**
+ * Rebuilds the lines of a page in reading order from pdf.js text items.
+ * `view` is the page's [x0, y0, x1, y1] box, used to locate the margins.
+ */
+export const buildTextLines = (items: any[], view: number[], toPageBox: PageBoxMapper): LayoutLine[] => {
+  const rawLines = groupLines(toFragments(items, toPageBox));
+  if (rawLines.length === 0) return [];
+
+  const columns = findColumns(rawLines);
+  const [, pageBottom, , pageTop] = view;
+  const marginHeight = (pageTop - pageBottom) * MARGIN_ZONE;
+
+  const lines: LayoutLine[] = rawLines.map(line => ({
+    ...line,
+    column: columns.findIndex(([start, end]) => line.x0 >= start - 1 && line.x1 <= end + 1),
+    zone: line.y > pageTop - marginHeight ? 'top' : line.y < pageBottom + marginHeight ? 'bottom' : null,
+  }));
+  if (columns.length === 1) return lines;
+
+  // Lines arrive top to bottom; emit each band column by column, spanning lines in between
+  const ordered: LayoutLine[] = [];
+  let band: LayoutLine[][] = columns.map(() => []);
+  const flush = () => {
+    band.forEach(column => ordered.push(...column));
+    band = columns.map(() => []);
+  };
+  for (const line of lines) {
+    if (line.column < 0) {
+      flush();
+      ordered.push(line);
+    } else {
+      band[line.column].push(line);
+    }
+  }
+  flush();
+  return ordered;
+};
+
+/**
+ * Helper: Key used to recognise the same header/footer on different pages (page numbers vary)
+ */
+const marginSignature = (line: LayoutLine): string =>
+  `${line.zone}:${line.text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ')}`;
+
+/**
+ * Signatures of the margin lines of one page, for detectRunningLines
+ */
+export const getMarginSignatures = (lines: LayoutLine[]): string[] => {
+  return [...new Set(lines.filter(l => l.zone).map(marginSignature))];
+};
+
+/**
+ * Finds margin lines that repeat across sampled pages (running headers and footers)
+ */
+export const findRunningLines = (pageSignatures: string[][]): Set<string> => {
+  const running = new Set<string>();
+  if (pageSignatures.length < 3) return running;
+
+  const counts = new Map<string, number>();
+  pageSignatures.flat().forEach(sig => counts.set(sig, (counts.get(sig) ?? 0) + 1));
+  const minCount = Math.max(2, Math.ceil(pageSignatures.length * RUNNING_LINE_SHARE));
+  counts.forEach((count, sig) => {
+    if (count >= minCount) running.add(sig);
+  });
+  return running;
+};
+
+const isMarginNoise = (line: LayoutLine, runningLines: Set<string>): boolean => {
+  if (!line.zone) return false;
+  return PAGE_NUMBER_REGEX.test(line.text) || runningLines.has(marginSignature(line));
+};
+
+/**
+ * Helper: Joins the lines of a paragraph, undoing hyphenation at line ends.
+ * CJK lines are joined without a space. Item offsets are relative to the paragraph.
+ */
+const joinLines = (lines: LayoutLine[]): { text: string; items: Array<Omit<PositionedText, 'text'>> } => {
+  let text = '';
+  const items: Array<Omit<PositionedText, 'text'>> = [];
+  for (const line of lines) {
+    if (text) {
+      const isHyphenated = /\u00ad$/.test(text) || (/\p{L}[-\u2010]$/u.test(text) && /^\p{Ll}/u.test(line.text));
+      if (isHyphenated) {
+        text = text.slice(0, -1);
+        // The hyphen belonged to the previous line's last item
+        const last = items[items.length - 1];
+        if (last) last.end = Math.min(last.end, text.length);
+      } else if (!(CJK_CHAR.test(text[text.length - 1]) && CJK_CHAR.test(line.text[0]))) {
+        text += ' ';
+      }
+    }
+    const offset = text.length;
+    text += line.text;
+    line.pieces.forEach(piece => items.push({ start: offset + piece.start, end: offset + piece.end, box: piece.box }));
+  }
+  return { text, items };
+};
+
+/**
+ * Helper: Decides whether a line starts a new paragraph, from spacing, font size and indentation
+ */
+const startsParagraph = (prev: LayoutLine, line: LayoutLine, columnLeft: number, columnRight: number, lineSpacing: number): boolean => {
+  const em = line.fontSize;
+  if (Math.abs(line.fontSize - prev.fontSize) > prev.fontSize * 0.15) return true;
+  // Vertical spacing only means something within the same column
+  if (line.column === prev.column && prev.y - line.y > lineSpacing * 1.4) return true;
+  const isIndented = line.x0 - columnLeft > em * 0.8 && prev.x0 - columnLeft < em * 0.3;
+  if (isIndented) return true;
+  // A short line ending a sentence closes its paragraph
+  return prev.x1 < columnRight - em * 4 && PARAGRAPH_END_REGEX.test(prev.text);
+};
+
+/**
+ * Turns ordered lines into page text: paragraphs separated by blank lines,
+ * page numbers and running headers/footers removed. Also returns each text item's
+ * range in that text with its box on the page.
+ */
+export const linesToText = (lines: LayoutLine[], runningLines: Set<string>): { text: string; items: PositionedText[] } => {
+  const body = lines.filter(line => !isMarginNoise(line, runningLines));
+  if (body.length === 0) return { text: '', items: [] };
+
+  // Left/right edges of each column; spanning lines are measured on their own
+  const columnExtents = new Map<number, [number, number]>();
+  for (const line of body) {
+    if (line.column < 0) continue;
+    const [left, right] = columnExtents.get(line.column) ?? [line.x0, line.x1];
+    columnExtents.set(line.column, [Math.min(left, line.x0), Math.max(right, line.x1)]);
+  }
+
+  // Typical baseline distance between consecutive lines of the same column
+  const gaps = body.slice(1)
+    .map((line, i) => (line.column === body[i].column ? body[i].y - line.y : 0))
+    .filter(gap => gap > 0);
+  const lineSpacing = median(gaps) || median(body.map(l => l.fontSize)) * 1.2;
+
+  const paragraphs: LayoutLine[][] = [];
+  body.forEach((line, i) => {
+    const [left, right] = columnExtents.get(line.column) ?? [line.x0, line.x1];
+    if (i === 0 || startsParagraph(body[i - 1], line, left, right, lineSpacing)) {
+      paragraphs.push([line]);
+    } else {
+      paragraphs[paragraphs.length - 1].push(line);
+    }
+  });
+
+  let text = '';
+  const items: PositionedText[] = [];
+  paragraphs.forEach((paragraph, i) => {
+    if (i > 0) text += '\n\n';
+    const offset = text.length;
+    const joined = joinLines(paragraph);
+    text += joined.text;
+    joined.items
+      .filter(item => item.end > item.start)
+      .forEach(item => items.push({
+        text: joined.text.substring(item.start, item.end),
+        start: offset + item.start,
+        end: offset + item.end,
+        box: item.box,
+      }));
+  });
+  return { text, items };
+};
@@ -0,0 +1,135 @@
+import { PageTranslation, TranslationSegment } from '../types';
+import { getTranslationLanguage } from '../data/translationLanguages';
+import { translateParagraphs } from './geminiService';
+import { GeminiRequestOptions } from './geminiClient';
+import { detectLanguage } from './languageDetect';
+import { hashText } from './hashService';
+import { paragraphRanges } from './sentenceSegmenter';
+import { getStoredTranslation, putStoredTranslation } from './translationStore';
+
+/**
+ * Page translation for translate-and-read. Pages are translated paragraph by paragraph, so
+ * every translated paragraph lines up with its original; offsets are mapped between the two
+ * through that alignment (proportionally within a paragraph).
+ */
+
+// Paragraphs are sent in batches of up to this many characters, one request per batch
+const MAX_BATCH_CHARS = 5000;
+
+/**
+ * Helper: Non-empty paragraphs of the page as trimmed [start, end) ranges
+ */
+const sourceParagraphs = (text: string): Array<[number, number]> => {
+  return paragraphRanges(text)
+    .map(([start, end]): [number, number] => {
+      const part = text.substring(start, end);
+      const leading = part.search(/\S/);
+      return leading === -1 ? [start, start] : [start + leading, start + part.trimEnd().length];
+    })
+    .filter(([start, end]) => end > start);
+};
+
+/**
+ * Helper: Translates paragraphs in batches; a batch whose paragraphs come back merged or split
+ * is retried one paragraph at a time, so alignment always holds
+ */
+const translateInBatches = async (
+  paragraphs: string[],
+  languageName: string,
+  options: GeminiRequestOptions
+): Promise<string[]> => {
+  const batches: string[][] = [];
+  let size = 0;
+  for (const paragraph of paragraphs) {
+    if (batches.length === 0 || size + paragraph.length > MAX_BATCH_CHARS) {
+      batches.push([]);
+      size = 0;
+    }
+    batches[batches.length - 1].push(paragraph);
+    size += paragraph.length;
+  }
+
+  const translated: string[] = [];
+  for (const batch of batches) {
+    try {
+      translated.push(...await translateParagraphs(batch, languageName, options));
+    } catch (err) {
+      if (!(err instanceof SyntaxError) || batch.length === 1) throw err;
+      console.warn('[Translation] Batch misaligned, translating paragraphs one by one', err);
+      for (const paragraph of batch) {
+        translated.push(...await translateParagraphs([paragraph], languageName, options));
+      }
+    }
+  }
+  return translated;
+};
+
+/**
+ * Translation of one page, from the store when the page text is unchanged. Text already in
+ * the target language is passed through without an API call.
+ */
+export const translatePage = async (
+  docHash: string,
+  pageNumber: number,
+  text: string,
+  targetLang: string,
+  options: GeminiRequestOptions = {}
+): Promise<PageTranslation> => {
+  const sourceHash = await hashText(text);
+  const stored = await getStoredTranslation(docHash, targetLang, pageNumber, sourceHash).catch(err => {
+    console.warn(`[Translation] Lookup failed for page ${pageNumber}`, err);
+    return null;
+  });
+  if (stored) return stored;
+
+  const ranges = sourceParagraphs(text);
+  const paragraphs = ranges.map(([start, end]) => text.substring(start, end));
+  const translated = detectLanguage(text) === targetLang
+    ? paragraphs
+    : await translateInBatches(paragraphs, getTranslationLanguage(targetLang)?.name ?? targetLang, options);
+
+  const segments: TranslationSegment[] = [];
+  let translatedText = '';
+  ranges.forEach(([sourceStart, sourceEnd], i) => {
+    if (i > 0) translatedText += '\n\n';
+    const paragraph = translated[i].trim().replace(/\n\s*\n/g, '\n');
+    segments.push({ sourceStart, sourceEnd, start: translatedText.length, end: translatedText.length + paragraph.length });
+    translatedText += paragraph;
+  });
+
+  const translation: PageTranslation = { targetLang, text: translatedText, segments };
+  putStoredTranslation(docHash, pageNumber, sourceHash, translation)
+    .catch(err => console.warn(`[Translation] Failed to store page ${pageNumber}`, err));
+  return translation;
+};
+
+/**
+ * Helper: Maps an offset from one side of the alignment to the other
+ */
+const mapOffset = (
+  segments: TranslationSegment[],
+  offset: number,
+  from: (s: TranslationSegment) => [number, number],
+  to: (s: TranslationSegment) => [number, number]
+): number => {
+  if (segments.length === 0) return 0;
+  const segment = segments.find(s => offset < from(s)[1]) ?? segments[segments.length - 1];
+  const [fromStart, fromEnd] = from(segment);
+  const [toStart, toEnd] = to(segment);
+  const fraction = Math.max(0, Math.min(1, (offset - fromStart) / Math.max(1, fromEnd - fromStart)));
+  return toStart + Math.round(fraction * (toEnd - toStart));
+};
+
+/**
+ * Offset in the translation matching an offset in the original page text
+ */
+export const toTranslationOffset = (translation: PageTranslation, sourceOffset: number): number => {
+  return mapOffset(translation.segments, sourceOffset, s => [s.sourceStart, s.sourceEnd], s => [s.start, s.end]);
+};
+
+/**
+ * Offset in the original page text matching an offset in the translation
+ */
+export const toSourceOffset = (translation: PageTranslation, offset: number): number => {
+  return mapOffset(translation.segments, offset, s => [s.start, s.end], s => [s.sourceStart, s.sourceEnd]);
+};
@@ -0,0 +1,50 @@
+import { PageTranslation } from '../types';
+import { openDB, promisify, transactionDone, STORES } from './db';
+
+/**
+ * Persistent page translations, per document and target language. Each remembers a hash of
+ * the page text it was made from, so it is redone when that changes (e.g. after OCR).
+ */
+
+const STORE_NAME = STORES.TRANSLATIONS;
+
+interface TranslationRecord {
+  docHash: string;
+  targetLang: string;
+  pageNumber: number;
+  sourceHash: string;
+  translation: PageTranslation;
+  createdAt: number;
+}
+
+export const getStoredTranslation = async (
+  docHash: string,
+  targetLang: string,
+  pageNumber: number,
+  sourceHash: string
+): Promise<PageTranslation | null> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const record = await promisify<TranslationRecord | undefined>(tx.objectStore(STORE_NAME).get([docHash, targetLang, pageNumber]));
+  return record?.sourceHash === sourceHash ? record.translation : null;
+};
+
+export const putStoredTranslation = async (
+  docHash: string,
+  pageNumber: number,
+  sourceHash: string,
+  translation: PageTranslation
+): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const record: TranslationRecord = {
+    docHash,
+    targetLang: translation.targetLang,
+    pageNumber,
+    sourceHash,
+    translation,
+    createdAt: Date.now(),
+  };
+  tx.objectStore(STORE_NAME).put(record);
+  await transactionDone(tx);
+};
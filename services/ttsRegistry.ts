@@ -0,0 +1,26 @@
+import { TTSProvider } from '../types';
+import { webSpeechProvider } from './webSpeechProvider';
+import { geminiTTSProvider } from './geminiTTSProvider';
+import { httpTTSProvider } from './httpTTSProvider';
+
+/**
+ * Registry of speech backends. The app only talks to the TTSProvider interface,
+ * so adding a backend means implementing it and registering it here.
+ */
+
+const providers = new Map<string, TTSProvider>();
+
+export const registerTTSProvider = (provider: TTSProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getTTSProviders = (): TTSProvider[] => Array.from(providers.values());
+
+export const getTTSProvider = (id: string): TTSProvider | undefined => providers.get(id);
+
+// Used on startup and as the fallback when an audio provider fails
+export const DEFAULT_TTS_PROVIDER_ID = webSpeechProvider.id;
+
+registerTTSProvider(webSpeechProvider);
+registerTTSProvider(geminiTTSProvider);
+registerTTSProvider(httpTTSProvider);
@@ -0,0 +1,65 @@
+import { TTSProvider, TTSVoice } from '../types';
+import { DEFAULT_SPEECH_STYLE_ID } from '../data/speechStyles';
+import { matchesLanguage } from './languageDetect';
+
+/**
+ * User voice choices, persisted in localStorage and shared by all providers.
+ */
+
+export interface VoicePreferences {
+  providerId: string | null;
+  voices: Record<string, string>; // Provider id -> chosen voice id
+  style: string; // Speech style id (see data/speechStyles)
+  autoLanguage: boolean; // Switch to a voice matching each page's detected language
+}
+
+const STORAGE_KEY = 'ai-reader.voicePreferences';
+
+const DEFAULT_PREFERENCES: VoicePreferences = {
+  providerId: null,
+  voices: {},
+  style: DEFAULT_SPEECH_STYLE_ID,
+  autoLanguage: true,
+};
+
+export const loadVoicePreferences = (): VoicePreferences => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_PREFERENCES, ...JSON.parse(raw) } : { ...DEFAULT_PREFERENCES };
+  } catch {
+    return { ...DEFAULT_PREFERENCES };
+  }
+};
+
+export const saveVoicePreferences = (prefs: VoicePreferences) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+};
+
+/**
+ * Picks the best voice for a language: the browser default among matching voices,
+ * then a local (offline) one, then any match.
+ */
+export const pickVoiceForLanguage = (voices: TTSVoice[], lang: string): TTSVoice | undefined => {
+  const matching = voices.filter(v => v.lang && matchesLanguage(v.lang, lang));
+  return matching.find(v => v.isDefault) ?? matching.find(v => v.isLocal) ?? matching[0];
+};
+
+/**
+ * Resolves the voice to use for a page. The user's choice wins unless auto language is on
+ * and that voice is for a different language than the page. Providers whose voices report
+ * no language (Gemini) are multilingual, so the choice is always kept.
+ */
+export const resolveVoice = (
+  provider: TTSProvider,
+  prefs: VoicePreferences,
+  voices: TTSVoice[],
+  pageLang: string | null
+): string => {
+  const chosen = prefs.voices[provider.id] || provider.defaultVoice;
+  if (!prefs.autoLanguage || !pageLang) return chosen;
+
+  const chosenVoice = voices.find(v => v.id === chosen);
+  if (chosenVoice?.lang && matchesLanguage(chosenVoice.lang, pageLang)) return chosen;
+
+  return pickVoiceForLanguage(voices, pageLang)?.id ?? chosen;
+};
@@ -0,0 +1,96 @@
+import { LiveTTSProvider, TTSVoice } from '../types';
+
+/**
+ * Browser SpeechSynthesis. Free, offline-capable and the only provider with
+ * real word boundary events, so it is also the fallback when others fail.
+ */
+
+const synth = (): SpeechSynthesis => window.speechSynthesis;
+
+// Events from an utterance that was since canceled or replaced are ignored,
+// otherwise a late 'end' from cancel() would look like the page finished
+let currentUtterance: SpeechSynthesisUtterance | null = null;
+
+// getVoices() is empty until the browser fires 'voiceschanged' (Chrome loads them async)
+const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const voices = synth().getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise(resolve => {
+    const timeout = setTimeout(() => resolve(synth().getVoices()), 2000);
+    synth().addEventListener('voiceschanged', () => {
+      clearTimeout(timeout);
+      resolve(synth().getVoices());
+    }, { once: true });
+  });
+};
+
+export const webSpeechProvider: LiveTTSProvider = {
+  kind: 'live',
+  id: 'web-speech',
+  label: 'Browser Voice',
+  defaultVoice: '', // Empty = let the browser pick
+  capabilities: {
+    wordBoundaries: true,
+    cacheable: false,
+    // Chrome silently stops long utterances, but splitting would break boundary offsets; read per page
+    maxChunkChars: Number.MAX_SAFE_INTEGER,
+    requiresNetwork: false,
+    styles: false,
+  },
+
+  isAvailable: () => typeof window !== 'undefined' && 'speechSynthesis' in window,
+
+  getVoices: async (): Promise<TTSVoice[]> => {
+    const voices = await loadVoices();
+    return voices.map(v => ({ id: v.voiceURI, name: v.name, lang: v.lang, isDefault: v.default, isLocal: v.localService }));
+  },
+
+  speak: (text, { voice, lang, rate, onBoundary, onEnd, onError }) => {
+    synth().cancel();
+    // Chrome keeps the paused flag through cancel(), which would hold back the new utterance
+    if (synth().paused) synth().resume();
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    currentUtterance = utterance;
+    utterance.rate = rate;
+    // Without lang, browsers read e.g. Chinese text with the (English) default voice
+    if (lang) utterance.lang = lang;
+    if (voice) {
+      const match = synth().getVoices().find(v => v.voiceURI === voice);
+      if (match) {
+        utterance.voice = match;
+        utterance.lang = match.lang;
+      }
+    }
+
+    utterance.onboundary = (event) => {
+      if (utterance !== currentUtterance) return;
+      if (event.name === 'word' || event.name === 'sentence') {
+        onBoundary(event.charIndex);
+      }
+    };
+    utterance.onend = () => {
+      if (utterance !== currentUtterance) return;
+      currentUtterance = null;
+      onEnd();
+    };
+    utterance.onerror = (e) => {
+      if (utterance !== currentUtterance) return;
+      // cancel() fires 'interrupted'/'canceled' errors; those are not failures
+      if (e.error === 'interrupted' || e.error === 'canceled') return;
+      onError(e);
+    };
+
+    synth().speak(utterance);
+  },
+
+  pause: () => synth().pause(),
+  resume: () => synth().resume(),
+  cancel: () => {
+    currentUtterance = null;
+    if (synth().speaking || synth().pending) synth().cancel();
+    if (synth().paused) synth().resume();
+  },
+  isPaused: () => synth().paused,
+};
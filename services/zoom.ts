@@ -0,0 +1,30 @@
+import { ZoomLevel } from '../types';
+
+export const DEFAULT_ZOOM: ZoomLevel = 'fit-width';
+
+// Fixed zoom steps used by zoom in/out
+export const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+/**
+ * Resolves a zoom level to a render scale for a page of `pageSize` (PDF points at scale 1)
+ * shown in an area of `available` CSS pixels
+ */
+export const resolveZoomScale = (
+  zoom: ZoomLevel,
+  pageSize: { width: number; height: number },
+  available: { width: number; height: number }
+): number => {
+  if (typeof zoom === 'number') return zoom;
+  const fitWidth = available.width / pageSize.width;
+  const scale = zoom === 'fit-width' ? fitWidth : Math.min(fitWidth, available.height / pageSize.height);
+  // Rounded so sub-pixel layout changes do not trigger a re-render
+  return Math.max(0.1, Math.round(scale * 1000) / 1000);
+};
+
+/**
+ * Next fixed zoom step above (direction 1) or below (-1) the current scale
+ */
+export const stepZoom = (currentScale: number, direction: 1 | -1): number => {
+  if (direction === 1) return ZOOM_STEPS.find(step => step > currentScale + 0.001) ?? ZOOM_STEPS[ZOOM_STEPS.length - 1];
+  return [...ZOOM_STEPS].reverse().find(step => step < currentScale - 0.001) ?? ZOOM_STEPS[0];
+};
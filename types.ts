@@ -1,13 +1,14 @@
 export interface PDFPageText {
   pageNumber: number;
   text: string;
+  items: PositionedText[]; // Ranges of `text` with their boxes on the page
   isScanned: boolean; // If true, likely needs OCR
 }
 
 export enum ReaderMode {
   IDLE = 'IDLE',
-  NATIVE_TTS = 'NATIVE_TTS', // Browser SpeechSynthesis
-  GEMINI_TTS = 'GEMINI_TTS', // Gemini Audio Generation
+  LIVE_TTS = 'LIVE_TTS', // Provider speaks directly with boundary events (browser SpeechSynthesis)
+  AUDIO_TTS = 'AUDIO_TTS', // Provider returns audio played through Web Audio (Gemini, HTTP backends)
 }
 
 export interface AudioState {
@@ -20,12 +21,289 @@ export interface AudioState {
 export interface PDFDocumentProxy {
   numPages: number;
   getPage: (pageNumber: number) => Promise<PDFPageProxy>;
+  getOutline: () => Promise<PDFOutlineNode[] | null>;
+  getDestination: (id: string) => Promise<any[] | null>;
+  getPageIndex: (ref: any) => Promise<number>;
   destroy: () => void;
 }
 
+// Raw outline entry as returned by pdf.js (dest is a named destination or an explicit array)
+export interface PDFOutlineNode {
+  title: string;
+  dest: string | any[] | null;
+  items: PDFOutlineNode[];
+}
+
+// Outline entry with its destination resolved to a 1-based page number
+export interface OutlineItem {
+  title: string;
+  pageNumber: number | null; // null if the destination could not be resolved (e.g. external link)
+  items: OutlineItem[];
+}
+
+// Outline entry in reading order, as produced by flattenOutline
+export interface FlatOutlineItem extends OutlineItem {
+  pageNumber: number;
+  depth: number;
+}
+
+// Pages covered by an outline entry, up to the next entry at the same or a higher level
+export interface ChapterRange {
+  title: string;
+  startPage: number;
+  endPage: number;
+}
+
 export interface PDFPageProxy {
   render: (params: any) => any;
   getTextContent: () => Promise<any>;
   getViewport: (params: { scale: number }) => any;
   view: number[];
-}
\ No newline at end of file
+}
+
+// A slice of page text with its [start, end) character offsets in that text
+export interface TextChunk {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// A chunk of synthesized speech, positioned within the page's audio (seconds at 1x)
+export interface SpeechChunk extends TextChunk {
+  startTime: number;
+  duration: number;
+  spoken?: SpokenText; // What the voice was given for this chunk, when normalization changed it
+}
+
+// All audio for one page: chunks joined into a single gapless buffer
+export interface PageAudio {
+  buffer: AudioBuffer;
+  chunks: SpeechChunk[];
+}
+
+// --- TTS Providers ---
+
+export interface TTSVoice {
+  id: string;
+  name: string;
+  lang?: string; // BCP 47 tag when known
+  isDefault?: boolean;
+  isLocal?: boolean; // Works offline
+}
+
+export interface TTSCapabilities {
+  wordBoundaries: boolean; // Emits boundary events while speaking (exact highlighting)
+  cacheable: boolean; // synthesize() output can be stored and replayed
+  maxChunkChars: number; // Longest text accepted by a single request/utterance
+  requiresNetwork: boolean;
+  styles: boolean; // Honors SynthesisOptions.style (prompted delivery)
+}
+
+export interface SynthesisOptions {
+  voice?: string;
+  style?: string; // Speech style id (see data/speechStyles)
+  lang?: string; // Detected page language, primary subtag
+  signal?: AbortSignal; // Cancels a pending synthesize()
+  background?: boolean; // Prefetching; may wait behind requests for what is playing
+}
+
+export interface LiveSpeechOptions extends SynthesisOptions {
+  rate: number;
+  onBoundary: (charIndex: number) => void; // Offset into the text passed to speak()
+  onEnd: () => void;
+  onError: (error: unknown) => void;
+}
+
+// Describes one user-editable provider option, rendered generically by ProviderSettingsDialog
+export interface TTSProviderSettingField {
+  key: string;
+  label: string;
+  type: 'text' | 'password' | 'select';
+  options?: string[]; // For 'select'
+  placeholder?: string;
+  hint?: string;
+}
+
+export interface TTSProviderSettings {
+  fields: TTSProviderSettingField[];
+  load: () => Record<string, string>;
+  save: (values: Record<string, string>) => void;
+}
+
+interface BaseTTSProvider {
+  id: string;
+  label: string;
+  capabilities: TTSCapabilities;
+  defaultVoice: string;
+  getVoices: () => Promise<TTSVoice[]>;
+  isAvailable: () => boolean; // e.g. API key or endpoint configured
+  settings?: TTSProviderSettings;
+}
+
+// Speaks text itself; playback state lives in the provider (Web Speech)
+export interface LiveTTSProvider extends BaseTTSProvider {
+  kind: 'live';
+  speak: (text: string, options: LiveSpeechOptions) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  isPaused: () => boolean;
+}
+
+// Returns encoded or raw audio bytes that the app caches, decodes and plays
+export interface AudioTTSProvider extends BaseTTSProvider {
+  kind: 'audio';
+  synthesize: (text: string, options: SynthesisOptions) => Promise<Uint8Array>;
+  decode: (data: Uint8Array) => Promise<AudioBuffer>;
+  // Describes the configured backend (e.g. endpoint and model) for providers that can point at
+  // different servers, so audio cached from one is not replayed for another
+  cacheVariant?: () => string;
+}
+
+export type TTSProvider = LiveTTSProvider | AudioTTSProvider;
+
+// --- Per-document Persistence ---
+
+export interface Bookmark {
+  id: string;
+  name: string;
+  pageNumber: number;
+  charOffset: number; // Start of the bookmarked sentence in the page text
+  snippet: string; // Beginning of that sentence, for display
+  createdAt: number;
+}
+
+// Page zoom: fit the viewer's width or the whole page, or a fixed scale (1 = 100%)
+export type ZoomLevel = 'fit-width' | 'fit-page' | number;
+
+// One page at a time, or all pages stacked in a continuous vertical scroll
+export type ViewMode = 'single' | 'continuous';
+
+export interface DocumentState {
+  docHash: string;
+  name: string;
+  lastPage: number;
+  charOffset: number; // Last spoken position in the page text
+  readerMode: ReaderMode;
+  providerId: string;
+  playbackRate: number;
+  zoom?: ZoomLevel; // Missing in state saved before zoom existed
+  viewMode?: ViewMode; // Missing in state saved before continuous view existed
+  translateTo?: string | null; // Target language of translate-and-read, null when reading the original
+  pronunciations?: PronunciationRule[]; // Dictionary entries that only apply to this document
+  bookmarks: Bookmark[];
+  updatedAt: number;
+}
+
+// --- Search ---
+
+export interface SearchHit {
+  pageNumber: number;
+  start: number; // Match offsets in the page text
+  end: number;
+  snippet: string; // Match with surrounding context
+  snippetMatchStart: number; // Match offsets within the snippet
+  snippetMatchEnd: number;
+}
+
+// A paragraph-sized piece of page text retrieved as context for a question
+export interface Passage {
+  pageNumber: number;
+  start: number; // Offsets in the page text
+  end: number;
+  text: string;
+}
+
+// --- Document Q&A ---
+
+// A page passage an answer refers to with an inline [n] marker
+export interface Citation extends Passage {
+  marker: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  citations: Citation[]; // Empty for questions
+  isError?: boolean;
+}
+
+// --- OCR Text Layer ---
+
+// Rectangle as fractions (0-1) of the rendered page, origin top-left
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A line or word of OCR text, with its offsets in the page text
+export interface PositionedText {
+  text: string;
+  start: number;
+  end: number;
+  box: TextBox;
+}
+
+export interface OcrPageLayout {
+  text: string; // Page text rebuilt from the lines; offsets below refer to it
+  lines: PositionedText[];
+  words: PositionedText[];
+}
+
+// --- Summaries ---
+
+// A run of pages summarized together: a top-level chapter, or a block of pages without an outline
+export interface SummarySection extends ChapterRange {
+  id: string;
+}
+
+export interface DocumentSummary {
+  overview: string | null; // Whole document; null until every section is summarized
+  sections: Record<string, string>; // By section id
+  pages: Record<number, string>;
+}
+
+// --- Translation ---
+
+// A paragraph of the page and its translation, as [start, end) offsets in each text
+export interface TranslationSegment {
+  sourceStart: number;
+  sourceEnd: number;
+  start: number;
+  end: number;
+}
+
+export interface PageTranslation {
+  targetLang: string; // Primary language subtag, e.g. 'zh'
+  text: string; // Translated paragraphs separated by blank lines
+  segments: TranslationSegment[];
+}
+
+// --- Speech Normalization ---
+
+// Text as given to the voice, with the offset in the original text of each of its characters
+export interface SpokenText {
+  text: string;
+  sourceOffsets: number[]; // One entry per character of `text`, plus one for its end
+}
+
+// A user dictionary entry: matches of `pattern` (a regular expression) are spoken as `replacement`
+export interface PronunciationRule {
+  id: string;
+  pattern: string;
+  replacement: string; // May refer to groups as $1, $2, ...
+  caseSensitive: boolean;
+}
+
+// Which normalization steps run before text is spoken
+export interface SpeechNormalizationSettings {
+  fixLigatures: boolean; // Ligature characters, soft hyphens and zero-width characters
+  stripCitations: boolean; // [12], (Smith et al., 2019), superscript note numbers
+  stripUrls: boolean; // URLs are read as their host name, DOIs are dropped
+  expandAbbreviations: boolean; // "et al.", "Fig.", "e.g." and the like
+  expandNumbers: boolean; // Numbers, dates and units, in the page's language
+  pronunciations: PronunciationRule[]; // Dictionary entries for every document
+}
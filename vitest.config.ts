@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run in Node without the app's build-time defines (see vite.config.ts), so they can set
+// process.env themselves, e.g. GEMINI_BASE_URL for a stub server
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['services/**/*.test.ts', 'server/**/*.test.ts'],
+  },
+});